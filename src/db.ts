@@ -1,5 +1,5 @@
 // src/db.ts - Unified database connection
-import { Client } from "pg";
+import { Client, Pool, type PoolClient, type QueryResult } from "pg";
 
 // Determine SSL configuration based on environment
 const getSSLConfig = () => {
@@ -20,6 +20,26 @@ const client = new Client({
 
 let connected = false;
 
+// Transactions need a dedicated connection: the shared client above interleaves
+// queries from concurrent requests, so BEGIN/COMMIT on it would not isolate anything.
+let pool: Pool | null = null;
+
+function getPool() {
+  if (!pool) {
+    pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      ssl: getSSLConfig(),
+      max: 5,
+    });
+  }
+  return pool;
+}
+
+/** Anything that can run a query: the shared client helper or a transaction client. */
+export interface DbExecutor {
+  query(text: string, params?: any[]): Promise<QueryResult<any>>;
+}
+
 export async function db() {
   if (!connected) {
     try {
@@ -49,8 +69,33 @@ export async function query(text: string, params?: any[]) {
   }
 }
 
+// The shared client as a DbExecutor, for helpers that optionally run inside a transaction
+export const sharedDb: DbExecutor = { query };
+
+/**
+ * Runs fn inside BEGIN/COMMIT on a pooled connection; rolls back and rethrows on error.
+ */
+export async function withTransaction<T>(fn: (tx: PoolClient) => Promise<T>): Promise<T> {
+  const tx = await getPool().connect();
+  try {
+    await tx.query("BEGIN");
+    const out = await fn(tx);
+    await tx.query("COMMIT");
+    return out;
+  } catch (error) {
+    await tx.query("ROLLBACK").catch(() => undefined);
+    throw error;
+  } finally {
+    tx.release();
+  }
+}
+
 // Optional: Add a cleanup function for graceful shutdown
 export async function closeDb() {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
   if (connected) {
     await client.end();
     connected = false;
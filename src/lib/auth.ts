@@ -0,0 +1,69 @@
+// src/lib/auth.ts
+// Session-cookie auth shared by the API routers.
+import * as admin from "firebase-admin";
+import type { Request, RequestHandler } from "express";
+import { getUserRole } from "../userRepo";
+
+export type AuthedReq = Request & { user?: { uid: string; email: string | null; role?: string | null } };
+
+const SESSION_COOKIE_NAME = process.env.SESSION_COOKIE_NAME || "__session";
+
+async function decodeSession(req: Request) {
+  const cookie = req.cookies?.[SESSION_COOKIE_NAME];
+  if (!cookie) return null;
+  const decoded = await admin.auth().verifySessionCookie(cookie, true);
+  return { uid: decoded.uid, email: decoded.email ?? null };
+}
+
+/** The session's user with their users.role, or null when signed out or the session is invalid. */
+export async function sessionUserWithRole(req: Request) {
+  let user: { uid: string; email: string | null } | null = null;
+  try {
+    user = await decodeSession(req);
+  } catch {
+    return null;
+  }
+  return user ? { ...user, role: await getUserRole(user.uid) } : null;
+}
+
+/** Attaches req.user when a valid session cookie is present; never rejects the request. */
+export const identifyUser: RequestHandler = async (req: AuthedReq, _res, next) => {
+  try {
+    req.user = (await decodeSession(req)) ?? undefined;
+  } catch {
+    req.user = undefined;
+  }
+  next();
+};
+
+export const requireAuth: RequestHandler = async (req: AuthedReq, res, next) => {
+  try {
+    const user = await decodeSession(req);
+    if (!user) return res.status(401).json({ ok: false, error: "UNAUTHORIZED" });
+    req.user = user;
+    next();
+  } catch {
+    res.status(401).json({ ok: false, error: "UNAUTHORIZED" });
+  }
+};
+
+/** Requires a session whose users.role is one of `roles`. */
+export function requireRole(...roles: string[]): RequestHandler {
+  return async (req: AuthedReq, res, next) => {
+    let user: { uid: string; email: string | null } | null = null;
+    try {
+      user = await decodeSession(req);
+    } catch {
+      user = null;
+    }
+    if (!user) return res.status(401).json({ ok: false, error: "UNAUTHORIZED" });
+    try {
+      const role = await getUserRole(user.uid);
+      if (!role || !roles.includes(role)) return res.status(403).json({ ok: false, error: "FORBIDDEN" });
+      req.user = { ...user, role };
+      next();
+    } catch (err: any) {
+      res.status(500).json({ ok: false, error: err?.message || "ROLE_LOOKUP_ERROR" });
+    }
+  };
+}
@@ -0,0 +1,171 @@
+// src/lib/columnMapping.ts
+// Per-entity mapping profiles: rename an entity's own headers (CustID, status_acct, ...) to the
+// canonical report headers and clean values up before validation.
+import { findReportSchema, listReportSchemas, toStr, type ReportSchema } from "./reportSchemas";
+import type { SourceRecord } from "./reportValidation";
+
+export type ValueTransform =
+  | "trim"
+  | "upper"
+  | "lower"
+  | "currency"                      // "₱", "Php", "peso" → "PHP"
+  | { op: "date"; format: string }; // e.g. "DD/MM/YYYY", "MM-DD-YY", "D MMM YYYY" → YYYY-MM-DD
+
+export interface MappingProfile {
+  id: string;
+  entity_code: string;
+  kind: string | null;                          // null → applies to every report kind of the entity
+  name: string;
+  columns: Record<string, string>;              // source header → canonical column or header
+  transforms: Record<string, ValueTransform[]>; // canonical column or header → transforms, in order
+}
+
+export type MappingProfileInput = Omit<MappingProfile, "id">;
+
+// ------------------ canonical names ------------------
+/** Resolves a canonical column ("customer_id") or header ("Customer_ID") to the header the validator reads. */
+export function findCanonicalHeader(target: string, schema?: ReportSchema | null): string | null {
+  const t = target.trim().toLowerCase();
+  for (const s of schema ? [schema] : listReportSchemas()) {
+    const col = s.columns.find((c) => c.column === t || c.header.toLowerCase() === t);
+    if (col) return col.header;
+  }
+  return null;
+}
+
+// ------------------ value transforms ------------------
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  "₱": "PHP", "PHP": "PHP", "PESO": "PHP", "PESOS": "PHP",
+  "$": "USD", "US$": "USD", "USD": "USD", "DOLLAR": "USD",
+  "€": "EUR", "EURO": "EUR", "£": "GBP", "¥": "JPY", "YEN": "JPY",
+};
+
+export function normalizeCurrency(value: string) {
+  const v = value.trim().toUpperCase().replace(/\s+/g, "");
+  return CURRENCY_ALIASES[v] ?? v;
+}
+
+/**
+ * Parses `value` laid out as `format` (tokens YYYY, YY, MM, M, DD, D, MMM) into YYYY-MM-DD.
+ * Returns null when the value does not fit, so the validator reports the original text.
+ */
+export function parseDateWithFormat(value: string, format: string): string | null {
+  const tokens: string[] = [];
+  const pattern = format
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/YYYY|YY|MMM|MM|M|DD|D/g, (tok) => {
+      tokens.push(tok);
+      if (tok === "MMM") return "([A-Za-z]{3,9})";
+      if (tok === "YYYY") return "(\\d{4})";
+      return tok.length === 2 ? "(\\d{2})" : "(\\d{1,2})";
+    });
+  const m = value.trim().match(new RegExp(`^${pattern}$`));
+  if (!m) return null;
+
+  let y = NaN, mo = NaN, d = NaN;
+  tokens.forEach((tok, i) => {
+    const part = m[i + 1];
+    if (tok === "YYYY") y = Number(part);
+    else if (tok === "YY") y = 2000 + Number(part);
+    else if (tok === "MMM") mo = MONTHS.indexOf(part.slice(0, 3).toLowerCase()) + 1;
+    else if (tok.startsWith("M")) mo = Number(part);
+    else d = Number(part);
+  });
+  const dt = new Date(Date.UTC(y, mo - 1, d));
+  if (Number.isNaN(dt.getTime()) || dt.getUTCMonth() !== mo - 1 || dt.getUTCDate() !== d) return null;
+  return dt.toISOString().slice(0, 10);
+}
+
+function applyTransform(value: string, t: ValueTransform): string {
+  if (t === "trim") return value.trim();
+  if (t === "upper") return value.toUpperCase();
+  if (t === "lower") return value.toLowerCase();
+  if (t === "currency") return normalizeCurrency(value);
+  return parseDateWithFormat(value, t.format) ?? value;
+}
+
+// ------------------ profile validation ------------------
+function isTransform(t: unknown): t is ValueTransform {
+  if (t === "trim" || t === "upper" || t === "lower" || t === "currency") return true;
+  return !!t && typeof t === "object" && (t as any).op === "date" && typeof (t as any).format === "string" && !!(t as any).format.trim();
+}
+
+/** Checks a profile payload from the API; returns the problems found (empty when valid). */
+export function validateProfileInput(input: Partial<MappingProfileInput>): string[] {
+  const problems: string[] = [];
+  if (!input.entity_code?.trim()) problems.push("entity_code is required");
+  if (!input.name?.trim()) problems.push("name is required");
+
+  const schema = input.kind ? findReportSchema(input.kind) : null;
+  if (input.kind && !schema) problems.push(`unknown kind "${input.kind}"`);
+
+  const columns = input.columns ?? {};
+  if (typeof columns !== "object" || Array.isArray(columns)) problems.push("columns must be an object");
+  else {
+    for (const [source, target] of Object.entries(columns)) {
+      if (typeof target !== "string" || !findCanonicalHeader(target, schema)) {
+        problems.push(`columns["${source}"]: "${target}" is not a known report column`);
+      }
+    }
+  }
+
+  const transforms = input.transforms ?? {};
+  if (typeof transforms !== "object" || Array.isArray(transforms)) problems.push("transforms must be an object");
+  else {
+    for (const [target, list] of Object.entries(transforms)) {
+      if (!findCanonicalHeader(target, schema)) problems.push(`transforms["${target}"]: not a known report column`);
+      if (!Array.isArray(list) || !list.every(isTransform)) {
+        problems.push(`transforms["${target}"]: expected a list of trim, upper, lower, currency or { op: "date", format }`);
+      }
+    }
+  }
+  return problems;
+}
+
+// ------------------ applying a profile ------------------
+/** canonical header → the entity's source header, for reporting which column fed which. */
+export function profileSourceHeaders(profile: MappingProfile): Map<string, string> {
+  const schema = profile.kind ? findReportSchema(profile.kind) : null;
+  const out = new Map<string, string>();
+  for (const [source, target] of Object.entries(profile.columns)) {
+    const header = findCanonicalHeader(target, schema);
+    if (header) out.set(header, source);
+  }
+  return out;
+}
+
+/**
+ * Renames mapped headers and runs value transforms. Unmapped headers pass through unchanged;
+ * the original record is kept on `raw` so rejection reports echo what the entity sent.
+ */
+export function applyMappingProfile(records: SourceRecord[], profile: MappingProfile): SourceRecord[] {
+  const schema = profile.kind ? findReportSchema(profile.kind) : null;
+  const rename = new Map<string, string>();
+  for (const [source, target] of Object.entries(profile.columns)) {
+    const header = findCanonicalHeader(target, schema);
+    if (header) rename.set(source.trim().toLowerCase(), header);
+  }
+  const transforms = new Map<string, ValueTransform[]>();
+  for (const [target, list] of Object.entries(profile.transforms)) {
+    const header = findCanonicalHeader(target, schema);
+    if (header) transforms.set(header, list);
+  }
+
+  return records.map(({ line, record, raw }) => {
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      const header = rename.get(key.trim().toLowerCase()) ?? key;
+      // a mapped column wins over an identically named leftover column
+      if (header in out && !rename.has(key.trim().toLowerCase())) continue;
+      out[header] = value;
+    }
+    for (const [header, list] of transforms) {
+      if (out[header] === undefined || out[header] === null) continue;
+      out[header] = list.reduce((v, t) => applyTransform(v, t), toStr(out[header]));
+    }
+    return { line, record: out, raw: raw ?? record };
+  });
+}
@@ -1,5 +1,7 @@
 // src/lib/config.ts
 import winston from "winston";
+import os from "os";
+import path from "path";
 
 // Configuration
 export const CONFIG = {
@@ -11,11 +13,47 @@ export const CONFIG = {
   },
   PROCESSING: {
     MAX_FILE_SIZE: 50 * 1024 * 1024, // 50MB
+    STREAM_MAX_FILE_SIZE: Number(process.env.REPORT_STREAM_MAX_BYTES) || 5 * 1024 * 1024 * 1024, // 5GB
+    STREAM_BATCH_SIZE: 2000, // CSV rows validated + upserted per round trip when streaming
+    CHUNK_DIR: process.env.REPORT_CHUNK_DIR || path.join(os.tmpdir(), "report-upload-chunks"), // resumable upload parts, one folder per session
+    SPOOL_DIR: process.env.REPORT_SPOOL_DIR || path.join(os.tmpdir(), "report-stream-spool"), // streamed uploads, hashed to disk before ingesting
+    DEFAULT_CHUNK_SIZE: 8 * 1024 * 1024, // 8MB
+    MAX_CHUNK_SIZE: 64 * 1024 * 1024, // 64MB
+    MIN_CHUNK_SIZE: 1024 * 1024, // 1MB; only a file smaller than this fits in one smaller chunk
+    MAX_UPLOAD_CHUNKS: 10_000, // chunks per resumable upload session
+    MAX_BATCH_FILES: 50, // files per POST /upload/batch
+    BATCH_CONCURRENCY: 4, // files ingested at once in parallel batch mode
+    MAX_ZIP_ENTRIES: 200, // files inside one uploaded archive
+    MAX_ZIP_UNCOMPRESSED_SIZE: 500 * 1024 * 1024, // 500MB unpacked, across all entries
+    UPLOAD_SESSION_TTL_MS: (Number(process.env.REPORT_UPLOAD_SESSION_TTL_HOURS) || 24) * 60 * 60 * 1000,
+    UPLOAD_SESSION_QUOTA_BYTES: Number(process.env.REPORT_UPLOAD_QUOTA_BYTES) || 10 * 1024 * 1024 * 1024, // 10GB of unfinished sessions per user
     MAX_TEXT_LENGTH: 100000,
     MAX_ROWS_TO_ANALYZE: 1000,
     SAMPLE_VALUES_COUNT: 8,
     TYPE_DETECTION_SAMPLE_SIZE: 100,
   },
+  MATCHING: {
+    NAME_SIMILARITY: Number(process.env.CUSTOMER_MATCH_NAME_SIMILARITY) || 0.9, // Jaro-Winkler, 0..1
+    MIN_SCORE: Number(process.env.CUSTOMER_MATCH_MIN_SCORE) || 0.85, // pair score to flag as duplicates
+  },
+  QUALITY: {
+    FRESHNESS_GRACE_DAYS: Number(process.env.QUALITY_FRESHNESS_GRACE_DAYS) || 30, // after period end, full freshness score
+    FRESHNESS_ZERO_DAYS: Number(process.env.QUALITY_FRESHNESS_ZERO_DAYS) || 120, // after period end, freshness reaches 0
+    WEIGHTS: { completeness: 0.3, validity: 0.3, uniqueness: 0.2, freshness: 0.2 }, // overall score
+  },
+  POLICY: {
+    RULE_MATCH_SIMILARITY: Number(process.env.POLICY_RULE_MATCH_SIMILARITY) || 0.6, // word similarity, 0..1, for a rule to carry over between versions
+    CODE_MATCH_SIMILARITY: Number(process.env.POLICY_CODE_MATCH_SIMILARITY) || 0.3, // lower bar when both versions use the same rule code
+  },
+  FX: {
+    BASE_CURRENCY: (process.env.FX_BASE_CURRENCY || "PHP").toUpperCase(), // transaction totals are summed in this currency
+    MAX_RATE_AGE_DAYS: Number(process.env.FX_MAX_RATE_AGE_DAYS) || 7, // latest rate on or before the txn date, at most this old
+  },
+  PII: {
+    ENCRYPTION_KEY: process.env.PII_ENCRYPTION_KEY || null, // 32 bytes, base64 or hex; wins over the key file
+    KEY_FILE: process.env.PII_KEY_FILE || path.join(os.homedir(), ".report-pii", "pii.key"), // created on first use when missing
+    UNMASK_ROLES: (process.env.PII_UNMASK_ROLES ?? "teamLead").split(",").map((r) => r.trim()).filter(Boolean),
+  },
   DATABASE: {
     MAX_BATCH_SIZE: 100,
     CONNECTION_TIMEOUT: 5000,
@@ -0,0 +1,210 @@
+// src/lib/customerMatching.ts
+// Duplicate-customer matching over customer_data_reports rows from every entity. Records are
+// normalized, grouped into blocks that share a cheap key (email, phone, DOB + initial, name
+// prefix), compared pairwise within a block, and matching pairs are joined into clusters.
+
+export interface CustomerRecord {
+  customer_id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  dob: string | null;
+  entity: string | null;
+}
+
+export interface MatchThresholds {
+  nameSimilarity: number; // Jaro-Winkler on normalized names for two names to count as the same
+  minScore: number;       // pair score needed to join a cluster
+}
+
+export interface PairMatch {
+  a: string;
+  b: string;
+  score: number;
+  reasons: string[];
+  nameSimilarity: number;
+}
+
+export interface DuplicateCluster {
+  fingerprint: string; // sorted member ids, stable across scans
+  members: string[];
+  entities: string[];
+  score: number;       // weakest link holding the cluster together
+  pairs: PairMatch[];
+}
+
+const NAME_TITLES = new Set(["mr", "mrs", "ms", "miss", "dr", "sr", "jr", "engr", "atty"]);
+const MAX_BLOCK_SIZE = 200; // a key shared by more records than this is too common to block on
+
+export function normalizeName(value: string | null): string {
+  if (!value) return "";
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((t) => t && !NAME_TITLES.has(t))
+    .sort()
+    .join(" ");
+}
+
+/** Lower-cased, without a "+tag" in the local part. */
+export function normalizeEmail(value: string | null): string {
+  const email = (value ?? "").trim().toLowerCase();
+  const at = email.indexOf("@");
+  if (at <= 0) return "";
+  return email.slice(0, at).replace(/\+.*$/, "") + email.slice(at);
+}
+
+/** Digits only, compared on the last 10 so country prefixes and trunk zeros don't matter. */
+export function normalizePhone(value: string | null): string {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : "";
+}
+
+export function normalizeDob(value: string | null): string {
+  const m = (value ?? "").match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return m ? m[0] : "";
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a ? 1 : 0;
+  if (!a || !b) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (!matches) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j++]) transpositions++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+interface Normalized {
+  id: string;
+  entity: string | null;
+  name: string;
+  email: string;
+  phone: string;
+  dob: string;
+}
+
+function normalize(r: CustomerRecord): Normalized {
+  return {
+    id: r.customer_id,
+    entity: r.entity,
+    name: normalizeName(r.name),
+    email: normalizeEmail(r.email),
+    phone: normalizePhone(r.phone),
+    dob: normalizeDob(r.dob),
+  };
+}
+
+function blockingKeys(r: Normalized): string[] {
+  const keys: string[] = [];
+  if (r.email) keys.push(`e:${r.email}`);
+  if (r.phone) keys.push(`p:${r.phone}`);
+  if (r.dob && r.name) keys.push(`d:${r.dob}:${r.name[0]}`);
+  const tokens = r.name.split(" ").filter(Boolean);
+  if (tokens.length) keys.push(`n:${tokens.map((t) => t.slice(0, 3)).join(" ")}`);
+  return keys;
+}
+
+/** Scores one pair from 0 to 1; the reasons say which fields agreed. A similar name alone never matches. */
+function scorePair(x: Normalized, y: Normalized, thresholds: MatchThresholds): Omit<PairMatch, "a" | "b"> {
+  const nameSimilarity = x.name && y.name ? jaroWinkler(x.name, y.name) : 0;
+  const sameName = nameSimilarity >= thresholds.nameSimilarity;
+  const sameEmail = !!x.email && x.email === y.email;
+  const samePhone = !!x.phone && x.phone === y.phone;
+  const sameDob = !!x.dob && x.dob === y.dob;
+  const dobConflict = !!x.dob && !!y.dob && x.dob !== y.dob;
+
+  const reasons: string[] = [];
+  if (sameEmail) reasons.push("email");
+  if (samePhone) reasons.push("phone");
+  if (sameDob) reasons.push("dob");
+  if (sameName) reasons.push(`name≈${nameSimilarity.toFixed(2)}`);
+
+  let score = 0;
+  if (sameEmail) score = Math.max(score, 0.95);
+  if (samePhone && sameName) score = Math.max(score, 0.95);
+  if (sameDob && sameName) score = Math.max(score, 0.9);
+  if (samePhone) score = Math.max(score, 0.8);
+  // a shared email or phone on two people with different birthdays is a household, not a duplicate
+  if (dobConflict && !(sameEmail && sameName)) score = Math.min(score, 0.5);
+  if (score && sameName && (sameEmail || samePhone) && sameDob) score = 1;
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return { score: round(score), reasons, nameSimilarity: round(nameSimilarity) };
+}
+
+/** Candidate duplicate clusters, largest first. */
+export function findDuplicateClusters(records: CustomerRecord[], thresholds: MatchThresholds): DuplicateCluster[] {
+  const normalized = records.map(normalize);
+  const blocks = new Map<string, number[]>();
+  normalized.forEach((r, i) => {
+    for (const key of blockingKeys(r)) {
+      if (!blocks.has(key)) blocks.set(key, []);
+      blocks.get(key)!.push(i);
+    }
+  });
+
+  const parent = normalized.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const compared = new Set<string>();
+  const pairs: (PairMatch & { i: number })[] = [];
+
+  for (const members of blocks.values()) {
+    if (members.length < 2 || members.length > MAX_BLOCK_SIZE) continue;
+    for (let p = 0; p < members.length; p++) {
+      for (let q = p + 1; q < members.length; q++) {
+        const [i, j] = [members[p], members[q]];
+        const pairKey = i < j ? `${i}:${j}` : `${j}:${i}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+        const match = scorePair(normalized[i], normalized[j], thresholds);
+        if (match.score < thresholds.minScore) continue;
+        pairs.push({ a: normalized[i].id, b: normalized[j].id, ...match, i });
+        parent[find(i)] = find(j);
+      }
+    }
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  const paired = new Set(pairs.map((p) => find(p.i)));
+  normalized.forEach((r, i) => {
+    const root = find(i);
+    if (!paired.has(root)) return;
+    if (!clusters.has(root)) clusters.set(root, { fingerprint: "", members: [], entities: [], score: 1, pairs: [] });
+    const c = clusters.get(root)!;
+    c.members.push(r.id);
+    if (r.entity && !c.entities.includes(r.entity)) c.entities.push(r.entity);
+  });
+  for (const { i, ...pair } of pairs) {
+    const c = clusters.get(find(i))!;
+    c.pairs.push(pair);
+    c.score = Math.min(c.score, pair.score);
+  }
+
+  return [...clusters.values()]
+    .filter((c) => c.members.length > 1)
+    .map((c) => ({ ...c, members: c.members.sort(), fingerprint: [...c.members].sort().join("|") }))
+    .sort((x, y) => y.members.length - x.members.length || y.score - x.score);
+}
@@ -0,0 +1,162 @@
+// src/lib/dataQuality.ts
+// Data-quality scoring for report uploads. Rows are tallied batch by batch (streamed files never
+// sit in memory), then scored on four dimensions, each 0..1:
+//   completeness  filled cells / cells, over the columns the file sends plus the required ones
+//   validity      filled cells holding a value of the declared type (number, date, enum, currency code)
+//   uniqueness    distinct keys / non-empty keys
+//   freshness     1 up to FRESHNESS_GRACE_DAYS after the period end, falling to 0 at FRESHNESS_ZERO_DAYS
+import { CONFIG } from "./config";
+import { cleanHeaderKeys, compositeKey, toNum, toStr, type ReportColumn, type ReportSchema } from "./reportSchemas";
+import { isIsoCurrencyCode, isValidDate, type SourceRecord } from "./reportValidation";
+
+export const QUALITY_DIMENSIONS = ["completeness", "validity", "uniqueness", "freshness"] as const;
+export type QualityDimension = (typeof QUALITY_DIMENSIONS)[number];
+
+interface ColumnTally {
+  column: ReportColumn;
+  present: boolean; // header found in the file
+  filled: number;
+  invalid: number;
+}
+
+export interface QualityTally {
+  rows: number;
+  columns: ColumnTally[];
+  keys: Set<string> | null; // null when the caller counts distinct keys itself (streamed files)
+  keyed: number; // rows with a non-empty key
+  distinctKeys: number;
+}
+
+export interface ColumnQuality {
+  column: string;
+  header: string;
+  expectedType: string;
+  present: boolean;
+  completeness: number | null;
+  validity: number | null;
+  filled: number;
+  invalid: number;
+}
+
+export type QualityScores = Record<QualityDimension | "overall", number | null>;
+
+export interface QualityScorecard extends QualityScores {
+  rows: number;
+  duplicateKeys: number;
+  lagDays: number | null; // upload date minus period end
+  columns: ColumnQuality[];
+}
+
+const round = (n: number | null) => (n === null ? null : Math.round(n * 10000) / 10000);
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+/**
+ * Pass `keysInMemory: false` for files too large to hold every key: tallyRecords then only returns
+ * each batch's keys, and the caller adds the new distinct ones to `distinctKeys`.
+ */
+export function createQualityTally(schema: ReportSchema, headers: string[], { keysInMemory = true } = {}): QualityTally {
+  const present = new Set(headers.map((h) => h.replace(/^\uFEFF/, "").trim()));
+  return {
+    rows: 0,
+    columns: schema.columns
+      .filter((c) => c.required || present.has(c.header))
+      .map((column) => ({ column, present: present.has(column.header), filled: 0, invalid: 0 })),
+    keys: keysInMemory ? new Set() : null,
+    keyed: 0,
+    distinctKeys: 0,
+  };
+}
+
+function isValidValue(column: ReportColumn, value: string) {
+  if (column.type === "number") return toNum(value) !== null;
+  if (column.type === "date") return isValidDate(value);
+  if (column.currency) return isIsoCurrencyCode(value);
+  if (column.enum) return column.enum.some((e) => e.toLowerCase() === value.toLowerCase());
+  return true;
+}
+
+/** Adds a batch of (mapped) source records to the tally; returns the batch's non-empty keys. */
+export function tallyRecords(schema: ReportSchema, tally: QualityTally, records: SourceRecord[]): string[] {
+  const keyHeaders = (schema.keyFrom ?? [schema.conflictKey]).map(
+    (k) => schema.columns.find((c) => c.column === k)?.header ?? ""
+  );
+  const keys: string[] = [];
+  for (const { record } of records) {
+    const r = cleanHeaderKeys(record);
+    tally.rows++;
+    for (const c of tally.columns) {
+      const value = toStr(r[c.column.header]).trim();
+      if (!value) continue;
+      c.filled++;
+      if (!isValidValue(c.column, value)) c.invalid++;
+    }
+    const key = compositeKey(keyHeaders.map((h) => (h ? toStr(r[h]) : "")));
+    if (key) {
+      tally.keyed++;
+      keys.push(key);
+    }
+  }
+  if (tally.keys) {
+    for (const key of keys) tally.keys.add(key);
+    tally.distinctKeys = tally.keys.size;
+  }
+  return keys;
+}
+
+/** Days from the period end to the upload, and the freshness score for that lag. */
+export function freshness(period: string | null, uploadedAt: Date): { lagDays: number | null; score: number | null } {
+  const m = (period ?? "").match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m || !isValidDate(m[0])) return { lagDays: null, score: null };
+  const end = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  const lagDays = Math.floor((uploadedAt.getTime() - end) / 86_400_000);
+  const { FRESHNESS_GRACE_DAYS: grace, FRESHNESS_ZERO_DAYS: zero } = CONFIG.QUALITY;
+  const score = lagDays <= grace ? 1 : lagDays >= zero ? 0 : 1 - (lagDays - grace) / (zero - grace);
+  return { lagDays, score };
+}
+
+/** Weighted mean of the dimensions that could be scored (weights re-normalized over those). */
+export function overallScore(scores: Partial<Record<QualityDimension, number | null>>): number | null {
+  let sum = 0;
+  let weight = 0;
+  for (const d of QUALITY_DIMENSIONS) {
+    const v = scores[d];
+    if (v === null || v === undefined) continue;
+    sum += v * CONFIG.QUALITY.WEIGHTS[d];
+    weight += CONFIG.QUALITY.WEIGHTS[d];
+  }
+  return weight ? sum / weight : null;
+}
+
+export function scoreTally(tally: QualityTally, opts: { period: string | null; uploadedAt: Date }): QualityScorecard {
+  const columns: ColumnQuality[] = tally.columns.map((c) => ({
+    column: c.column.column,
+    header: c.column.header,
+    expectedType: c.column.enum ? "enum" : c.column.type,
+    present: c.present,
+    completeness: round(ratio(c.filled, tally.rows)),
+    validity: round(ratio(c.filled - c.invalid, c.filled)),
+    filled: c.filled,
+    invalid: c.invalid,
+  }));
+  const filled = tally.columns.reduce((n, c) => n + c.filled, 0);
+  const invalid = tally.columns.reduce((n, c) => n + c.invalid, 0);
+  const fresh = freshness(opts.period, opts.uploadedAt);
+
+  const scores = {
+    completeness: ratio(filled, tally.rows * tally.columns.length),
+    validity: ratio(filled - invalid, filled),
+    uniqueness: ratio(tally.distinctKeys, tally.keyed),
+    freshness: fresh.score,
+  };
+  return {
+    completeness: round(scores.completeness),
+    validity: round(scores.validity),
+    uniqueness: round(scores.uniqueness),
+    freshness: round(scores.freshness),
+    overall: round(overallScore(scores)),
+    rows: tally.rows,
+    duplicateKeys: tally.keyed - tally.distinctKeys,
+    lagDays: fresh.lagDays,
+    columns,
+  };
+}
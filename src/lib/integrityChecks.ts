@@ -0,0 +1,129 @@
+// src/lib/integrityChecks.ts
+// Cross-report referential integrity checks: "every value of <kind>.<column_name> must exist in
+// <target>.<one of target_columns>". Checks are rows in report_integrity_checks; only the targets
+// declared here can be referenced, so the SQL built from a check never contains user input.
+import { findReportSchema, listReportSchemas } from "./reportSchemas";
+
+export const ISSUE_SEVERITIES = ["Low", "Medium", "High", "Critical"] as const;
+export type IssueSeverity = (typeof ISSUE_SEVERITIES)[number];
+
+export interface IntegrityCheck {
+  id: string;
+  name: string;
+  description: string | null;
+  kind: string;             // report kind whose rows are checked
+  column_name: string;      // column holding the reference
+  target: string;           // key of INTEGRITY_TARGETS
+  target_columns: string[]; // a reference matches if it equals any of these (case-insensitive)
+  same_entity: boolean;     // only match target rows of the same entity (report targets only)
+  severity: IssueSeverity;
+  active: boolean;
+}
+
+export type IntegrityCheckInput = Omit<IntegrityCheck, "id" | "description" | "active"> & {
+  description?: string | null;
+  active?: boolean;
+};
+
+interface IntegrityTarget {
+  table: string;
+  columns: string[];
+  hasEntity: boolean;
+}
+
+/** Every report kind, plus the application's users (matched by uid, email or display name). */
+export const INTEGRITY_TARGETS: Record<string, IntegrityTarget> = {
+  ...Object.fromEntries(
+    listReportSchemas().map((s) => [
+      s.kind,
+      // encrypted PII columns cannot be compared in SQL
+      {
+        table: s.table,
+        columns: s.columns.filter((c) => !c.pii).map((c) => c.column),
+        hasEntity: s.columns.some((c) => c.column === "entity"),
+      },
+    ])
+  ),
+  users: { table: "public.users", columns: ["firebase_uid", "email", "name"], hasEntity: false },
+};
+
+/** Checks installed on first start; edit or deactivate them through the API. */
+export const DEFAULT_INTEGRITY_CHECKS: IntegrityCheckInput[] = [
+  {
+    name: "transaction_account_has_customer",
+    description: "Transaction account_id has no matching customer_id for the same entity",
+    kind: "transactions",
+    column_name: "account_id",
+    target: "customers",
+    target_columns: ["customer_id"],
+    same_entity: true,
+    severity: "High",
+  },
+  {
+    name: "risk_owner_is_user",
+    description: "Risk owner is not a known user",
+    kind: "risk",
+    column_name: "owner",
+    target: "users",
+    target_columns: ["email", "name", "firebase_uid"],
+    same_entity: false,
+    severity: "Medium",
+  },
+  {
+    name: "compliance_checker_is_user",
+    description: "Compliance check was signed off by someone who is not a known user",
+    kind: "compliance",
+    column_name: "checked_by",
+    target: "users",
+    target_columns: ["email", "name", "firebase_uid"],
+    same_entity: false,
+    severity: "Medium",
+  },
+];
+
+/** Returns a list of problems; empty when the check can be saved. */
+export function validateIntegrityCheckInput(input: Partial<IntegrityCheckInput>): string[] {
+  const problems: string[] = [];
+  if (!input.name?.trim()) problems.push("name is required");
+  const schema = input.kind ? findReportSchema(input.kind) : null;
+  if (!schema) problems.push(`kind must be a report kind, got "${input.kind ?? ""}"`);
+  else {
+    const column = schema.columns.find((c) => c.column === input.column_name);
+    if (!column) problems.push(`column_name "${input.column_name ?? ""}" is not a ${schema.kind} column`);
+    else if (column.pii) problems.push(`column_name "${column.column}" holds encrypted PII and cannot be checked`);
+  }
+  const target = input.target ? INTEGRITY_TARGETS[input.target] : undefined;
+  if (!target) problems.push(`target must be one of ${Object.keys(INTEGRITY_TARGETS).join(", ")}`);
+  else if (!input.target_columns?.length) problems.push("target_columns must name at least one column");
+  else {
+    const unknown = input.target_columns.filter((c) => !target.columns.includes(c));
+    if (unknown.length) problems.push(`unknown ${input.target} columns: ${unknown.join(", ")}`);
+  }
+  if (input.same_entity && target && !target.hasEntity) problems.push(`same_entity is not available for ${input.target}`);
+  if (!ISSUE_SEVERITIES.includes(input.severity as IssueSeverity)) {
+    problems.push(`severity must be one of ${ISSUE_SEVERITIES.join(", ")}`);
+  }
+  return problems;
+}
+
+/**
+ * SQL listing the rows of one entity/period whose reference has no match.
+ * Params: $1 entity, $2 period, $3 row limit. Identifiers come from the declared schemas only.
+ */
+export function buildOrphanQuery(check: IntegrityCheck): string {
+  const schema = findReportSchema(check.kind);
+  const target = INTEGRITY_TARGETS[check.target];
+  if (!schema || !target || validateIntegrityCheckInput(check).length) throw new Error(`INVALID_INTEGRITY_CHECK ${check.name}`);
+
+  const ref = `s.${check.column_name}::text`;
+  const matches = check.target_columns.map((c) => `lower(t.${c}::text) = lower(${ref})`).join(" OR ");
+  const scope = check.same_entity ? ` AND lower(t.entity) = lower(s.entity)` : "";
+  return `
+    SELECT s.${schema.conflictKey}::text AS key_value, ${ref} AS value
+      FROM ${schema.table} s
+     WHERE lower(s.entity) = lower($1) AND s.period = $2
+       AND NULLIF(trim(${ref}), '') IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM ${target.table} t WHERE (${matches})${scope})
+     ORDER BY 1
+     LIMIT $3`;
+}
@@ -0,0 +1,198 @@
+// src/lib/pdfStructure.ts
+// Page- and section-aware text for policy PDFs. pdf-parse only hands back one flat string, so pages
+// are captured through its pagerender hook, and headings ("4.2.1 Customer Due Diligence",
+// "Section 4 Reporting", "Annex B Forms") are detected line by line to build the section tree.
+// Rules are anchored to this text by character offsets.
+import pdfParse from "pdf-parse";
+
+export interface PdfPage {
+  page: number;   // 1-based
+  start: number;  // offsets into PdfDocument.text
+  end: number;
+}
+
+export interface PdfSection {
+  label: string;   // the heading line, e.g. "4.2.1 Customer Due Diligence"
+  path: string[];  // labels from the top-level section down to this one
+  level: number;
+  start: number;   // offset of the heading line
+  page: number;
+}
+
+export interface PdfDocument {
+  text: string;    // pages joined by a blank line
+  title: string | null; // the PDF's Title metadata, else its first line when that is short enough to be one
+  numpages: number;
+  pages: PdfPage[];
+  sections: PdfSection[];
+}
+
+export interface TextAnchor {
+  char_start: number | null;
+  char_end: number | null;
+  page_start: number | null;
+  page_end: number | null;
+  section_path: string[];
+}
+
+// Same line grouping as pdf-parse's default renderer: a new line whenever the baseline moves
+async function renderPage(pageData: any): Promise<string> {
+  const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY: number | undefined;
+  let text = "";
+  for (const item of content.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+// ------------------ headings ------------------
+const KEYWORD_HEADING = /^(section|article|chapter|part)\s+(\d{1,2}(?:\.\d{1,3}){0,4}|[IVXLC]{1,6})\b[.:)\-–—]?\s*(.*)$/i;
+const ANNEX_HEADING = /^(annex|appendix|schedule|exhibit)\s+([A-Z0-9]{1,4})\b[.:)\-–—]?\s*(.*)$/i;
+// "4. Reporting", "4.2 KYC", "4.2.1 Customer Due Diligence"; a bare "4 Reporting" is too easily a date or figure
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,3}){1,4}\.?|\d{1,2}\.)\s+(\S.*)$/;
+
+function looksLikeTitle(title: string) {
+  const t = title.trim();
+  if (!t) return true; // "Section 4" on a line of its own
+  return t.length <= 90 && t.split(/\s+/).length <= 12 && /^[A-Z(]/.test(t) && !/[.;,:]$/.test(t);
+}
+
+/** Heading level for a line, or null when the line is body text. */
+export function headingLevel(line: string): number | null {
+  const l = line.trim();
+  let m = l.match(KEYWORD_HEADING);
+  if (m && looksLikeTitle(m[3])) return /^\d/.test(m[2]) ? m[2].split(".").length : 1;
+  m = l.match(ANNEX_HEADING);
+  if (m && looksLikeTitle(m[3])) return 1;
+  m = l.match(NUMBERED_HEADING);
+  if (m && m[2] && looksLikeTitle(m[2])) return m[1].replace(/\.$/, "").split(".").length;
+  return null;
+}
+
+function detectSections(text: string, pageAt: (offset: number) => number): PdfSection[] {
+  const sections: PdfSection[] = [];
+  const stack: { label: string; level: number }[] = [];
+  let offset = 0;
+  for (const raw of text.split("\n")) {
+    const level = headingLevel(raw);
+    if (level !== null) {
+      const label = raw.trim().replace(/\s+/g, " ");
+      while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ label, level });
+      sections.push({ label, path: stack.map((s) => s.label), level, start: offset + raw.search(/\S/), page: pageAt(offset) });
+    }
+    offset += raw.length + 1;
+  }
+  return sections;
+}
+
+// ------------------ parsing ------------------
+export async function parsePdfStructure(buffer: Buffer): Promise<PdfDocument> {
+  const pageTexts = new Map<number, string>();
+  const parsed = await pdfParse(buffer, {
+    pagerender: async (pageData: any) => {
+      const text = await renderPage(pageData);
+      pageTexts.set(pageData.pageIndex + 1, text);
+      return text;
+    },
+  });
+
+  const pages: PdfPage[] = [];
+  let text = "";
+  for (let page = 1; page <= parsed.numpages; page++) {
+    const pageText = (pageTexts.get(page) ?? "").trim();
+    if (text) text += "\n\n";
+    pages.push({ page, start: text.length, end: text.length + pageText.length });
+    text += pageText;
+  }
+
+  const pageAt = (offset: number) => pageAtOffset(pages, offset);
+  return { text, title: documentTitle(parsed.info, text), numpages: parsed.numpages, pages, sections: detectSections(text, pageAt) };
+}
+
+function documentTitle(info: any, text: string): string | null {
+  const meta = typeof info?.Title === "string" ? info.Title.trim() : "";
+  if (meta) return meta;
+  const firstLine = text.split("\n").find((l) => l.trim())?.trim() ?? "";
+  return firstLine && firstLine.length <= 120 && headingLevel(firstLine) === null ? firstLine : null;
+}
+
+export function pageAtOffset(pages: PdfPage[], offset: number): number {
+  let page = pages[0]?.page ?? 1;
+  for (const p of pages) {
+    if (p.start > offset) break;
+    page = p.page;
+  }
+  return page;
+}
+
+export function sectionAtOffset(sections: PdfSection[], offset: number): PdfSection | null {
+  let found: PdfSection | null = null;
+  for (const s of sections) {
+    if (s.start > offset) break;
+    found = s;
+  }
+  return found;
+}
+
+// ------------------ anchoring ------------------
+const normalizedCache = new WeakMap<object, { norm: string; map: number[] }>();
+
+// Lower-cased text with whitespace runs collapsed, plus the original offset of each kept character
+function normalizeWithMap(text: string) {
+  let norm = "";
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      if (norm.endsWith(" ") || !norm) continue;
+      norm += " ";
+    } else {
+      norm += ch.toLowerCase();
+    }
+    map.push(i);
+  }
+  return { norm, map };
+}
+
+const normalizeQuote = (q: string) => q.toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * Offsets of `quote` in the document, ignoring case and whitespace differences (line breaks,
+ * double spaces). When the whole quote is not found verbatim, its opening and closing words are
+ * looked for instead. Returns null when neither is found.
+ */
+export function locateQuote(doc: Pick<PdfDocument, "text">, quote: string): { start: number; end: number } | null {
+  const q = normalizeQuote(quote);
+  if (q.length < 12) return null;
+  let normalized = normalizedCache.get(doc);
+  if (!normalized) normalizedCache.set(doc, (normalized = normalizeWithMap(doc.text)));
+  const { norm, map } = normalized;
+  const span = (from: number, to: number) => ({ start: map[from], end: map[to - 1] + 1 });
+
+  const exact = norm.indexOf(q);
+  if (exact !== -1) return span(exact, exact + q.length);
+
+  const head = q.slice(0, 60);
+  const tail = q.slice(-60);
+  const start = norm.indexOf(head);
+  if (start === -1) return null;
+  const tailAt = norm.indexOf(tail, start);
+  if (tailAt !== -1 && tailAt + tail.length - start <= q.length * 1.5) return span(start, tailAt + tail.length);
+  return span(start, Math.min(start + q.length, norm.length));
+}
+
+/** Page range and section path for a quote; all null when it cannot be found in the document. */
+export function anchorQuote(doc: PdfDocument, quote: string | null | undefined): TextAnchor {
+  const found = quote ? locateQuote(doc, quote) : null;
+  if (!found) return { char_start: null, char_end: null, page_start: null, page_end: null, section_path: [] };
+  return {
+    char_start: found.start,
+    char_end: found.end,
+    page_start: pageAtOffset(doc.pages, found.start),
+    page_end: pageAtOffset(doc.pages, found.end - 1),
+    section_path: sectionAtOffset(doc.sections, found.start)?.path ?? [],
+  };
+}
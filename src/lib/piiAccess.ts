@@ -0,0 +1,41 @@
+// src/lib/piiAccess.ts
+// Decides per request whether PII is returned masked (the default) or in plain text.
+import type { RequestHandler } from "express";
+import { CONFIG } from "./config";
+import { sessionUserWithRole, type AuthedReq } from "./auth";
+
+export interface PiiAccess {
+  unmask: boolean;
+  userId: string | null;
+  role: string | null;
+  reason: string | null; // the caller's stated purpose, kept in the unmask audit
+}
+
+export type PiiReq = AuthedReq & { pii?: PiiAccess };
+
+export const MASKED: PiiAccess = { unmask: false, userId: null, role: null, reason: null };
+
+/**
+ * Sets req.pii. `?unmask=true` (optionally with `&reason=`) requires a session whose role is
+ * listed in PII_UNMASK_ROLES: 401 without a session, 403 for any other role.
+ */
+export const resolvePiiAccess: RequestHandler = async (req: PiiReq, res, next) => {
+  const unmask = ["1", "true", "yes"].includes(String(req.query.unmask ?? "").toLowerCase());
+  if (!unmask) {
+    req.pii = { ...MASKED, userId: req.user?.uid ?? null };
+    return next();
+  }
+  try {
+    const user = await sessionUserWithRole(req);
+    if (!user) return res.status(401).json({ ok: false, error: "UNAUTHORIZED" });
+    if (!user.role || !CONFIG.PII.UNMASK_ROLES.includes(user.role)) {
+      return res.status(403).json({ ok: false, error: "PII_UNMASK_FORBIDDEN" });
+    }
+    const reason = typeof req.query.reason === "string" && req.query.reason.trim() ? req.query.reason.trim().slice(0, 500) : null;
+    req.user = { uid: user.uid, email: user.email, role: user.role };
+    req.pii = { unmask: true, userId: user.uid, role: user.role, reason };
+    next();
+  } catch (err: any) {
+    res.status(500).json({ ok: false, error: err?.message || "ROLE_LOOKUP_ERROR" });
+  }
+};
@@ -0,0 +1,169 @@
+// src/lib/piiProtection.ts
+// Field-level encryption and masking for the PII columns classified in reportSchemas.
+// Values are sealed with AES-256-GCM under a nonce derived from the plaintext (HMAC, SIV-style):
+// the same value always encrypts to the same ciphertext, so upserts, history versions and
+// period diffs can still compare stored values without decrypting them.
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { CONFIG, logger } from "./config";
+import type { PiiClass, ReportSchema } from "./reportSchemas";
+
+const PREFIX = "enc:v1:";
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Source headers that carry a class's data even when a mapping profile renamed them
+const HEADER_PATTERNS: Record<PiiClass, RegExp> = {
+  name: /name/i,
+  email: /e-?mail/i,
+  phone: /phone|mobile|\btel\b/i,
+  date: /\bdob\b|birth/i,
+};
+
+let keys: { enc: Buffer; mac: Buffer } | null = null;
+
+function parseKey(text: string): Buffer {
+  const t = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(t) ? Buffer.from(t, "hex") : Buffer.from(t, "base64");
+  if (key.length !== 32) throw new Error("PII_KEY_INVALID: the PII key must be 32 bytes, base64 or hex encoded");
+  return key;
+}
+
+function readOrCreateKeyFile(file: string): Buffer {
+  if (fs.existsSync(file)) return parseKey(fs.readFileSync(file, "utf8"));
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, crypto.randomBytes(32).toString("base64") + "\n", { mode: 0o600, flag: "wx" });
+  logger.warn(`Generated a new PII encryption key at ${file}; back it up, data encrypted with it is unreadable without it`);
+  return parseKey(fs.readFileSync(file, "utf8"));
+}
+
+function piiKeys() {
+  if (keys) return keys;
+  const master = CONFIG.PII.ENCRYPTION_KEY ? parseKey(CONFIG.PII.ENCRYPTION_KEY) : readOrCreateKeyFile(CONFIG.PII.KEY_FILE);
+  const derive = (info: string) => Buffer.from(crypto.hkdfSync("sha256", master, Buffer.alloc(0), info, 32));
+  keys = { enc: derive("report-pii/enc"), mac: derive("report-pii/nonce") };
+  return keys;
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+/** Empty values and values that are already encrypted are returned unchanged. */
+export function encryptPii(value: unknown): unknown {
+  if (value === null || value === undefined || isEncrypted(value)) return value;
+  const plain = String(value);
+  if (!plain.trim()) return value;
+  const { enc, mac } = piiKeys();
+  const nonce = crypto.createHmac("sha256", mac).update(plain).digest().subarray(0, NONCE_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", enc, nonce);
+  const body = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return PREFIX + Buffer.concat([nonce, cipher.getAuthTag(), body]).toString("base64");
+}
+
+/** Plain values (rows stored before encryption was enabled) are returned unchanged. */
+export function decryptPii(value: unknown): unknown {
+  if (!isEncrypted(value)) return value;
+  const packed = Buffer.from(value.slice(PREFIX.length), "base64");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", piiKeys().enc, packed.subarray(0, NONCE_BYTES));
+  decipher.setAuthTag(packed.subarray(NONCE_BYTES, NONCE_BYTES + TAG_BYTES));
+  try {
+    return Buffer.concat([decipher.update(packed.subarray(NONCE_BYTES + TAG_BYTES)), decipher.final()]).toString("utf8");
+  } catch {
+    throw new Error("PII_DECRYPT_FAILED: value was encrypted with a different key");
+  }
+}
+
+// ------------------ masking ------------------
+export function maskPii(cls: PiiClass, value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+  const s = String(value).trim();
+  if (!s) return value;
+  switch (cls) {
+    case "email": {
+      const at = s.indexOf("@");
+      return at > 0 ? `${s[0]}***${s.slice(at)}` : "***";
+    }
+    case "phone": {
+      const digits = s.replace(/\D/g, "");
+      return digits.length > 4 ? `${"*".repeat(digits.length - 4)}${digits.slice(-4)}` : "****";
+    }
+    case "date":
+      return "****-**-**";
+    case "name":
+      return s.split(/\s+/).map((t) => `${t[0]}***`).join(" ");
+  }
+}
+
+/** Plaintext when `unmask`, otherwise the masked form; a value that cannot be decrypted is fully masked. */
+export function revealPii(cls: PiiClass, value: unknown, unmask: boolean): unknown {
+  if (unmask) return decryptPii(value);
+  try {
+    return maskPii(cls, decryptPii(value));
+  } catch {
+    return "****";
+  }
+}
+
+// ------------------ rows ------------------
+export function piiColumns(schema: ReportSchema) {
+  return schema.columns.filter((c): c is typeof c & { pii: PiiClass } => !!c.pii);
+}
+
+export function encryptPiiFields<T extends Record<string, any>>(schema: ReportSchema, row: T): T {
+  const cols = piiColumns(schema);
+  if (!cols.length) return row;
+  const out: Record<string, any> = { ...row };
+  for (const c of cols) if (c.column in out) out[c.column] = encryptPii(out[c.column]);
+  return out as T;
+}
+
+export function decryptPiiFields<T extends Record<string, any>>(schema: ReportSchema, row: T): T {
+  const cols = piiColumns(schema);
+  if (!cols.length) return row;
+  const out: Record<string, any> = { ...row };
+  for (const c of cols) if (c.column in out) out[c.column] = decryptPii(out[c.column]);
+  return out as T;
+}
+
+/** Applies revealPii to the classified columns of a stored row (or a history snapshot of one). */
+export function revealPiiFields<T extends Record<string, any>>(schema: ReportSchema, row: T, unmask: boolean): T {
+  const cols = piiColumns(schema);
+  if (!cols.length || !row) return row;
+  const out: Record<string, any> = { ...row };
+  for (const c of cols) if (c.column in out) out[c.column] = revealPii(c.pii, out[c.column], unmask);
+  return out as T;
+}
+
+/**
+ * PII class of a header in a record as the entity sent it: a classified column's header or
+ * name, or (for renamed headers) one that looks like a classified class, e.g. "Mobile No".
+ */
+export function piiClassOfHeader(schema: ReportSchema, header: string): PiiClass | null {
+  const cols = piiColumns(schema);
+  const h = header.trim().toLowerCase();
+  const exact = cols.find((c) => c.header.toLowerCase() === h || c.column === h);
+  if (exact) return exact.pii;
+  return cols.find((c) => HEADER_PATTERNS[c.pii].test(header))?.pii ?? null;
+}
+
+/** Encrypts the PII in a rejected source record before it is kept for the rejection report. */
+export function encryptRawPii(schema: ReportSchema, raw: Record<string, unknown>): Record<string, unknown> {
+  if (!piiColumns(schema).length) return raw;
+  const out: Record<string, unknown> = {};
+  for (const [header, value] of Object.entries(raw)) {
+    out[header] = piiClassOfHeader(schema, header) ? encryptPii(value) : value;
+  }
+  return out;
+}
+
+export function revealRawPii(schema: ReportSchema, raw: Record<string, unknown>, unmask: boolean): Record<string, unknown> {
+  if (!piiColumns(schema).length) return raw;
+  const out: Record<string, unknown> = {};
+  for (const [header, value] of Object.entries(raw)) {
+    const cls = piiClassOfHeader(schema, header);
+    out[header] = cls ? revealPii(cls, value, unmask) : value;
+  }
+  return out;
+}
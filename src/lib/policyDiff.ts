@@ -0,0 +1,208 @@
+// src/lib/policyDiff.ts
+// Rule-level and word-level comparison of two versions of a policy document. Rules of the newer
+// version are paired with the older version's rules by rule code (when the text still resembles
+// the old rule) and otherwise by text similarity; whatever stays unpaired was added or removed.
+
+export interface VersionedRule {
+  id: string;
+  rule_code: string | null;
+  rule_text: string;
+}
+
+export interface RuleMatchThresholds {
+  textSimilarity: number; // word similarity for two rules to be the same rule without a shared code
+  codeSimilarity: number; // lower bar when the rule codes agree (codes can be reused positionally)
+}
+
+export type RuleChange = "unchanged" | "modified";
+
+export interface RuleMatch<T extends VersionedRule> {
+  previous: T;
+  current: T;
+  change: RuleChange;
+  similarity: number;
+  matchedBy: "code" | "text";
+}
+
+export interface RuleMatching<T extends VersionedRule> {
+  matched: RuleMatch<T>[];
+  added: T[];   // current rules without a predecessor
+  removed: T[]; // previous rules without a successor
+}
+
+export interface WordChange {
+  op: "equal" | "insert" | "delete";
+  text: string;
+}
+
+const MAX_DIFF_CELLS = 4_000_000; // words(a) × words(b) beyond which texts are diffed as one replacement
+
+function words(text: string) {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+// Word comparison ignores case and trailing punctuation, so "days." and "Days" are the same word
+function wordKey(word: string) {
+  return word.toLowerCase().replace(/[.,;:!?)"'\]]+$/, "").replace(/^[("'[]+/, "");
+}
+
+function normalizeCode(code: string | null) {
+  return code ? code.trim().toLowerCase().replace(/\s+/g, "") : "";
+}
+
+function normalizeText(text: string) {
+  return words(text).map(wordKey).join(" ");
+}
+
+// Longest-common-subsequence table over word keys, filled from the end so the walk goes forwards
+function lcsTable(a: string[], b: string[]) {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+  return { table, width };
+}
+
+/**
+ * Word-level diff from `before` to `after`. Consecutive words with the same op are joined into one
+ * change, and the texts keep their original casing and punctuation.
+ */
+export function diffWords(before: string, after: string): WordChange[] {
+  const a = words(before);
+  const b = words(after);
+  const changes: WordChange[] = [];
+  const push = (op: WordChange["op"], word: string) => {
+    const last = changes[changes.length - 1];
+    if (last && last.op === op) last.text += ` ${word}`;
+    else changes.push({ op, text: word });
+  };
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    if (a.length) changes.push({ op: "delete", text: a.join(" ") });
+    if (b.length) changes.push({ op: "insert", text: b.join(" ") });
+    return changes;
+  }
+
+  const ka = a.map(wordKey);
+  const kb = b.map(wordKey);
+  const { table, width } = lcsTable(ka, kb);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (ka[i] === kb[j]) {
+      push("equal", b[j]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  while (i < a.length) push("delete", a[i++]);
+  while (j < b.length) push("insert", b[j++]);
+  return changes;
+}
+
+/** Share of words two texts have in common, in order: 2·LCS / (words(a) + words(b)), 0..1. */
+export function textSimilarity(a: string, b: string): number {
+  const ka = words(a).map(wordKey);
+  const kb = words(b).map(wordKey);
+  if (!ka.length && !kb.length) return 1;
+  if (!ka.length || !kb.length) return 0;
+  if ((ka.length + 1) * (kb.length + 1) > MAX_DIFF_CELLS) return ka.join(" ") === kb.join(" ") ? 1 : 0;
+  const { table } = lcsTable(ka, kb);
+  return (2 * table[0]) / (ka.length + kb.length);
+}
+
+/**
+ * Pairs the rules of two versions. Rules sharing a code are paired first, then identical texts,
+ * then the most similar remaining pairs above the threshold (greedy, best pair first).
+ */
+export function matchRules<T extends VersionedRule>(
+  previous: T[],
+  current: T[],
+  thresholds: RuleMatchThresholds
+): RuleMatching<T> {
+  const matched: RuleMatch<T>[] = [];
+  const freePrevious = new Set(previous.map((_, i) => i));
+  const freeCurrent = new Set(current.map((_, i) => i));
+  const prevText = previous.map((r) => normalizeText(r.rule_text));
+  const currText = current.map((r) => normalizeText(r.rule_text));
+
+  const pair = (pi: number, ci: number, similarity: number, matchedBy: RuleMatch<T>["matchedBy"]) => {
+    freePrevious.delete(pi);
+    freeCurrent.delete(ci);
+    matched.push({
+      previous: previous[pi],
+      current: current[ci],
+      change: prevText[pi] === currText[ci] ? "unchanged" : "modified",
+      similarity: Number(similarity.toFixed(3)),
+      matchedBy,
+    });
+  };
+
+  // 1. same rule code
+  const byCode = new Map<string, number[]>();
+  previous.forEach((r, i) => {
+    const code = normalizeCode(r.rule_code);
+    if (code) byCode.set(code, [...(byCode.get(code) ?? []), i]);
+  });
+  current.forEach((r, ci) => {
+    const candidates = (byCode.get(normalizeCode(r.rule_code)) ?? []).filter((pi) => freePrevious.has(pi));
+    let best: { pi: number; similarity: number } | null = null;
+    for (const pi of candidates) {
+      const similarity = textSimilarity(previous[pi].rule_text, r.rule_text);
+      if (similarity >= thresholds.codeSimilarity && (!best || similarity > best.similarity)) best = { pi, similarity };
+    }
+    if (best) pair(best.pi, ci, best.similarity, "code");
+  });
+
+  // 2. identical text (codes renumbered)
+  const byText = new Map<string, number[]>();
+  for (const pi of freePrevious) byText.set(prevText[pi], [...(byText.get(prevText[pi]) ?? []), pi]);
+  for (const ci of [...freeCurrent]) {
+    const pi = byText.get(currText[ci])?.find((i) => freePrevious.has(i));
+    if (pi !== undefined) pair(pi, ci, 1, "text");
+  }
+
+  // 3. most similar remaining pairs
+  const candidates: { pi: number; ci: number; similarity: number }[] = [];
+  for (const ci of freeCurrent) {
+    for (const pi of freePrevious) {
+      const similarity = textSimilarity(previous[pi].rule_text, current[ci].rule_text);
+      if (similarity >= thresholds.textSimilarity) candidates.push({ pi, ci, similarity });
+    }
+  }
+  candidates.sort((x, y) => y.similarity - x.similarity || x.ci - y.ci);
+  for (const c of candidates) {
+    if (freePrevious.has(c.pi) && freeCurrent.has(c.ci)) pair(c.pi, c.ci, c.similarity, "text");
+  }
+
+  return {
+    matched: matched.sort((x, y) => current.indexOf(x.current) - current.indexOf(y.current)),
+    added: current.filter((_, i) => freeCurrent.has(i)),
+    removed: previous.filter((_, i) => freePrevious.has(i)),
+  };
+}
+
+/**
+ * Series title for a policy document: version numbers, dates and file-name separators removed and
+ * lower-cased, so "AML_Policy_v3" and "AML Policy (2025-06-30)" fall into the same series.
+ */
+export function normalizePolicyTitle(title: string): string {
+  return title
+    .replace(/\.pdf$/i, "")
+    .replace(/[_]+/g, " ")
+    .replace(/\b(v|ver|version|rev|revision)\.?\s*\d+(\.\d+)*\b/gi, " ")
+    .replace(/\b\d{4}-\d{2}-\d{2}\b|\b(19|20)\d{2}\b/g, " ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .toLowerCase();
+}
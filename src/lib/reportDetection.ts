@@ -0,0 +1,167 @@
+// src/lib/reportDetection.ts
+// Works out which report kind, entity and period an uploaded table belongs to.
+// The header row and the Entity/Period column values decide; the filename is only a hint.
+import {
+  findReportSchema,
+  findSchemaByFileToken,
+  listReportSchemas,
+  matchSchemaByHeaders,
+  matchSchemaBySheetName,
+  type ReportKind,
+  type ReportSchema,
+} from "./reportSchemas";
+import type { SourceRecord } from "./reportValidation";
+
+export type DetectionSource = "override" | "headers" | "sheet_name" | "filename" | "column" | "reference";
+
+export interface DetectionOverrides {
+  kind?: string | null;
+  entity?: string | null;
+  period?: string | null;
+}
+
+export interface ReportDetection {
+  kind: ReportKind;
+  entityCode: string;
+  period: string;
+  confidence: number;                        // 0..1, how sure we are about the kind
+  sources: { kind: DetectionSource; entity: DetectionSource; period: DetectionSource };
+  mapping: { header: string; column: string }[];
+  filenameHint: { kind: string | null; entityCode: string | null; period: string | null };
+}
+
+export type DetectionResult =
+  | { ok: true; detection: ReportDetection }
+  | { ok: false; error: "UNKNOWN_REPORT_KIND" | "ENTITY_OR_PERIOD_UNKNOWN" | "INVALID_PERIOD"; detail?: Record<string, any> };
+
+const PERIOD_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Reference data (FX rates) is loaded centrally and has no Entity/Period columns: it is filed
+// under this entity, for the latest date it contains
+export const REFERENCE_ENTITY = "GROUP";
+
+// Header-match weight vs filename/sheet-name agreement in the confidence score
+const HEADER_WEIGHT = 0.8;
+const HINT_WEIGHT = 0.2;
+const HINT_ONLY_CONFIDENCE = 0.5;
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Reads "<entity>__<type>__YYYY-MM-DD.<ext>" when present; any part may be missing. */
+export function parseFilenameHint(filename: string) {
+  const base = filename.trim().replace(/\.[a-z0-9]+$/i, "");
+  const tokens = listReportSchemas().map((s) => escapeRegExp(s.fileToken)).join("|");
+  const m = base.match(new RegExp(`^(.*?)__(${tokens}|[a-z_]+)__(\\d{4}-\\d{2}-\\d{2})$`, "i"));
+  if (!m) return { kind: null as string | null, entityCode: null as string | null, period: null as string | null };
+  return {
+    kind: findSchemaByFileToken(m[2])?.kind ?? null,
+    entityCode: m[1] || null,
+    period: m[3],
+  };
+}
+
+/** Most frequent non-empty value of a column, so a stray row does not decide the entity. */
+function dominantValue(records: SourceRecord[], header: string) {
+  const counts = new Map<string, number>();
+  for (const { record } of records) {
+    const v = record[header];
+    const s = v === null || v === undefined ? "" : String(v).trim();
+    if (s) counts.set(s, (counts.get(s) ?? 0) + 1);
+  }
+  let best: string | null = null;
+  for (const [value, n] of counts) if (best === null || n > counts.get(best)!) best = value;
+  return best;
+}
+
+function headerMapping(schema: ReportSchema, headers: string[]) {
+  const present = new Set(headers);
+  return schema.columns.filter((c) => present.has(c.header)).map((c) => ({ header: c.header, column: c.column }));
+}
+
+/** Latest YYYY-MM-DD value among the schema's date columns, e.g. the newest rate date of an FX file. */
+function latestDate(schema: ReportSchema, records: SourceRecord[]) {
+  const headers = schema.columns.filter((c) => c.type === "date").map((c) => c.header);
+  let latest: string | null = null;
+  for (const { record } of records) {
+    for (const header of headers) {
+      const v = String(record[header] ?? "").trim().slice(0, 10);
+      if (PERIOD_PATTERN.test(v) && (latest === null || v > latest)) latest = v;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Detects kind, entity and period for one table (a CSV file or a workbook sheet).
+ * Precedence: overrides → header signature → sheet name / filename hint.
+ * When headers and the hint disagree the headers win, at lower confidence.
+ * Reference kinds fall back to REFERENCE_ENTITY and their latest date for entity and period.
+ */
+export function detectReport(
+  records: SourceRecord[],
+  hints: { filename: string; sheetName?: string },
+  overrides: DetectionOverrides = {}
+): DetectionResult {
+  const headers = records.length ? Object.keys(records[0].record) : [];
+  const filenameHint = parseFilenameHint(hints.filename);
+  const sheetSchema = hints.sheetName ? matchSchemaBySheetName(hints.sheetName) : null;
+  const hintSchema = sheetSchema ?? (filenameHint.kind ? findReportSchema(filenameHint.kind) : null);
+  const hintSource: DetectionSource = sheetSchema ? "sheet_name" : "filename";
+
+  let schema: ReportSchema | null = null;
+  let confidence = 0;
+  let kindSource: DetectionSource;
+
+  if (overrides.kind) {
+    schema = findReportSchema(overrides.kind);
+    if (!schema) return { ok: false, error: "UNKNOWN_REPORT_KIND", detail: { kind: overrides.kind } };
+    confidence = 1;
+    kindSource = "override";
+  } else {
+    const byHeaders = matchSchemaByHeaders(headers);
+    if (byHeaders) {
+      schema = byHeaders.schema;
+      const agrees = hintSchema?.kind === schema.kind;
+      confidence = byHeaders.score * HEADER_WEIGHT + (agrees ? HINT_WEIGHT : 0);
+      kindSource = "headers";
+    } else if (hintSchema) {
+      schema = hintSchema;
+      confidence = HINT_ONLY_CONFIDENCE;
+      kindSource = hintSource;
+    } else {
+      return { ok: false, error: "UNKNOWN_REPORT_KIND", detail: { headers } };
+    }
+  }
+
+  const pick = (override: string | null | undefined, header: string, fromName: string | null, fromReference: string | null) => {
+    if (override) return { value: override, source: "override" as DetectionSource };
+    const fromColumn = dominantValue(records, header);
+    if (fromColumn) return { value: fromColumn, source: "column" as DetectionSource };
+    if (fromName || !schema.reference) return { value: fromName, source: "filename" as DetectionSource };
+    return { value: fromReference, source: "reference" as DetectionSource };
+  };
+  const entity = pick(overrides.entity, "Entity", filenameHint.entityCode, REFERENCE_ENTITY);
+  const period = pick(overrides.period, "Period", filenameHint.period, latestDate(schema, records));
+
+  if (!entity.value || !period.value) {
+    return { ok: false, error: "ENTITY_OR_PERIOD_UNKNOWN", detail: { kind: schema.kind } };
+  }
+  if (!PERIOD_PATTERN.test(period.value)) {
+    return { ok: false, error: "INVALID_PERIOD", detail: { kind: schema.kind, period: period.value } };
+  }
+
+  return {
+    ok: true,
+    detection: {
+      kind: schema.kind as ReportKind,
+      entityCode: entity.value,
+      period: period.value,
+      confidence: Math.round(confidence * 100) / 100,
+      sources: { kind: kindSource, entity: entity.source, period: period.source },
+      mapping: headerMapping(schema, headers),
+      filenameHint,
+    },
+  };
+}
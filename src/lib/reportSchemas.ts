@@ -0,0 +1,272 @@
+// src/lib/reportSchemas.ts
+// Declarative registry of CSV report kinds. Each kind is declared once here and the
+// upload route derives filename detection, header checks, normalization and upsert SQL from it.
+
+export type ColumnType = "text" | "number" | "date";
+
+/** Personal data classes; classified columns are encrypted at rest and masked in API responses. */
+export type PiiClass = "name" | "email" | "phone" | "date";
+
+export interface ReportColumn {
+  column: string;      // target column in the report table
+  header: string;      // CSV header as sent by the entities
+  type: ColumnType;
+  required?: boolean;  // header must be present and the value non-empty
+  enum?: readonly string[]; // expected values, matched case-insensitively; others are kept and reported, not rejected
+  pii?: PiiClass;      // stored encrypted (the column must be TEXT), shown masked
+  currency?: boolean;  // ISO 4217 code, stored upper-case
+  positive?: boolean;  // number must be greater than 0
+}
+
+export interface ReportSchema {
+  kind: string;
+  fileToken: string;   // "<entity>__<fileToken>__YYYY-MM-DD.csv"
+  table: string;
+  conflictKey: string; // natural key used for ON CONFLICT
+  keyFrom?: readonly string[]; // conflictKey is not a CSV column but these columns' values joined with ":"
+  reference?: boolean; // loaded centrally (not submitted by each entity); not expected in submission packages
+  columns: ReportColumn[];
+}
+
+// Not yet confirmed against what entities send: a value outside these lists is stored as sent and
+// listed under the upload's unexpectedValues rather than rejecting the row
+const SEVERITIES = ["Low", "Medium", "High", "Critical"] as const;
+const COMPLIANCE_STATUSES = ["Pass", "Fail", "Pending", "Exception", "N/A"] as const;
+const TRANSACTION_STATUSES = ["Completed", "Pending", "Failed", "Reversed", "Cancelled"] as const;
+
+// To add a report type (loan book, vendor list, ...) declare it here; nothing else needs to change.
+export const REPORT_SCHEMAS = {
+  compliance: {
+    kind: "compliance",
+    fileToken: "compliance_report",
+    table: "compliance_reports",
+    conflictKey: "check_id",
+    columns: [
+      { column: "check_id", header: "Check_ID", type: "text", required: true },
+      { column: "policy", header: "Policy", type: "text" },
+      { column: "status", header: "Status", type: "text", required: true, enum: COMPLIANCE_STATUSES },
+      { column: "severity", header: "Severity", type: "text", enum: SEVERITIES },
+      { column: "notes", header: "Notes", type: "text" },
+      { column: "checked_by", header: "Checked_By", type: "text" },
+      { column: "checked_at", header: "Checked_At", type: "date" },
+      { column: "entity", header: "Entity", type: "text" },
+      { column: "period", header: "Period", type: "text" },
+    ],
+  },
+  customers: {
+    kind: "customers",
+    fileToken: "customer_data_report",
+    table: "customer_data_reports",
+    conflictKey: "customer_id",
+    columns: [
+      { column: "customer_id", header: "Customer_ID", type: "text", required: true },
+      { column: "name", header: "Name", type: "text", pii: "name" },
+      { column: "email", header: "Email", type: "text", pii: "email" },
+      { column: "phone", header: "Phone", type: "text", pii: "phone" },
+      { column: "dob", header: "DOB", type: "date", pii: "date" },
+      { column: "account_status", header: "Account_Status", type: "text" },
+      { column: "entity", header: "Entity", type: "text" },
+      { column: "period", header: "Period", type: "text" },
+    ],
+  },
+  transactions: {
+    kind: "transactions",
+    fileToken: "transaction_report",
+    table: "transaction_reports",
+    conflictKey: "txn_id",
+    columns: [
+      { column: "txn_id", header: "Txn_ID", type: "text", required: true },
+      { column: "date", header: "Date", type: "date", required: true },
+      { column: "account_id", header: "Account_ID", type: "text", required: true },
+      { column: "amount", header: "Amount", type: "number", required: true },
+      { column: "currency", header: "Currency", type: "text", currency: true },
+      { column: "txn_type", header: "Txn_Type", type: "text" },
+      { column: "status", header: "Status", type: "text", enum: TRANSACTION_STATUSES },
+      { column: "counterparty", header: "Counterparty", type: "text" },
+      { column: "entity", header: "Entity", type: "text" },
+      { column: "period", header: "Period", type: "text" },
+    ],
+  },
+  risk: {
+    kind: "risk",
+    fileToken: "risk_assessment_report",
+    table: "risk_assessment_reports",
+    conflictKey: "risk_id",
+    columns: [
+      { column: "risk_id", header: "Risk_ID", type: "text", required: true },
+      { column: "risk_category", header: "Risk_Category", type: "text" },
+      { column: "description", header: "Description", type: "text" },
+      { column: "likelihood", header: "Likelihood", type: "number" },
+      { column: "impact", header: "Impact", type: "number" },
+      { column: "score", header: "Score", type: "number" },
+      { column: "owner", header: "Owner", type: "text" },
+      { column: "mitigation", header: "Mitigation", type: "text" },
+      { column: "review_date", header: "Review_Date", type: "date" },
+      { column: "entity", header: "Entity", type: "text" },
+      { column: "period", header: "Period", type: "text" },
+    ],
+  },
+  // Rate = units of the base currency (CONFIG.FX.BASE_CURRENCY) for 1 unit of Currency on Date
+  fx_rates: {
+    kind: "fx_rates",
+    fileToken: "fx_rate_report",
+    table: "fx_rates",
+    conflictKey: "rate_key",
+    keyFrom: ["date", "currency"],
+    reference: true,
+    columns: [
+      { column: "date", header: "Date", type: "date", required: true },
+      { column: "currency", header: "Currency", type: "text", required: true, currency: true },
+      { column: "rate", header: "Rate", type: "number", required: true, positive: true },
+      { column: "source", header: "Source", type: "text" },
+    ],
+  },
+} satisfies Record<string, ReportSchema>;
+
+export type ReportKind = keyof typeof REPORT_SCHEMAS;
+
+// Postgres caps a statement at 65535 bind parameters
+const MAX_BIND_PARAMS = 65535;
+
+export function getReportSchema(kind: ReportKind): ReportSchema {
+  return REPORT_SCHEMAS[kind];
+}
+
+export function listReportSchemas(): ReportSchema[] {
+  return Object.values(REPORT_SCHEMAS);
+}
+
+/** Looks a kind up from untrusted input (route params, ledger rows). */
+export function findReportSchema(kind: string): ReportSchema | null {
+  return listReportSchemas().find((s) => s.kind === kind) ?? null;
+}
+
+export function findSchemaByFileToken(token: string): ReportSchema | null {
+  const t = token.toLowerCase();
+  return listReportSchemas().find((s) => s.fileToken === t) ?? null;
+}
+
+// ------------------ value helpers ------------------
+export function toStr(v: unknown) { return v === null || v === undefined ? "" : String(v); }
+export function toNum(v: unknown) {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+export function cleanHeaderKeys<T extends Record<string, any>>(row: T): T {
+  const out: Record<string, any> = {};
+  Object.keys(row).forEach((k) => {
+    const nk = k.replace(/^\uFEFF/, "").trim();
+    out[nk] = (row as any)[k];
+  });
+  return out as T;
+}
+
+// ------------------ header checks ------------------
+export function missingRequiredHeaders(schema: ReportSchema, headers: string[]): string[] {
+  const present = new Set(headers.map((h) => h.replace(/^\uFEFF/, "").trim()));
+  return schema.columns.filter((c) => c.required && !present.has(c.header)).map((c) => c.header);
+}
+
+/** Headers in the file that no column of the schema maps from (they are ignored on ingest). */
+export function unmappedHeaders(schema: ReportSchema, headers: string[]): string[] {
+  const known = new Set(schema.columns.map((c) => c.header));
+  return headers.map((h) => h.replace(/^\uFEFF/, "").trim()).filter((h) => h && !known.has(h));
+}
+
+// ------------------ detection ------------------
+function simplify(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Sheet named after a kind or its file token, e.g. "Transactions", "transaction_report", "Risk". */
+export function matchSchemaBySheetName(name: string): ReportSchema | null {
+  const n = simplify(name);
+  if (!n) return null;
+  return (
+    listReportSchemas().find((s) => {
+      const kind = simplify(s.kind);
+      return n === kind || n === simplify(s.fileToken) || (n.length >= 4 && kind.startsWith(n)) || n.startsWith(kind);
+    }) ?? null
+  );
+}
+
+export interface HeaderMatch {
+  schema: ReportSchema;
+  score: number;        // 0.5 once required headers are present, plus coverage and precision shares, 0..1
+  matched: string[];
+}
+
+/**
+ * Best schema for a header row. A schema only qualifies when all of its required headers are
+ * present; ties on score go to the schema with more matched columns.
+ */
+export function matchSchemaByHeaders(headers: string[]): HeaderMatch | null {
+  const present = new Set(headers.map((h) => h.replace(/^\uFEFF/, "").trim()));
+  let best: HeaderMatch | null = null;
+  for (const schema of listReportSchemas()) {
+    if (missingRequiredHeaders(schema, [...present]).length) continue;
+    const matched = schema.columns.filter((c) => present.has(c.header)).map((c) => c.header);
+    const coverage = matched.length / schema.columns.length;  // schema columns the file provides
+    const precision = matched.length / Math.max(present.size, 1); // file headers the schema understands
+    const score = 0.5 + 0.25 * coverage + 0.25 * precision;
+    if (!best || score > best.score || (score === best.score && matched.length > best.matched.length)) {
+      best = { schema, score, matched };
+    }
+  }
+  return best;
+}
+
+// ------------------ normalization ------------------
+export type NormalizedRow = Record<string, string | number | null>;
+
+export function normalizeRow(schema: ReportSchema, raw: Record<string, unknown>, sourceFile: string): NormalizedRow {
+  const r = cleanHeaderKeys(raw);
+  const out: NormalizedRow = {};
+  for (const c of schema.columns) {
+    out[c.column] = c.type === "number" ? toNum(r[c.header]) : toStr(r[c.header]);
+    if (c.currency) out[c.column] = toStr(out[c.column]).trim().toUpperCase();
+  }
+  if (schema.keyFrom) out[schema.conflictKey] = compositeKey(schema.keyFrom.map((c) => out[c]));
+  out.source_file = sourceFile;
+  return out;
+}
+
+/** "2025-06-30:USD"; empty when any part is missing, so the row fails the key check. */
+export function compositeKey(parts: unknown[]) {
+  const values = parts.map((p) => toStr(p).trim());
+  return values.every(Boolean) ? values.join(":") : "";
+}
+
+// ------------------ SQL generation ------------------
+function insertColumns(schema: ReportSchema): string[] {
+  const derivedKey = schema.keyFrom ? [schema.conflictKey] : [];
+  return [...derivedKey, ...schema.columns.map((c) => c.column), "source_file"];
+}
+
+export function upsertBatchSize(schema: ReportSchema, preferred = 1000) {
+  return Math.max(1, Math.min(preferred, Math.floor(MAX_BIND_PARAMS / insertColumns(schema).length)));
+}
+
+export function buildUpsertSql(schema: ReportSchema, rowCount: number): string {
+  const cols = insertColumns(schema);
+  const groups = Array.from({ length: rowCount }, (_, i) => {
+    const base = i * cols.length;
+    return `(${cols.map((_, j) => `$${base + j + 1}`).join(",")})`;
+  }).join(",");
+  const updates = cols
+    .filter((c) => c !== schema.conflictKey)
+    .map((c) => `${c}=EXCLUDED.${c}`)
+    .concat("loaded_at=now()")
+    .join(",\n            ");
+  return `
+        INSERT INTO ${schema.table} (${cols.join(",")}) VALUES ${groups}
+        ON CONFLICT (${schema.conflictKey}) DO UPDATE
+        SET ${updates}
+        RETURNING (xmax = 0) AS inserted;
+      `;
+}
+
+export function rowValues(schema: ReportSchema, row: NormalizedRow): any[] {
+  return insertColumns(schema).map((c) => row[c] ?? null);
+}
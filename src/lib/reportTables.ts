@@ -0,0 +1,486 @@
+// src/lib/reportTables.ts
+// Bootstraps the bookkeeping tables used by report ingestion (requires pgcrypto for gen_random_uuid()).
+import { query } from "../db";
+import { logger } from "./config";
+import { DEFAULT_INTEGRITY_CHECKS } from "./integrityChecks";
+
+export async function initializeReportTables() {
+  try {
+    await query(`CREATE EXTENSION IF NOT EXISTS pgcrypto;`);
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_uploads (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id TEXT,
+        checksum TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        entity_code TEXT,
+        period TEXT,
+        filename TEXT NOT NULL,
+        storage_path TEXT,
+        uploaded_file_id UUID,
+        rows_total INTEGER,
+        rows_accepted INTEGER,
+        rows_rejected INTEGER,
+        rows_inserted INTEGER,
+        rows_updated INTEGER,
+        status TEXT NOT NULL,
+        error TEXT,
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        finished_at TIMESTAMP,
+        duration_ms INTEGER
+      );
+    `);
+    await query(`
+      ALTER TABLE report_uploads ADD COLUMN IF NOT EXISTS reverted_by TEXT;
+      ALTER TABLE report_uploads ADD COLUMN IF NOT EXISTS reverted_at TIMESTAMP;
+      ALTER TABLE report_uploads DROP CONSTRAINT IF EXISTS report_uploads_status_check;
+      ALTER TABLE report_uploads ADD CONSTRAINT report_uploads_status_check
+        CHECK (status IN ('processing', 'succeeded', 'failed', 'reverted'));
+    `);
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_report_uploads_checksum ON report_uploads(checksum);
+      CREATE INDEX IF NOT EXISTS idx_report_uploads_entity_period ON report_uploads(entity_code, period);
+      CREATE INDEX IF NOT EXISTS idx_report_uploads_started_at ON report_uploads(started_at);
+    `);
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_upload_rejections (
+        id BIGSERIAL PRIMARY KEY,
+        upload_id UUID NOT NULL,
+        line INTEGER NOT NULL,
+        key_value TEXT,
+        reasons TEXT[] NOT NULL,
+        raw JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_report_upload_rejections_upload ON report_upload_rejections(upload_id, line);
+    `);
+    // Prior version of every row an upload touched, so the upload can be reverted.
+    // operation = 'insert' → the key did not exist before (previous is NULL)
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_row_versions (
+        id BIGSERIAL PRIMARY KEY,
+        upload_id UUID NOT NULL,
+        table_name TEXT NOT NULL,
+        key_value TEXT NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('insert', 'update')),
+        previous JSONB,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_report_row_versions_upload ON report_row_versions(upload_id);
+      CREATE INDEX IF NOT EXISTS idx_report_row_versions_key ON report_row_versions(table_name, key_value);
+    `);
+    // Temporal history per natural key: one row per version, open version has valid_to NULL
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_row_history (
+        id BIGSERIAL PRIMARY KEY,
+        table_name TEXT NOT NULL,
+        key_value TEXT NOT NULL,
+        entity TEXT,
+        period TEXT,
+        data JSONB NOT NULL,
+        valid_from TIMESTAMPTZ NOT NULL,
+        valid_to TIMESTAMPTZ,
+        upload_id UUID,
+        superseded_by UUID,
+        source_file TEXT,
+        uploaded_by TEXT
+      );
+    `);
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_report_row_history_key ON report_row_history(table_name, key_value, valid_from);
+      CREATE INDEX IF NOT EXISTS idx_report_row_history_entity_period ON report_row_history(table_name, entity, period);
+      CREATE INDEX IF NOT EXISTS idx_report_row_history_upload ON report_row_history(upload_id);
+      CREATE INDEX IF NOT EXISTS idx_report_row_history_superseded ON report_row_history(superseded_by);
+    `);
+    // Per-entity header mappings; kind NULL → the profile applies to every report kind
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_mapping_profiles (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        entity_code TEXT NOT NULL,
+        kind TEXT,
+        name TEXT NOT NULL,
+        columns JSONB NOT NULL DEFAULT '{}'::jsonb,
+        transforms JSONB NOT NULL DEFAULT '{}'::jsonb,
+        created_by TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_report_mapping_profiles_entity_kind
+        ON report_mapping_profiles(entity_code, COALESCE(kind, ''));
+    `);
+    // Resumable uploads: chunks live on local disk until complete; expires_at slides with each chunk
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_upload_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id TEXT,
+        filename TEXT NOT NULL,
+        mime_type TEXT,
+        total_size BIGINT NOT NULL,
+        chunk_size INTEGER NOT NULL,
+        total_chunks INTEGER NOT NULL,
+        sha256 TEXT NOT NULL,
+        overrides JSONB NOT NULL DEFAULT '{}'::jsonb,
+        status TEXT NOT NULL DEFAULT 'open'
+          CHECK (status IN ('open', 'completing', 'completed', 'failed', 'expired', 'aborted')),
+        result JSONB,
+        created_at TIMESTAMP DEFAULT NOW(),
+        expires_at TIMESTAMP NOT NULL,
+        completed_at TIMESTAMP
+      );
+    `);
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_report_upload_sessions_expiry ON report_upload_sessions(status, expires_at);
+    `);
+    // Outcome of every successful ingest, replayed for repeat checksums / Idempotency-Keys
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_ingest_results (
+        id BIGSERIAL PRIMARY KEY,
+        checksum TEXT NOT NULL,
+        idempotency_key TEXT,
+        user_id TEXT,
+        upload_ids UUID[] NOT NULL DEFAULT '{}',
+        result JSONB, -- NULL while the Idempotency-Key is reserved by an ingest in progress
+        overrides TEXT NOT NULL DEFAULT '', -- kind|entity|period sent with the file, '' when none
+        created_at TIMESTAMP DEFAULT NOW(),
+        superseded_at TIMESTAMP
+      );
+      ALTER TABLE report_ingest_results ALTER COLUMN result DROP NOT NULL;
+      ALTER TABLE report_ingest_results ADD COLUMN IF NOT EXISTS overrides TEXT NOT NULL DEFAULT '';
+    `);
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_report_ingest_results_checksum ON report_ingest_results(checksum, created_at);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_report_ingest_results_key
+        ON report_ingest_results(COALESCE(user_id, ''), idempotency_key) WHERE idempotency_key IS NOT NULL;
+    `);
+    // Files unpacked from an uploaded archive, linked to the archive's uploaded_files row
+    await query(`
+      CREATE TABLE IF NOT EXISTS uploaded_file_members (
+        parent_file_id UUID NOT NULL,
+        child_file_id UUID NOT NULL,
+        entry_path TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (parent_file_id, entry_path)
+      );
+    `);
+    await query(`CREATE INDEX IF NOT EXISTS idx_uploaded_file_members_child ON uploaded_file_members(child_file_id);`);
+    // Which reports each entity owes, how often, and how many days after period end they are due
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_submission_schedules (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        entity_code TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        frequency TEXT NOT NULL CHECK (frequency IN ('monthly','quarterly','semiannual','annual')),
+        due_day_offset INTEGER NOT NULL DEFAULT 0,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_report_submission_schedules_entity_kind
+        ON report_submission_schedules(lower(entity_code), kind);
+    `);
+    // Issues shown on the dashboard and by the chatbot; raised by background checks via dedupe_key
+    await query(`
+      CREATE TABLE IF NOT EXISTS compliance_issues (
+        issue_id TEXT PRIMARY KEY,
+        issue_type TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'Open',
+        entity TEXT,
+        severity TEXT,
+        description TEXT,
+        assignee TEXT,
+        date_created TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`
+      ALTER TABLE compliance_issues ADD COLUMN IF NOT EXISTS source TEXT;
+      ALTER TABLE compliance_issues ADD COLUMN IF NOT EXISTS dedupe_key TEXT;
+      ALTER TABLE compliance_issues ADD COLUMN IF NOT EXISTS details JSONB;
+      ALTER TABLE compliance_issues ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP;
+      ALTER TABLE compliance_issues ADD COLUMN IF NOT EXISTS resolution TEXT;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_issues_dedupe ON compliance_issues(dedupe_key);
+      CREATE SEQUENCE IF NOT EXISTS compliance_issue_seq;
+    `);
+    // keep generated COMP-n ids clear of issues created elsewhere
+    await query(`
+      SELECT setval('compliance_issue_seq', GREATEST(n, 1), n > 0)
+        FROM (SELECT COALESCE(MAX(substring(issue_id FROM '^COMP-([0-9]+)$')::BIGINT), 0) AS n FROM compliance_issues) m;
+    `);
+    // Configurable cross-report reference checks, run after each upload for its entity/period
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_integrity_checks (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        kind TEXT NOT NULL,
+        column_name TEXT NOT NULL,
+        target TEXT NOT NULL,
+        target_columns TEXT[] NOT NULL,
+        same_entity BOOLEAN NOT NULL DEFAULT FALSE,
+        severity TEXT NOT NULL DEFAULT 'Medium',
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    for (const c of DEFAULT_INTEGRITY_CHECKS) {
+      await query(
+        `INSERT INTO report_integrity_checks (name, description, kind, column_name, target, target_columns, same_entity, severity)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (name) DO NOTHING`,
+        [c.name, c.description, c.kind, c.column_name, c.target, c.target_columns, c.same_entity, c.severity]
+      );
+    }
+    // Rows that failed a check at the latest run for their entity/period, linked to the upload that ran it
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_integrity_findings (
+        id BIGSERIAL PRIMARY KEY,
+        check_id UUID NOT NULL REFERENCES report_integrity_checks(id) ON DELETE CASCADE,
+        upload_id UUID,
+        issue_id TEXT,
+        entity_code TEXT NOT NULL,
+        period TEXT NOT NULL,
+        key_value TEXT NOT NULL,
+        value TEXT,
+        found_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_report_integrity_findings_upload ON report_integrity_findings(upload_id);
+      CREATE INDEX IF NOT EXISTS idx_report_integrity_findings_scope
+        ON report_integrity_findings(check_id, lower(entity_code), period);
+    `);
+    // Integrity issues were keyed by check name; re-key the older ones by check id
+    await query(`
+      UPDATE compliance_issues
+         SET dedupe_key = 'integrity:' || (details->>'checkId') || ':' || lower(entity) || ':' || (details->>'period')
+       WHERE source = 'integrity_check' AND entity IS NOT NULL AND details ? 'checkId' AND details ? 'period'
+         AND dedupe_key <> 'integrity:' || (details->>'checkId') || ':' || lower(entity) || ':' || (details->>'period');
+    `);
+    // Candidate duplicate customers (across entities) awaiting review, and the merges made from them
+    await query(`
+      CREATE TABLE IF NOT EXISTS customer_duplicate_clusters (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        fingerprint TEXT NOT NULL UNIQUE,
+        members TEXT[] NOT NULL,
+        entities TEXT[] NOT NULL DEFAULT '{}',
+        score NUMERIC NOT NULL,
+        evidence JSONB NOT NULL DEFAULT '[]',
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open','merged','dismissed','superseded')),
+        issue_id TEXT,
+        master_customer_id TEXT,
+        detected_at TIMESTAMP DEFAULT NOW(),
+        reviewed_by TEXT,
+        reviewed_at TIMESTAMP,
+        review_note TEXT
+      );
+    `);
+    await query(`CREATE INDEX IF NOT EXISTS idx_customer_duplicate_clusters_status ON customer_duplicate_clusters(status, detected_at);`);
+    await query(`
+      CREATE TABLE IF NOT EXISTS customer_merge_audit (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        cluster_id UUID REFERENCES customer_duplicate_clusters(id),
+        master_customer_id TEXT NOT NULL,
+        merged_customer_ids TEXT[] NOT NULL,
+        master_before JSONB NOT NULL,
+        master_after JSONB NOT NULL,
+        merged_records JSONB NOT NULL,
+        repointed_txn_ids TEXT[] NOT NULL DEFAULT '{}',
+        merged_by TEXT,
+        merged_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`CREATE INDEX IF NOT EXISTS idx_customer_merge_audit_master ON customer_merge_audit(master_customer_id);`);
+    // Data-quality scorecard per report upload (scores 0..1)
+    await query(`
+      CREATE TABLE IF NOT EXISTS report_quality_scores (
+        upload_id UUID PRIMARY KEY,
+        kind TEXT NOT NULL,
+        entity_code TEXT,
+        period TEXT,
+        rows_total INTEGER NOT NULL,
+        completeness NUMERIC,
+        validity NUMERIC,
+        uniqueness NUMERIC,
+        freshness NUMERIC,
+        overall NUMERIC,
+        lag_days INTEGER,
+        duplicate_keys INTEGER NOT NULL DEFAULT 0,
+        columns JSONB NOT NULL DEFAULT '[]'::jsonb,
+        profile JSONB NOT NULL DEFAULT '[]'::jsonb,
+        scored_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`CREATE INDEX IF NOT EXISTS idx_report_quality_scores_entity_period ON report_quality_scores(lower(entity_code), period);`);
+    // One row per response that returned PII unmasked
+    await query(`
+      CREATE TABLE IF NOT EXISTS pii_unmask_audit (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id TEXT NOT NULL,
+        role TEXT,
+        resource TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        key_values TEXT[] NOT NULL DEFAULT '{}',
+        fields TEXT[] NOT NULL DEFAULT '{}',
+        reason TEXT,
+        accessed_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`CREATE INDEX IF NOT EXISTS idx_pii_unmask_audit_user ON pii_unmask_audit(user_id, accessed_at);`);
+    await query(`CREATE INDEX IF NOT EXISTS idx_pii_unmask_audit_accessed ON pii_unmask_audit(accessed_at);`);
+    // FX rates report kind: rate = base-currency units per 1 unit of currency on that date
+    await query(`
+      CREATE TABLE IF NOT EXISTS fx_rates (
+        rate_key TEXT PRIMARY KEY,
+        date DATE NOT NULL,
+        currency TEXT NOT NULL,
+        rate NUMERIC NOT NULL CHECK (rate > 0),
+        source TEXT,
+        source_file TEXT,
+        loaded_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`CREATE INDEX IF NOT EXISTS idx_fx_rates_currency_date ON fx_rates(currency, date DESC);`);
+    // Parsed text of each policy PDF; policy_rules anchor into it by character offsets
+    await query(`
+      CREATE TABLE IF NOT EXISTS policy_documents (
+        uploaded_file_id UUID PRIMARY KEY,
+        filename TEXT NOT NULL,
+        text TEXT NOT NULL,
+        page_count INTEGER,
+        pages JSONB NOT NULL DEFAULT '[]'::jsonb,
+        sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+        parsed_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    // Versions of the same policy (entity + normalized title); each document links to the version before it
+    await query(`
+      CREATE TABLE IF NOT EXISTS policy_series (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        series_key TEXT NOT NULL UNIQUE,
+        entity_code TEXT,
+        title TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`
+      ALTER TABLE policy_documents ADD COLUMN IF NOT EXISTS series_id UUID;
+      ALTER TABLE policy_documents ADD COLUMN IF NOT EXISTS version INTEGER;
+      ALTER TABLE policy_documents ADD COLUMN IF NOT EXISTS effective_date DATE;
+      ALTER TABLE policy_documents ADD COLUMN IF NOT EXISTS previous_file_id UUID;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_policy_documents_series_version ON policy_documents(series_id, version);
+    `);
+    // Every edit and review-state change of a policy rule
+    await query(`
+      CREATE TABLE IF NOT EXISTS policy_rule_reviews (
+        id BIGSERIAL PRIMARY KEY,
+        rule_id UUID NOT NULL,
+        action TEXT NOT NULL CHECK (action IN ('edit', 'submit', 'approve', 'reject', 'retire', 'reopen')),
+        from_state TEXT,
+        to_state TEXT,
+        changes JSONB,
+        note TEXT,
+        actor TEXT,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`CREATE INDEX IF NOT EXISTS idx_policy_rule_reviews_rule ON policy_rule_reviews(rule_id, created_at);`);
+    // policy_rules belongs to the glossary schema; add the anchor and version-link columns once it exists
+    await query(`
+      DO $$
+      BEGIN
+        IF to_regclass('policy_rules') IS NOT NULL THEN
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS page_start INTEGER;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS page_end INTEGER;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS section_path TEXT[] NOT NULL DEFAULT '{}';
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS char_start INTEGER;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS char_end INTEGER;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS previous_rule_id UUID;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS change_type TEXT;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS change_similarity NUMERIC;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS review_state TEXT NOT NULL DEFAULT 'draft';
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS reviewed_by TEXT;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS review_note TEXT;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS updated_by TEXT;
+          ALTER TABLE policy_rules ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP;
+          ALTER TABLE policy_rules DROP CONSTRAINT IF EXISTS policy_rules_review_state_check;
+          ALTER TABLE policy_rules ADD CONSTRAINT policy_rules_review_state_check
+            CHECK (review_state IN ('draft', 'under_review', 'approved', 'retired'));
+          CREATE INDEX IF NOT EXISTS idx_policy_rules_review_state ON policy_rules(review_state);
+          CREATE INDEX IF NOT EXISTS idx_policy_rules_source_file ON policy_rules(source_file_id);
+        END IF;
+      END $$;
+    `);
+    // Machine-checkable conditions attached to policy rules (lib/ruleConditions), run after each upload
+    await query(`
+      CREATE TABLE IF NOT EXISTS policy_rule_conditions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        rule_id UUID NOT NULL,
+        kind TEXT NOT NULL,
+        expression TEXT NOT NULL,
+        description TEXT,
+        severity TEXT,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`CREATE INDEX IF NOT EXISTS idx_policy_rule_conditions_rule ON policy_rule_conditions(rule_id);`);
+    // Rows that violated a condition at the latest run for their entity/period
+    await query(`
+      CREATE TABLE IF NOT EXISTS policy_rule_violations (
+        id BIGSERIAL PRIMARY KEY,
+        condition_id UUID NOT NULL REFERENCES policy_rule_conditions(id) ON DELETE CASCADE,
+        rule_id UUID NOT NULL,
+        upload_id UUID,
+        issue_id TEXT,
+        entity_code TEXT NOT NULL,
+        period TEXT NOT NULL,
+        key_value TEXT NOT NULL,
+        row_values JSONB NOT NULL DEFAULT '{}',
+        found_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_policy_rule_violations_upload ON policy_rule_violations(upload_id);
+      CREATE INDEX IF NOT EXISTS idx_policy_rule_violations_rule ON policy_rule_violations(rule_id);
+      CREATE INDEX IF NOT EXISTS idx_policy_rule_violations_scope
+        ON policy_rule_violations(condition_id, lower(entity_code), period);
+    `);
+    // Tie everything that points at a policy rule to it once policy_rules exists (it belongs to the
+    // glossary schema). Conditions keep a rule from being deleted; its review log goes with it.
+    await query(`
+      DO $$
+      BEGIN
+        IF to_regclass('policy_rules') IS NOT NULL THEN
+          ALTER TABLE policy_rules DROP CONSTRAINT IF EXISTS policy_rules_previous_rule_fkey;
+          ALTER TABLE policy_rules ADD CONSTRAINT policy_rules_previous_rule_fkey
+            FOREIGN KEY (previous_rule_id) REFERENCES policy_rules(id) ON DELETE SET NULL;
+          ALTER TABLE policy_rule_reviews DROP CONSTRAINT IF EXISTS policy_rule_reviews_rule_fkey;
+          ALTER TABLE policy_rule_reviews ADD CONSTRAINT policy_rule_reviews_rule_fkey
+            FOREIGN KEY (rule_id) REFERENCES policy_rules(id) ON DELETE CASCADE;
+          ALTER TABLE policy_rule_conditions DROP CONSTRAINT IF EXISTS policy_rule_conditions_rule_fkey;
+          ALTER TABLE policy_rule_conditions ADD CONSTRAINT policy_rule_conditions_rule_fkey
+            FOREIGN KEY (rule_id) REFERENCES policy_rules(id);
+          ALTER TABLE policy_rule_violations DROP CONSTRAINT IF EXISTS policy_rule_violations_rule_fkey;
+          ALTER TABLE policy_rule_violations ADD CONSTRAINT policy_rule_violations_rule_fkey
+            FOREIGN KEY (rule_id) REFERENCES policy_rules(id);
+        END IF;
+      END $$;
+    `);
+    logger.info("Report tables initialized");
+  } catch (error) {
+    logger.error("Error initializing report tables", { error });
+  }
+}
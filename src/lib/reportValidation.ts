@@ -0,0 +1,153 @@
+// src/lib/reportValidation.ts
+// Row-level validation for CSV reports, driven by the column declarations in reportSchemas.
+import { cleanHeaderKeys, normalizeRow, toStr, type NormalizedRow, type ReportSchema } from "./reportSchemas";
+
+export interface SourceRecord {
+  line: number;                     // 1-based line in the source file
+  record: Record<string, unknown>;
+  raw?: Record<string, unknown>;    // as sent, when `record` was remapped by a mapping profile
+}
+
+export interface RowRejection {
+  line: number;
+  key: string;
+  reasons: string[];
+  raw: Record<string, unknown>;
+}
+
+// A value outside a column's expected list, counted over the accepted rows that carry it
+export interface UnexpectedValue {
+  column: string; // header
+  value: string;
+  rows: number;
+  firstLine: number;
+}
+
+export interface ValidationResult {
+  accepted: NormalizedRow[];
+  rejected: RowRejection[];
+  unexpected: UnexpectedValue[];
+}
+
+// Distinct unexpected values reported per upload, most frequent first
+const MAX_UNEXPECTED_VALUES = 50;
+
+// YYYY-MM-DD, optionally followed by a time ("T" or space separated) and zone
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export function isValidDate(value: string) {
+  const m = value.match(DATE_PATTERN);
+  if (!m) return false;
+  const [, y, mo, d] = m.map(Number);
+  const dt = new Date(Date.UTC(y, mo - 1, d));
+  return dt.getUTCFullYear() === y && dt.getUTCMonth() === mo - 1 && dt.getUTCDate() === d;
+}
+
+// ISO 4217 codes known to the runtime's ICU data
+const ISO_CURRENCIES = new Set(Intl.supportedValuesOf("currency"));
+
+export function isIsoCurrencyCode(value: string) {
+  return ISO_CURRENCIES.has(value.trim().toUpperCase());
+}
+
+export function validateRow(
+  schema: ReportSchema,
+  raw: Record<string, unknown>,
+  sourceFile: string
+): { row: NormalizedRow; reasons: string[]; unexpected: { column: string; value: string }[] } {
+  const r = cleanHeaderKeys(raw);
+  const row = normalizeRow(schema, r, sourceFile);
+  const reasons: string[] = [];
+  const unexpected: { column: string; value: string }[] = [];
+
+  for (const c of schema.columns) {
+    const value = toStr(r[c.header]).trim();
+    if (!value) {
+      if (c.required) reasons.push(`${c.header} is required`);
+      continue;
+    }
+    // reasons are stored and shown unmasked, so they never echo a PII value
+    const got = c.pii ? "" : ` (got "${value}")`;
+    if (c.type === "number" && row[c.column] === null) {
+      reasons.push(`${c.header} must be a number${got}`);
+    } else if (c.positive && Number(row[c.column]) <= 0) {
+      reasons.push(`${c.header} must be greater than 0${got}`);
+    } else if (c.currency && !isIsoCurrencyCode(value)) {
+      reasons.push(`${c.header} must be an ISO 4217 currency code${got}`);
+    } else if (c.type === "date" && !isValidDate(value)) {
+      reasons.push(`${c.header} must be a date in YYYY-MM-DD format${got}`);
+    } else if (c.enum) {
+      const match = c.enum.find((e) => e.toLowerCase() === value.toLowerCase());
+      if (match) row[c.column] = match;
+      else unexpected.push({ column: c.header, value });
+    }
+  }
+
+  return { row, reasons, unexpected };
+}
+
+/** Adds `more` into `into` (counts summed, earliest line kept) and returns the most frequent values. */
+export function mergeUnexpectedValues(into: UnexpectedValue[], more: UnexpectedValue[]): UnexpectedValue[] {
+  const id = (u: UnexpectedValue) => `${u.column}\u0000${u.value}`;
+  const byValue = new Map(into.map((u) => [id(u), { ...u }]));
+  for (const u of more) {
+    const known = byValue.get(id(u));
+    if (!known) byValue.set(id(u), { ...u });
+    else {
+      known.rows += u.rows;
+      known.firstLine = Math.min(known.firstLine, u.firstLine);
+    }
+  }
+  return [...byValue.values()].sort((a, b) => b.rows - a.rows || a.firstLine - b.firstLine).slice(0, MAX_UNEXPECTED_VALUES);
+}
+
+export function duplicateKeyReason(schema: ReportSchema, key: string, firstLine: number) {
+  return `duplicate ${schema.conflictKey} "${key}" (first seen on line ${firstLine})`;
+}
+
+/**
+ * Validates every record against the schema.
+ * A row is rejected if any column fails, or if its key repeats an earlier row in the same file
+ * (a single upsert statement cannot touch the same key twice). Values outside an expected list
+ * only show up in `unexpected`.
+ */
+export function validateRows(schema: ReportSchema, records: SourceRecord[], sourceFile: string): ValidationResult {
+  const accepted: NormalizedRow[] = [];
+  const rejected: RowRejection[] = [];
+  const seenKeys = new Map<string, number>();
+  const unexpected: UnexpectedValue[] = [];
+
+  for (const { line, record, raw } of records) {
+    const { row, reasons, unexpected: odd } = validateRow(schema, record, sourceFile);
+    const key = toStr(row[schema.conflictKey]);
+    if (key && seenKeys.has(key)) reasons.push(duplicateKeyReason(schema, key, seenKeys.get(key)!));
+    if (reasons.length) {
+      rejected.push({ line, key, reasons, raw: raw ?? record });
+      continue;
+    }
+    seenKeys.set(key, line);
+    accepted.push(row);
+    for (const u of odd) unexpected.push({ ...u, rows: 1, firstLine: line });
+  }
+
+  return { accepted, rejected, unexpected: mergeUnexpectedValues([], unexpected) };
+}
+
+// ------------------ rejection report ------------------
+function csvCell(v: unknown) {
+  const s = toStr(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Renders rejections as CSV: line, reason, then the original columns so stewards can fix and resend. */
+export function buildRejectionCsv(rejections: Pick<RowRejection, "line" | "reasons" | "raw">[]): string {
+  const headers: string[] = [];
+  for (const r of rejections) {
+    for (const h of Object.keys(r.raw)) if (!headers.includes(h)) headers.push(h);
+  }
+  const lines = [["Line", "Rejection_Reason", ...headers].map(csvCell).join(",")];
+  for (const r of rejections) {
+    lines.push([r.line, r.reasons.join("; "), ...headers.map((h) => r.raw[h])].map(csvCell).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,457 @@
+// src/lib/ruleConditions.ts
+// A small expression language for machine-checkable policy rule conditions, compiled to a SQL
+// predicate over one report table. Columns come from the declared report schemas and literals are
+// bind parameters, so the SQL built from a condition never contains user input.
+//
+//   <requirement>                       every row must satisfy it
+//   <scope> requires <requirement>      every row matching the scope must satisfy it
+//
+//   amount > 500000 and txn_type = 'cash' requires counterparty
+//   likelihood * impact >= 15 requires mitigation and owner
+//   status in ('Open', 'Escalated') requires days_since(review_date) <= 90
+//
+// Operators: and, or, not, = != <> < <= > >=, in (...), not in (...), is blank, is not blank,
+// + - * /, parentheses. Functions: lower, upper, length, abs, days_since(date). A bare column in a
+// condition means "is not blank". Text comparisons ignore case. A requirement that cannot be
+// evaluated (blank values) counts as violated.
+import { findReportSchema, listReportSchemas, type ColumnType, type ReportSchema } from "./reportSchemas";
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 32;
+const MAX_IN_LIST = 200;
+
+// Columns a condition may use besides the schema's own (filled in at ingest, not uploaded)
+const DERIVED_COLUMNS: Record<string, { column: string; type: ColumnType }[]> = {
+  transactions: [{ column: "amount_base", type: "number" }], // amount in CONFIG.FX.BASE_CURRENCY
+};
+
+type ValueType = "number" | "text" | "date" | "bool";
+
+type Node =
+  | { t: "num"; v: number }
+  | { t: "str"; v: string }
+  | { t: "col"; name: string }
+  | { t: "call"; fn: string; args: Node[] }
+  | { t: "arith"; op: string; l: Node; r: Node }
+  | { t: "neg"; e: Node }
+  | { t: "cmp"; op: string; l: Node; r: Node }
+  | { t: "in"; not: boolean; e: Node; list: Node[] }
+  | { t: "blank"; not: boolean; e: Node }
+  | { t: "and" | "or"; l: Node; r: Node }
+  | { t: "not"; e: Node };
+
+interface Token {
+  type: "num" | "str" | "ident" | "op" | "end";
+  value: string;
+  pos: number;
+}
+
+const KEYWORDS = new Set(["and", "or", "not", "in", "is", "blank", "requires"]);
+
+const FUNCTIONS: Record<string, { arg: ValueType; returns: ValueType }> = {
+  lower: { arg: "text", returns: "text" },
+  upper: { arg: "text", returns: "text" },
+  length: { arg: "text", returns: "number" },
+  abs: { arg: "number", returns: "number" },
+  days_since: { arg: "date", returns: "number" },
+};
+
+function fail(message: string, pos?: number): never {
+  throw new Error(pos === undefined ? message : `${message} (at character ${pos + 1})`);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(input[i + 1] ?? ""))) {
+      const m = input.slice(i).match(/^[0-9][0-9_]*(\.[0-9]+)?|^\.[0-9]+/)!;
+      tokens.push({ type: "num", value: m[0].replace(/_/g, ""), pos: i });
+      i += m[0].length;
+    } else if (ch === "'") {
+      let value = "";
+      let j = i + 1;
+      for (;;) {
+        if (j >= input.length) fail("unterminated string", i);
+        if (input[j] === "'") {
+          if (input[j + 1] === "'") {
+            value += "'";
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        value += input[j++];
+      }
+      tokens.push({ type: "str", value, pos: i });
+      i = j + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const m = input.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ type: "ident", value: m[0].toLowerCase(), pos: i });
+      i += m[0].length;
+    } else {
+      const m = input.slice(i).match(/^(<=|>=|<>|!=|==|[=<>(),+\-*/])/);
+      if (!m) fail(`unexpected character "${ch}"`, i);
+      tokens.push({ type: "op", value: m[0] === "==" ? "=" : m[0], pos: i });
+      i += m[0].length;
+    }
+  }
+  tokens.push({ type: "end", value: "", pos: input.length });
+  return tokens;
+}
+
+// Recursive descent, lowest precedence first: or → and → not → comparison → + - → * / → unary → primary
+class Parser {
+  private i = 0;
+  private depth = 0;
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek() {
+    return this.tokens[this.i];
+  }
+  private next() {
+    return this.tokens[this.i++];
+  }
+  private isWord(word: string) {
+    const t = this.peek();
+    return t.type === "ident" && t.value === word;
+  }
+  private isOp(op: string) {
+    const t = this.peek();
+    return t.type === "op" && t.value === op;
+  }
+  private expectOp(op: string) {
+    const t = this.next();
+    if (t.type !== "op" || t.value !== op) fail(`expected "${op}"`, t.pos);
+  }
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) fail("condition is nested too deeply", this.peek().pos);
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  parseCondition(): { scope: Node | null; requirement: Node } {
+    const first = this.parseOr();
+    let scope: Node | null = null;
+    let requirement = first;
+    if (this.isWord("requires")) {
+      this.next();
+      scope = first;
+      requirement = this.parseOr();
+    }
+    const t = this.peek();
+    if (t.type !== "end") fail(`unexpected "${t.value}"`, t.pos);
+    return { scope, requirement };
+  }
+
+  private parseOr(): Node {
+    let node = this.parseAnd();
+    while (this.isWord("or")) {
+      this.next();
+      node = { t: "or", l: node, r: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): Node {
+    let node = this.parseNot();
+    while (this.isWord("and")) {
+      this.next();
+      node = { t: "and", l: node, r: this.parseNot() };
+    }
+    return node;
+  }
+
+  private parseNot(): Node {
+    if (this.isWord("not")) {
+      this.next();
+      return this.nested(() => ({ t: "not", e: this.parseNot() }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parseSum();
+    const t = this.peek();
+    if (t.type === "op" && ["=", "!=", "<>", "<", "<=", ">", ">="].includes(t.value)) {
+      this.next();
+      return { t: "cmp", op: t.value === "<>" ? "!=" : t.value, l: left, r: this.parseSum() };
+    }
+    if (this.isWord("is")) {
+      this.next();
+      const not = this.isWord("not");
+      if (not) this.next();
+      if (!this.isWord("blank")) fail(`expected "blank"`, this.peek().pos);
+      this.next();
+      return { t: "blank", not, e: left };
+    }
+    const negated = this.isWord("not") && this.tokens[this.i + 1]?.type === "ident" && this.tokens[this.i + 1].value === "in";
+    if (negated) this.next();
+    if (this.isWord("in")) {
+      this.next();
+      this.expectOp("(");
+      const list: Node[] = [this.parseSum()];
+      while (this.isOp(",")) {
+        this.next();
+        list.push(this.parseSum());
+      }
+      this.expectOp(")");
+      if (list.length > MAX_IN_LIST) fail(`an in-list can have at most ${MAX_IN_LIST} values`, t.pos);
+      return { t: "in", not: negated, e: left, list };
+    }
+    return left;
+  }
+
+  private parseSum(): Node {
+    let node = this.parseProduct();
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = this.next().value;
+      node = { t: "arith", op, l: node, r: this.parseProduct() };
+    }
+    return node;
+  }
+
+  private parseProduct(): Node {
+    let node = this.parseUnary();
+    while (this.isOp("*") || this.isOp("/")) {
+      const op = this.next().value;
+      node = { t: "arith", op, l: node, r: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): Node {
+    if (this.isOp("-")) {
+      this.next();
+      return this.nested(() => ({ t: "neg", e: this.parseUnary() }));
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Node {
+    const t = this.next();
+    if (t.type === "num") return { t: "num", v: Number(t.value) };
+    if (t.type === "str") return { t: "str", v: t.value };
+    if (t.type === "op" && t.value === "(") {
+      const node = this.nested(() => this.parseOr());
+      this.expectOp(")");
+      return node;
+    }
+    if (t.type === "ident" && !KEYWORDS.has(t.value)) {
+      if (this.isOp("(")) {
+        if (!FUNCTIONS[t.value]) fail(`unknown function "${t.value}"`, t.pos);
+        this.next();
+        const args = [this.nested(() => this.parseOr())];
+        this.expectOp(")");
+        return { t: "call", fn: t.value, args };
+      }
+      return { t: "col", name: t.value };
+    }
+    fail(t.type === "end" ? "condition ends unexpectedly" : `unexpected "${t.value}"`, t.pos);
+  }
+}
+
+// ------------------ compilation ------------------
+export interface CompiledCondition {
+  scope: string | null; // SQL predicates over alias "s"
+  requirement: string;
+  params: unknown[];    // bound from $<paramOffset + 1>
+  columns: string[];    // columns the condition reads
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function conditionColumns(schema: ReportSchema) {
+  const columns = new Map<string, ColumnType>();
+  // encrypted PII columns cannot be compared in SQL
+  for (const c of schema.columns) if (!c.pii) columns.set(c.column, c.type);
+  for (const c of DERIVED_COLUMNS[schema.kind] ?? []) columns.set(c.column, c.type);
+  return columns;
+}
+
+/** Report kinds conditions can be written for: those reported per entity and period. */
+export function conditionKinds(): string[] {
+  return listReportSchemas()
+    .filter((s) => s.columns.some((c) => c.column === "entity") && s.columns.some((c) => c.column === "period"))
+    .map((s) => s.kind);
+}
+
+/** Columns (and their types) a condition over `kind` may use. */
+export function listConditionColumns(kind: string) {
+  const schema = findReportSchema(kind);
+  return schema ? [...conditionColumns(schema)].map(([column, type]) => ({ column, type })) : [];
+}
+
+class Compiler {
+  readonly params: unknown[] = [];
+  readonly used = new Set<string>();
+  constructor(private readonly columns: Map<string, ColumnType>, private readonly paramOffset: number) {}
+
+  private bind(value: unknown) {
+    this.params.push(value);
+    return `$${this.paramOffset + this.params.length}`;
+  }
+
+  // SQL and type of a value expression
+  value(node: Node): { sql: string; type: ValueType; literal?: boolean } {
+    switch (node.t) {
+      case "num":
+        return { sql: `${this.bind(node.v)}::numeric`, type: "number" };
+      case "str":
+        return { sql: `${this.bind(node.v)}::text`, type: ISO_DATE.test(node.v) ? "date" : "text", literal: true };
+      case "col": {
+        const type = this.columns.get(node.name);
+        if (!type) fail(`unknown column "${node.name}"`);
+        this.used.add(node.name);
+        const raw = `NULLIF(trim(s.${node.name}::text), '')`;
+        if (type === "number") return { sql: `${raw}::numeric`, type };
+        if (type === "date") return { sql: `left(${raw}, 10)`, type };
+        return { sql: raw, type: "text" };
+      }
+      case "call": {
+        const fn = FUNCTIONS[node.fn];
+        const arg = this.value(node.args[0]);
+        this.expect(arg.type, fn.arg, `${node.fn}()`);
+        if (node.fn === "days_since") {
+          return { sql: `(CASE WHEN ${arg.sql} ~ '^\\d{4}-\\d{2}-\\d{2}$' THEN CURRENT_DATE - (${arg.sql})::date END)`, type: "number" };
+        }
+        return { sql: `${node.fn}(${arg.sql})`, type: fn.returns };
+      }
+      case "arith": {
+        const l = this.value(node.l);
+        const r = this.value(node.r);
+        this.expect(l.type, "number", `"${node.op}"`);
+        this.expect(r.type, "number", `"${node.op}"`);
+        return { sql: node.op === "/" ? `(${l.sql} / NULLIF(${r.sql}, 0))` : `(${l.sql} ${node.op} ${r.sql})`, type: "number" };
+      }
+      case "neg": {
+        const e = this.value(node.e);
+        this.expect(e.type, "number", `"-"`);
+        return { sql: `(-${e.sql})`, type: "number" };
+      }
+      default:
+        return { sql: this.predicate(node), type: "bool" };
+    }
+  }
+
+  private expect(actual: ValueType, wanted: ValueType, where: string) {
+    // ISO date strings are also valid text
+    if (actual === wanted || (actual === "date" && wanted === "text")) return;
+    fail(`${where} needs a ${wanted} value, got ${actual}`);
+  }
+
+  private comparable(l: { type: ValueType; literal?: boolean }, r: { type: ValueType; literal?: boolean }, op: string) {
+    const types = new Set([l.type, r.type]);
+    if (types.has("bool")) fail(`cannot compare a condition with "${op}"`);
+    let type = l.type;
+    if (l.type !== r.type) {
+      if (!types.has("date") || !types.has("text")) fail(`cannot compare ${l.type} with ${r.type}`);
+      // a date column against a text literal is a malformed date; a text column against an ISO date is text
+      if ((l.type === "text" && l.literal) || (r.type === "text" && r.literal)) fail(`dates are written 'YYYY-MM-DD'`);
+      type = "text";
+    }
+    if (type === "text" && ["<", "<=", ">", ">="].includes(op)) fail(`"${op}" compares numbers or dates, not text`);
+    return type;
+  }
+
+  // SQL boolean for a node used as a condition
+  predicate(node: Node): string {
+    switch (node.t) {
+      case "and":
+      case "or":
+        return `(${this.predicate(node.l)} ${node.t.toUpperCase()} ${this.predicate(node.r)})`;
+      case "not":
+        return `(NOT ${this.predicate(node.e)})`;
+      case "blank": {
+        const e = this.value(node.e);
+        if (e.type === "bool") fail(`"is blank" applies to a value, not a condition`);
+        return node.not ? `(${e.sql} IS NOT NULL)` : `(${e.sql} IS NULL)`;
+      }
+      case "cmp": {
+        const l = this.value(node.l);
+        const r = this.value(node.r);
+        const type = this.comparable(l, r, node.op);
+        if (type === "text") return `(lower(${l.sql}) ${node.op} lower(${r.sql}))`;
+        return `(${l.sql} ${node.op} ${r.sql})`;
+      }
+      case "in": {
+        const e = this.value(node.e);
+        const items = node.list.map((item) => {
+          const v = this.value(item);
+          const type = this.comparable(e, v, "in");
+          return type === "text" ? `lower(${v.sql})` : v.sql;
+        });
+        const subject = e.type === "text" ? `lower(${e.sql})` : e.sql;
+        return `(${subject} ${node.not ? "NOT IN" : "IN"} (${items.join(", ")}))`;
+      }
+      case "col": {
+        // a bare column: the value is present
+        const e = this.value(node);
+        return `(${e.sql} IS NOT NULL)`;
+      }
+      default:
+        fail("expected a condition, got a value (compare it with something)");
+    }
+  }
+}
+
+/**
+ * Parses and type-checks `expression` against the columns of `kind`. Returns the compiled SQL
+ * predicates, or the problems that prevent it.
+ */
+export function compileCondition(
+  kind: string,
+  expression: string,
+  paramOffset = 0
+): { compiled: CompiledCondition | null; problems: string[] } {
+  const schema = findReportSchema(kind);
+  if (!schema || !conditionKinds().includes(kind)) {
+    return { compiled: null, problems: [`kind must be one of ${conditionKinds().join(", ")}`] };
+  }
+  if (!expression?.trim()) return { compiled: null, problems: ["expression is required"] };
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    return { compiled: null, problems: [`expression is longer than ${MAX_EXPRESSION_LENGTH} characters`] };
+  }
+  try {
+    const { scope, requirement } = new Parser(tokenize(expression)).parseCondition();
+    const compiler = new Compiler(conditionColumns(schema), paramOffset);
+    const compiled: CompiledCondition = {
+      scope: scope ? compiler.predicate(scope) : null,
+      requirement: compiler.predicate(requirement),
+      params: compiler.params,
+      columns: [...compiler.used],
+    };
+    return { compiled, problems: [] };
+  } catch (err: any) {
+    return { compiled: null, problems: [err?.message || String(err)] };
+  }
+}
+
+/**
+ * SQL listing the rows of one entity/period that violate the condition, with the values of the
+ * columns it reads. Params: $1 entity, $2 period, $3 row limit, then the condition's literals.
+ */
+export function buildViolationQuery(kind: string, expression: string): { sql: string; params: unknown[] } {
+  const { compiled, problems } = compileCondition(kind, expression, 3);
+  const schema = findReportSchema(kind);
+  if (!compiled || !schema) throw new Error(`INVALID_POLICY_CONDITION ${problems.join("; ")}`);
+
+  const values = compiled.columns.map((c) => `'${c}', s.${c}`).join(", ");
+  return {
+    sql: `
+    SELECT s.${schema.conflictKey}::text AS key_value, jsonb_build_object(${values}) AS row_values
+      FROM ${schema.table} s
+     WHERE lower(s.entity) = lower($1) AND s.period = $2
+       ${compiled.scope ? `AND COALESCE(${compiled.scope}, false)` : ""}
+       AND NOT COALESCE(${compiled.requirement}, false)
+     ORDER BY 1
+     LIMIT $3`,
+    params: compiled.params,
+  };
+}
@@ -0,0 +1,76 @@
+// src/lib/submissionCalendar.ts
+// Period arithmetic for the submission schedule. Periods are period-end dates (YYYY-MM-DD), the
+// same values detectReport reads from the Period column, and a report is due a fixed number of
+// days after its period ends.
+import { findReportSchema } from "./reportSchemas";
+
+export const SUBMISSION_FREQUENCIES = ["monthly", "quarterly", "semiannual", "annual"] as const;
+export type SubmissionFrequency = (typeof SUBMISSION_FREQUENCIES)[number];
+
+const MONTHS_PER_PERIOD: Record<SubmissionFrequency, number> = { monthly: 1, quarterly: 3, semiannual: 6, annual: 12 };
+
+export interface SubmissionSchedule {
+  id: string;
+  entity_code: string;
+  kind: string;
+  frequency: SubmissionFrequency;
+  due_day_offset: number;
+  active: boolean;
+}
+
+export type SubmissionScheduleInput = Pick<SubmissionSchedule, "entity_code" | "kind" | "frequency" | "due_day_offset"> & {
+  active?: boolean;
+};
+
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+/** Last day of the month `monthIndex` months after January of year 0 (UTC). */
+function monthEnd(monthIndex: number): Date {
+  return new Date(Date.UTC(Math.floor(monthIndex / 12), (monthIndex % 12) + 1, 0));
+}
+
+/** True when `period` is a period end for `frequency` (e.g. 2025-06-30 for monthly, quarterly and semiannual). */
+export function isPeriodEnd(period: string, frequency: SubmissionFrequency): boolean {
+  const d = new Date(`${period}T00:00:00Z`);
+  if (Number.isNaN(d.getTime()) || isoDate(d) !== period) return false;
+  const monthIndex = d.getUTCFullYear() * 12 + d.getUTCMonth();
+  return isoDate(monthEnd(monthIndex)) === period && (d.getUTCMonth() + 1) % MONTHS_PER_PERIOD[frequency] === 0;
+}
+
+/** Period ends for `frequency` falling within [from, to], oldest first. */
+export function periodEndsBetween(frequency: SubmissionFrequency, from: Date, to: Date): string[] {
+  const step = MONTHS_PER_PERIOD[frequency];
+  const periods: string[] = [];
+  let monthIndex = from.getUTCFullYear() * 12 + from.getUTCMonth();
+  monthIndex += (step - ((monthIndex % 12) + 1) % step) % step; // first month closing a period
+  for (let end = monthEnd(monthIndex); end <= to; monthIndex += step, end = monthEnd(monthIndex)) {
+    if (end >= from) periods.push(isoDate(end));
+  }
+  return periods;
+}
+
+export function dueDate(period: string, offsetDays: number): string {
+  const d = new Date(`${period}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + offsetDays);
+  return isoDate(d);
+}
+
+/** The most recent month end strictly before `now`, the default period to report on. */
+export function lastMonthEnd(now = new Date()): string {
+  return isoDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0)));
+}
+
+/** Returns a list of problems; empty when the input can be saved. */
+export function validateScheduleInput(input: Partial<SubmissionScheduleInput>): string[] {
+  const problems: string[] = [];
+  if (!input.entity_code?.trim()) problems.push("entity_code is required");
+  if (!input.kind || !findReportSchema(input.kind)) problems.push(`kind must be a report kind, got "${input.kind ?? ""}"`);
+  if (!SUBMISSION_FREQUENCIES.includes(input.frequency as SubmissionFrequency)) {
+    problems.push(`frequency must be one of ${SUBMISSION_FREQUENCIES.join(", ")}`);
+  }
+  const offset = input.due_day_offset;
+  if (typeof offset !== "number" || !Number.isInteger(offset) || offset < 0 || offset > 366) {
+    problems.push("due_day_offset must be a whole number of days between 0 and 366");
+  }
+  return problems;
+}
@@ -0,0 +1,37 @@
+// src/lib/uploadChunks.ts
+// Chunk arithmetic for resumable uploads: how a declared file splits into chunks, and which
+// chunks a session is still missing.
+import { CONFIG } from "./config";
+
+export type ChunkPlan =
+  | { ok: true; totalChunks: number }
+  | { ok: false; error: "INVALID_CHUNK_SIZE" | "TOO_MANY_CHUNKS"; detail: Record<string, number> };
+
+/** Splits `size` bytes into chunks of `chunkSize`, within the configured chunk size and count bounds. */
+export function planChunks(size: number, chunkSize: number): ChunkPlan {
+  const { MIN_CHUNK_SIZE, MAX_CHUNK_SIZE, MAX_UPLOAD_CHUNKS } = CONFIG.PROCESSING;
+  if (!Number.isInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE) {
+    return { ok: false, error: "INVALID_CHUNK_SIZE", detail: { min: MIN_CHUNK_SIZE, max: MAX_CHUNK_SIZE } };
+  }
+  // the chunk count bounds every per-chunk listing of the session
+  const totalChunks = Math.ceil(size / chunkSize);
+  if (totalChunks > MAX_UPLOAD_CHUNKS) {
+    return { ok: false, error: "TOO_MANY_CHUNKS", detail: { max: MAX_UPLOAD_CHUNKS, minChunkSize: Math.ceil(size / MAX_UPLOAD_CHUNKS) } };
+  }
+  return { ok: true, totalChunks };
+}
+
+/**
+ * The chunk indexes not in `received` (sorted, distinct, below `totalChunks`), as inclusive
+ * [first, last] ranges: walks the received list, never the whole range.
+ */
+export function missingChunkRanges(totalChunks: number, received: number[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  let next = 0;
+  for (const index of received) {
+    if (index > next) ranges.push([next, index - 1]);
+    next = Math.max(next, index + 1);
+  }
+  if (next < totalChunks) ranges.push([next, totalChunks - 1]);
+  return ranges;
+}
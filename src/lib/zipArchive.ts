@@ -0,0 +1,121 @@
+// src/lib/zipArchive.ts
+// In-memory unpacking of uploaded ZIP packages. Entry names are checked before anything is read,
+// and inflated bytes are counted as they stream so a zip bomb stops at the size budget.
+import path from "path";
+import JSZip from "jszip";
+
+export interface ZipLimits {
+  maxEntries: number;
+  maxEntrySize: number;
+  maxTotalSize: number;
+}
+
+export interface ZipEntry {
+  path: string; // full path inside the archive
+  name: string; // base name, used as the entry's filename
+  mime: string;
+  buffer: Buffer;
+}
+
+export interface SkippedZipEntry {
+  path: string;
+  reason: "HIDDEN_OR_SYSTEM_FILE" | "NESTED_ARCHIVE" | "UNSUPPORTED_TYPE" | "UNREADABLE_ENTRY";
+}
+
+export type UnpackResult =
+  | { ok: true; entries: ZipEntry[]; skipped: SkippedZipEntry[] }
+  | { ok: false; error: string; detail?: Record<string, any> };
+
+const ENTRY_MIME: Record<string, string> = {
+  csv: "text/csv",
+  pdf: "application/pdf",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xls: "application/vnd.ms-excel",
+};
+
+/** Absolute paths, drive letters, `..` segments and NUL bytes are never allowed in an entry name. */
+export function isUnsafeEntryPath(name: string): boolean {
+  if (!name || name.includes("\0")) return true;
+  const normalized = name.replace(/\\/g, "/");
+  if (normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized)) return true;
+  return normalized.split("/").some((segment) => segment === "..");
+}
+
+/** Resolves to the entry's bytes, or null as soon as more than `cap` bytes come out. */
+function inflate(file: JSZip.JSZipObject, cap: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = file.nodeStream("nodebuffer");
+    const parts: Buffer[] = [];
+    let bytes = 0;
+    stream.on("data", (chunk: Buffer) => {
+      bytes += chunk.length;
+      if (bytes > cap) {
+        stream.pause();
+        stream.removeAllListeners("data");
+        return resolve(null);
+      }
+      parts.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(parts)));
+    stream.on("error", reject);
+  });
+}
+
+/**
+ * Unpacks the report files (CSV, XLSX/XLS, PDF) in `buffer`. Any unsafe path or exceeded limit
+ * rejects the whole archive; other files (hidden, nested zips, unknown types) are skipped.
+ */
+export async function unpackZip(buffer: Buffer, limits: ZipLimits): Promise<UnpackResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (e: any) {
+    return { ok: false, error: "INVALID_ZIP", detail: { message: e?.message || String(e) } };
+  }
+
+  const files = Object.values(zip.files).filter((f) => !f.dir);
+  if (files.length > limits.maxEntries) {
+    return { ok: false, error: "ZIP_TOO_MANY_ENTRIES", detail: { entries: files.length, limit: limits.maxEntries } };
+  }
+  const unsafe = files.map((f) => f.unsafeOriginalName ?? f.name).filter(isUnsafeEntryPath);
+  if (unsafe.length) return { ok: false, error: "ZIP_UNSAFE_PATH", detail: { paths: unsafe } };
+
+  const entries: ZipEntry[] = [];
+  const skipped: SkippedZipEntry[] = [];
+  let total = 0;
+  for (const file of files) {
+    const entryPath = file.name;
+    const name = path.posix.basename(entryPath);
+    const ext = (name.split(".").pop() || "").toLowerCase();
+    if (name.startsWith(".") || entryPath.split("/").includes("__MACOSX")) {
+      skipped.push({ path: entryPath, reason: "HIDDEN_OR_SYSTEM_FILE" });
+      continue;
+    }
+    if (ext === "zip") {
+      skipped.push({ path: entryPath, reason: "NESTED_ARCHIVE" });
+      continue;
+    }
+    if (!ENTRY_MIME[ext]) {
+      skipped.push({ path: entryPath, reason: "UNSUPPORTED_TYPE" });
+      continue;
+    }
+
+    // the header's declared size can lie, so only the inflated byte count is trusted
+    const cap = Math.min(limits.maxEntrySize, limits.maxTotalSize - total);
+    let data: Buffer | null;
+    try {
+      data = await inflate(file, cap);
+    } catch {
+      skipped.push({ path: entryPath, reason: "UNREADABLE_ENTRY" });
+      continue;
+    }
+    if (!data) {
+      return cap < limits.maxEntrySize
+        ? { ok: false, error: "ZIP_TOO_LARGE_UNCOMPRESSED", detail: { limit: limits.maxTotalSize } }
+        : { ok: false, error: "ZIP_ENTRY_TOO_LARGE", detail: { path: entryPath, limit: limits.maxEntrySize } };
+    }
+    total += data.length;
+    entries.push({ path: entryPath, name, mime: ENTRY_MIME[ext], buffer: data });
+  }
+  return { ok: true, entries, skipped };
+}
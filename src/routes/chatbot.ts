@@ -3,6 +3,8 @@ import express from "express";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { query } from "../db";
 import * as admin from "firebase-admin";
+import { getEntityQualitySnapshot } from "../services/dataQuality";
+import { listApprovedPolicyRules } from "../services/policyRules";
 
 // ───────────────────────────────────────────────────────────────────────────────
 // Gemini init
@@ -166,15 +168,46 @@ async function getGlossaryBlock(userId: string): Promise<string> {
   }
 }
 
-// Static high-level context (you can replace with a DB-driven summary if desired)
+// Approved policy rules only; drafts and rules under review are not yet authoritative
+async function getPolicyRulesBlock(): Promise<string> {
+  try {
+    const rules = await listApprovedPolicyRules({ limit: 25 });
+    if (!rules.length) return "";
+    const lines = rules
+      .map((r: any) => {
+        const source = [r.entity_code, r.policy_title, r.page_start ? `p. ${r.page_start}` : null].filter(Boolean).join(", ");
+        return `- ${r.rule_code ? `${r.rule_code}: ` : ""}${r.rule_text}${r.severity ? ` [${r.severity}]` : ""}${source ? ` (${source})` : ""}`;
+      })
+      .join("\n");
+    return `\n\nApproved policy rules:\n${lines}`;
+  } catch {
+    // policy_rules may not exist yet
+    return "";
+  }
+}
+
+// Collaboration health = each entity's latest data-quality score from its report uploads
+async function getCollabHealthLine(): Promise<string> {
+  try {
+    const entities = (await getEntityQualitySnapshot()).filter((e) => e.overall !== null);
+    if (!entities.length) return "- Collab health: no scored report uploads yet";
+    const parts = entities.map((e) => `${e.entity} (${Math.round((e.overall ?? 0) * 100)}%, ${e.period})`);
+    return `- Collab health (data quality of latest reports): ${parts.join(", ")}`;
+  } catch {
+    return "- Collab health: unavailable";
+  }
+}
+
+// High-level context; the figures other than collab health are still static
 async function getComplianceContext(userId: string): Promise<string> {
   const issues = await getIssuesContext(userId);
+  const collabHealth = await getCollabHealthLine();
   return (
     `
 Compliance landscape snapshot:
 - ~23 active issues across BPI partnerships
 - Key themes: duplicate records, SME definition mismatches, outdated thresholds
-- Collab health: BPI–Ayala Land (92%), BPI–Globe (78%), BPI–AC Energy (95%)
+${collabHealth}
 - Resolution rate ~87% (avg 2.3 days)
 - High priority: Customer ID reconciliation, unified SME classification, threshold updates
 `.trim() + issues
@@ -220,6 +253,7 @@ async function buildPrompt(opts: {
 
   const glossary = await getGlossaryBlock(userId);
   const comp = await getComplianceContext(userId);
+  const policyRules = await getPolicyRulesBlock();
 
   const formattedHistory = history
     .map((m) => `${m.role === "user" ? "Human" : "Assistant"}: ${m.content}`)
@@ -230,6 +264,7 @@ async function buildPrompt(opts: {
     "",
     comp,
     glossary,
+    policyRules,
     "",
     "Conversation so far:",
     formattedHistory || "(no prior messages)",
@@ -0,0 +1,149 @@
+// src/routes/customerDuplicates.ts
+import { Router, Request, Response } from "express";
+import { logger } from "../lib/config";
+import { requireAuth, requireRole, type AuthedReq } from "../lib/auth";
+import { resolvePiiAccess, type PiiReq } from "../lib/piiAccess";
+import { revealPiiFields } from "../lib/piiProtection";
+import { getReportSchema } from "../lib/reportSchemas";
+import { auditPiiUnmask } from "../services/piiProtection";
+import {
+  defaultThresholds,
+  dismissDuplicateCluster,
+  getDuplicateCluster,
+  listCustomerMerges,
+  listDuplicateClusters,
+  mergeDuplicateCluster,
+  scanForDuplicateCustomers,
+} from "../services/customerDuplicates";
+
+const router = Router();
+const customers = getReportSchema("customers");
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+function paging(req: Request) {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "50"), 10) || 50, 1), 500);
+  const offset = Math.max(parseInt(String(req.query.offset ?? "0"), 10) || 0, 0);
+  return { limit, offset };
+}
+
+function duplicateError(err: any, res: Response, fallback: string) {
+  if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "CLUSTER_NOT_FOUND" });
+  logger?.error?.(err);
+  return res.status(500).json({ ok: false, error: err?.message || fallback });
+}
+
+/**
+ * POST /api/reports/customers/duplicates/scan   (team leads)
+ * body: { nameSimilarity?: 0..1, minScore?: 0..1 } — defaults from CUSTOMER_MATCH_* env
+ * - matches customers across every entity on normalized name, email, phone and DOB
+ * - new clusters are stored for review and raised as "Duplicate Records" compliance issues
+ */
+router.post("/customers/duplicates/scan", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const thresholds = defaultThresholds();
+    for (const key of ["nameSimilarity", "minScore"] as const) {
+      if (req.body?.[key] === undefined) continue;
+      const value = Number(req.body[key]);
+      if (!(value > 0 && value <= 1)) return res.status(400).json({ ok: false, error: "INVALID_THRESHOLD", field: key });
+      thresholds[key] = value;
+    }
+    const result = await scanForDuplicateCustomers(thresholds);
+    return res.json({ ok: true, ...result });
+  } catch (err: any) {
+    return duplicateError(err, res, "DUPLICATE_SCAN_ERROR");
+  }
+});
+
+/**
+ * GET /api/reports/customers/duplicates?status=open|merged|dismissed|superseded&limit=&offset=
+ */
+router.get("/customers/duplicates", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const clusters = await listDuplicateClusters({ status: str(req.query.status), ...paging(req) });
+    return res.json({ ok: true, clusters });
+  } catch (err: any) {
+    return duplicateError(err, res, "CLUSTERS_FETCH_ERROR");
+  }
+});
+
+/**
+ * GET /api/reports/customers/duplicates/:id
+ * - the candidate records side by side, with match evidence and transaction counts per record
+ * - PII is masked; ?unmask=true&reason= shows it to PII_UNMASK_ROLES (audited)
+ */
+router.get("/customers/duplicates/:id", requireAuth, resolvePiiAccess, async (req: PiiReq, res: Response) => {
+  try {
+    const cluster = await getDuplicateCluster(String(req.params.id));
+    if (!cluster) return res.status(404).json({ ok: false, error: "CLUSTER_NOT_FOUND" });
+    const access = req.pii!;
+    await auditPiiUnmask(access, customers, {
+      resource: `duplicate-cluster:${cluster.id}`,
+      keys: cluster.records.filter((r: any) => r.record).map((r: any) => r.customerId),
+    });
+    cluster.records = cluster.records.map((r: any) => ({
+      ...r,
+      record: r.record && revealPiiFields(customers, r.record, access.unmask),
+    }));
+    return res.json({ ok: true, cluster });
+  } catch (err: any) {
+    return duplicateError(err, res, "CLUSTER_FETCH_ERROR");
+  }
+});
+
+/**
+ * POST /api/reports/customers/duplicates/:id/merge   (team leads)
+ * body: { masterCustomerId, note? }
+ * - keeps the master, fills its blank fields from the members of its entity, re-points their
+ *   transactions and removes them; members of other entities are kept (otherEntityCustomerIds)
+ * - the before/after state is kept in the merge audit trail and as row history versions
+ */
+router.post("/customers/duplicates/:id/merge", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const masterId = str(req.body?.masterCustomerId);
+    if (!masterId) return res.status(400).json({ ok: false, error: "MASTER_CUSTOMER_ID_REQUIRED" });
+    const result = await mergeDuplicateCluster(String(req.params.id), masterId, req.user?.uid ?? null, str(req.body?.note));
+    if (result.body.ok) result.body.master = revealPiiFields(customers, result.body.master, false);
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return duplicateError(err, res, "CLUSTER_MERGE_ERROR");
+  }
+});
+
+router.post("/customers/duplicates/:id/dismiss", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const result = await dismissDuplicateCluster(String(req.params.id), req.user?.uid ?? null, str(req.body?.note));
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return duplicateError(err, res, "CLUSTER_DISMISS_ERROR");
+  }
+});
+
+/**
+ * GET /api/reports/customers/merges?customerId=&limit=&offset=
+ * - merge audit trail, newest first; customerId matches the master or a merged-away record
+ * - record snapshots are masked unless ?unmask=true (PII_UNMASK_ROLES, audited)
+ */
+router.get("/customers/merges", requireAuth, resolvePiiAccess, async (req: PiiReq, res: Response) => {
+  try {
+    const access = req.pii!;
+    const merges = (await listCustomerMerges({ customerId: str(req.query.customerId), ...paging(req) })).map((m: any) => ({
+      ...m,
+      master_before: revealPiiFields(customers, m.master_before, access.unmask),
+      master_after: revealPiiFields(customers, m.master_after, access.unmask),
+      merged_records: m.merged_records.map((r: any) => revealPiiFields(customers, r, access.unmask)),
+    }));
+    await auditPiiUnmask(access, customers, {
+      resource: "customer-merges",
+      keys: merges.flatMap((m: any) => [m.master_customer_id, ...m.merged_customer_ids]),
+    });
+    return res.json({ ok: true, merges });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "MERGES_FETCH_ERROR" });
+  }
+});
+
+export { router as customerDuplicateRouter };
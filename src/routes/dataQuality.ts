@@ -0,0 +1,67 @@
+// src/routes/dataQuality.ts
+import { Router, Request, Response } from "express";
+import { logger } from "../lib/config";
+import { requireAuth } from "../lib/auth";
+import { findReportSchema } from "../lib/reportSchemas";
+import { getEntityQualitySnapshot, getQualityTrends, getUploadQuality } from "../services/dataQuality";
+
+const router = Router();
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+/**
+ * GET /api/reports/uploads/:id/quality
+ * - the upload's scorecard: completeness, validity, uniqueness, freshness and overall (0..1),
+ *   per-column scores with detected vs declared type, and the column profile
+ */
+router.get("/uploads/:id/quality", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const quality = await getUploadQuality(String(req.params.id));
+    if (!quality) return res.status(404).json({ ok: false, error: "QUALITY_NOT_FOUND" });
+    return res.json({ ok: true, quality });
+  } catch (err: any) {
+    if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "QUALITY_NOT_FOUND" });
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "QUALITY_FETCH_ERROR" });
+  }
+});
+
+/**
+ * GET /api/reports/quality/trends?entity=BPI&kind=transactions&from=2025-03-31&to=2025-12-31
+ * - per entity, one row per period (rows-weighted over the latest upload of each kind) with the
+ *   change in overall score from the previous period
+ */
+router.get("/quality/trends", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const kind = str(req.query.kind);
+    if (kind && !findReportSchema(kind)) return res.status(400).json({ ok: false, error: "UNKNOWN_REPORT_KIND" });
+    const entities = await getQualityTrends({
+      entity: str(req.query.entity),
+      kind,
+      from: str(req.query.from),
+      to: str(req.query.to),
+    });
+    return res.json({ ok: true, entities });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "QUALITY_TRENDS_ERROR" });
+  }
+});
+
+/**
+ * GET /api/reports/quality/entities
+ * - each entity's latest scored period (the dashboard's collaboration health)
+ */
+router.get("/quality/entities", requireAuth, async (_req: Request, res: Response) => {
+  try {
+    const entities = await getEntityQualitySnapshot();
+    return res.json({ ok: true, entities });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "QUALITY_FETCH_ERROR" });
+  }
+});
+
+export { router as dataQualityRouter };
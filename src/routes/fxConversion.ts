@@ -0,0 +1,55 @@
+// src/routes/fxConversion.ts
+import { Router, Request, Response } from "express";
+import { CONFIG, logger } from "../lib/config";
+import { requireAuth } from "../lib/auth";
+import { isValidDate } from "../lib/reportValidation";
+import { getTransactionTotals, listFxRates } from "../services/fxConversion";
+
+const router = Router();
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+function invalidDates(...values: (string | null)[]) {
+  return values.some((v) => v !== null && !isValidDate(v));
+}
+
+/**
+ * GET /api/reports/transactions/totals?entity=BPI&period=2025-06-30&from=2025-04-01&to=2025-06-30
+ * - per entity and period: transaction count, how many were converted, and amount_base summed in
+ *   the base currency (from/to filter on the transaction date)
+ * - `unconverted` lists, per currency, the transactions left out for lack of a rate
+ */
+router.get("/transactions/totals", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const from = str(req.query.from);
+    const to = str(req.query.to);
+    if (invalidDates(from, to)) return res.status(400).json({ ok: false, error: "INVALID_DATE" });
+    const result = await getTransactionTotals({ entity: str(req.query.entity), period: str(req.query.period), from, to });
+    return res.json({ ok: true, ...result });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "TOTALS_ERROR" });
+  }
+});
+
+/**
+ * GET /api/reports/fx/rates?currency=USD&from=2025-06-01&to=2025-06-30&limit=100
+ * - loaded rates, newest first (rate = base-currency units per 1 unit of currency)
+ */
+router.get("/fx/rates", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const from = str(req.query.from);
+    const to = str(req.query.to);
+    if (invalidDates(from, to)) return res.status(400).json({ ok: false, error: "INVALID_DATE" });
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+    const rates = await listFxRates({ currency: str(req.query.currency), from, to, limit });
+    return res.json({ ok: true, baseCurrency: CONFIG.FX.BASE_CURRENCY, rates });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "FX_RATES_ERROR" });
+  }
+});
+
+export { router as fxConversionRouter };
@@ -0,0 +1,133 @@
+// src/routes/integrityChecks.ts
+import { Router, Request, Response } from "express";
+import { logger } from "../lib/config";
+import { requireAuth, requireRole, type AuthedReq } from "../lib/auth";
+import { validateIntegrityCheckInput, type IntegrityCheckInput } from "../lib/integrityChecks";
+import {
+  createIntegrityCheck,
+  deleteIntegrityCheck,
+  listIntegrityChecks,
+  listUploadFindings,
+  runIntegrityChecks,
+  updateIntegrityCheck,
+} from "../services/integrityChecks";
+
+const router = Router();
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+function checkInput(body: any): Partial<IntegrityCheckInput> {
+  const targetColumns = body?.target_columns;
+  return {
+    name: str(body?.name) ?? undefined,
+    description: str(body?.description),
+    kind: str(body?.kind) ?? undefined,
+    column_name: str(body?.column_name) ?? undefined,
+    target: str(body?.target) ?? undefined,
+    target_columns: Array.isArray(targetColumns) ? targetColumns.map(String) : str(targetColumns) ? [str(targetColumns)!] : [],
+    same_entity: Boolean(body?.same_entity),
+    severity: str(body?.severity) as IntegrityCheckInput["severity"],
+    active: body?.active === undefined ? true : Boolean(body.active),
+  };
+}
+
+function checkError(err: any, res: Response, fallback: string) {
+  if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "CHECK_NOT_FOUND" });
+  if (err?.code === "23505") return res.status(409).json({ ok: false, error: "CHECK_NAME_TAKEN" });
+  logger?.error?.(err);
+  return res.status(500).json({ ok: false, error: err?.message || fallback });
+}
+
+/**
+ * GET /api/reports/integrity-checks?kind=
+ * - cross-report reference checks run after each upload (kind matches the checked report or the target)
+ */
+router.get("/integrity-checks", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const checks = await listIntegrityChecks({ kind: str(req.query.kind) });
+    return res.json({ ok: true, checks });
+  } catch (err: any) {
+    return checkError(err, res, "CHECKS_FETCH_ERROR");
+  }
+});
+
+/**
+ * POST /api/reports/integrity-checks   (team leads)
+ * body: { name, description?, kind, column_name, target, target_columns: [...], same_entity?, severity, active? }
+ * - target: a report kind or "users"; e.g. transactions.account_id → customers.customer_id
+ *
+ * PUT /api/reports/integrity-checks/:id and DELETE /api/reports/integrity-checks/:id (team leads)
+ * - deleting a check, or renaming it, resolves its open issues and reports { issuesResolved }
+ */
+router.post("/integrity-checks", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const input = checkInput(req.body);
+    const problems = validateIntegrityCheckInput(input);
+    if (problems.length) return res.status(400).json({ ok: false, error: "INVALID_CHECK", problems });
+
+    const check = await createIntegrityCheck(input as IntegrityCheckInput, req.user?.uid ?? null);
+    return res.status(201).json({ ok: true, check });
+  } catch (err: any) {
+    return checkError(err, res, "CHECK_CREATE_ERROR");
+  }
+});
+
+router.put("/integrity-checks/:id", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const input = checkInput(req.body);
+    const problems = validateIntegrityCheckInput(input);
+    if (problems.length) return res.status(400).json({ ok: false, error: "INVALID_CHECK", problems });
+
+    const updated = await updateIntegrityCheck(String(req.params.id), input as IntegrityCheckInput);
+    if (!updated) return res.status(404).json({ ok: false, error: "CHECK_NOT_FOUND" });
+    return res.json({ ok: true, ...updated });
+  } catch (err: any) {
+    return checkError(err, res, "CHECK_UPDATE_ERROR");
+  }
+});
+
+router.delete("/integrity-checks/:id", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const deleted = await deleteIntegrityCheck(String(req.params.id));
+    if (!deleted) return res.status(404).json({ ok: false, error: "CHECK_NOT_FOUND" });
+    return res.json({ ok: true, id: req.params.id, ...deleted });
+  } catch (err: any) {
+    return checkError(err, res, "CHECK_DELETE_ERROR");
+  }
+});
+
+/**
+ * POST /api/reports/integrity-checks/run   (team leads)
+ * body: { entity, period, kind? } — re-runs the checks without a new upload (e.g. after users change)
+ */
+router.post("/integrity-checks/run", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const entityCode = str(req.body?.entity);
+    const period = str(req.body?.period);
+    if (!entityCode || !period) return res.status(400).json({ ok: false, error: "ENTITY_AND_PERIOD_REQUIRED" });
+
+    const summary = await runIntegrityChecks({ uploadId: null, kind: str(req.body?.kind), entityCode, period });
+    return res.json({ ok: true, entityCode, period, ...summary });
+  } catch (err: any) {
+    return checkError(err, res, "CHECK_RUN_ERROR");
+  }
+});
+
+/**
+ * GET /api/reports/uploads/:id/integrity-findings
+ * - rows that failed a check when this upload ran them (superseded by later runs for the same entity/period)
+ */
+router.get("/uploads/:id/integrity-findings", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const findings = await listUploadFindings(String(req.params.id));
+    return res.json({ ok: true, uploadId: req.params.id, findings });
+  } catch (err: any) {
+    if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "UPLOAD_NOT_FOUND" });
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "FINDINGS_FETCH_ERROR" });
+  }
+});
+
+export { router as integrityCheckRouter };
@@ -0,0 +1,103 @@
+// src/routes/mappingProfiles.ts
+import { Router, Request, Response } from "express";
+import { logger } from "../lib/config";
+import { requireAuth, requireRole, type AuthedReq } from "../lib/auth";
+import { validateProfileInput, type MappingProfileInput } from "../lib/columnMapping";
+import {
+  createMappingProfile,
+  deleteMappingProfile,
+  getMappingProfile,
+  listMappingProfiles,
+  updateMappingProfile,
+} from "../services/mappingProfiles";
+
+const router = Router();
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+function profileInput(body: any): Partial<MappingProfileInput> {
+  return {
+    entity_code: str(body?.entity_code) ?? undefined,
+    kind: str(body?.kind),
+    name: str(body?.name) ?? undefined,
+    columns: body?.columns ?? {},
+    transforms: body?.transforms ?? {},
+  };
+}
+
+function profileError(err: any, res: Response, fallback: string) {
+  if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "PROFILE_NOT_FOUND" });
+  if (err?.code === "23505") return res.status(409).json({ ok: false, error: "PROFILE_EXISTS_FOR_ENTITY_KIND" });
+  logger?.error?.(err);
+  return res.status(500).json({ ok: false, error: err?.message || fallback });
+}
+
+/**
+ * GET /api/reports/mapping-profiles?entity=&kind=
+ * - header mappings and value transforms applied to uploads from each entity
+ */
+router.get("/mapping-profiles", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const profiles = await listMappingProfiles({ entity: str(req.query.entity), kind: str(req.query.kind) });
+    return res.json({ ok: true, profiles });
+  } catch (err: any) {
+    return profileError(err, res, "PROFILES_FETCH_ERROR");
+  }
+});
+
+router.get("/mapping-profiles/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const profile = await getMappingProfile(String(req.params.id));
+    if (!profile) return res.status(404).json({ ok: false, error: "PROFILE_NOT_FOUND" });
+    return res.json({ ok: true, profile });
+  } catch (err: any) {
+    return profileError(err, res, "PROFILE_FETCH_ERROR");
+  }
+});
+
+/**
+ * POST /api/reports/mapping-profiles   (team leads)
+ * body: { entity_code, kind?, name, columns: { "CustID": "customer_id" },
+ *         transforms: { "dob": [{ "op": "date", "format": "DD/MM/YYYY" }], "currency": ["currency"] } }
+ * - one profile per entity and kind; omit kind for a profile covering every report kind
+ */
+router.post("/mapping-profiles", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const input = profileInput(req.body);
+    const problems = validateProfileInput(input);
+    if (problems.length) return res.status(400).json({ ok: false, error: "INVALID_PROFILE", problems });
+
+    const profile = await createMappingProfile(input as MappingProfileInput, req.user?.uid ?? null);
+    return res.status(201).json({ ok: true, profile });
+  } catch (err: any) {
+    return profileError(err, res, "PROFILE_CREATE_ERROR");
+  }
+});
+
+router.put("/mapping-profiles/:id", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const input = profileInput(req.body);
+    const problems = validateProfileInput(input);
+    if (problems.length) return res.status(400).json({ ok: false, error: "INVALID_PROFILE", problems });
+
+    const profile = await updateMappingProfile(String(req.params.id), input as MappingProfileInput);
+    if (!profile) return res.status(404).json({ ok: false, error: "PROFILE_NOT_FOUND" });
+    return res.json({ ok: true, profile });
+  } catch (err: any) {
+    return profileError(err, res, "PROFILE_UPDATE_ERROR");
+  }
+});
+
+router.delete("/mapping-profiles/:id", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const deleted = await deleteMappingProfile(String(req.params.id));
+    if (!deleted) return res.status(404).json({ ok: false, error: "PROFILE_NOT_FOUND" });
+    return res.json({ ok: true, id: req.params.id });
+  } catch (err: any) {
+    return profileError(err, res, "PROFILE_DELETE_ERROR");
+  }
+});
+
+export { router as mappingProfileRouter };
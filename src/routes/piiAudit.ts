@@ -0,0 +1,54 @@
+// src/routes/piiAudit.ts
+import { Router, Request, Response } from "express";
+import { CONFIG, logger } from "../lib/config";
+import { requireAuth, requireRole } from "../lib/auth";
+import { piiColumns } from "../lib/piiProtection";
+import { listReportSchemas } from "../lib/reportSchemas";
+import { listPiiUnmaskAudit } from "../services/piiProtection";
+
+const router = Router();
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+/**
+ * GET /api/reports/pii/classification
+ * - PII columns per report kind (encrypted at rest, masked in responses) and the roles allowed to unmask
+ */
+router.get("/pii/classification", requireAuth, (_req: Request, res: Response) => {
+  const kinds = listReportSchemas()
+    .map((s) => ({
+      kind: s.kind,
+      table: s.table,
+      columns: piiColumns(s).map((c) => ({ column: c.column, header: c.header, class: c.pii })),
+    }))
+    .filter((k) => k.columns.length);
+  return res.json({ ok: true, kinds, unmaskRoles: CONFIG.PII.UNMASK_ROLES });
+});
+
+/**
+ * GET /api/reports/pii/unmask-audit?userId=&key=&since=2025-07-01&limit=&offset=   (team leads)
+ * - who saw which records unmasked, where, and the reason they gave; newest first
+ */
+router.get("/pii/unmask-audit", requireRole("teamLead"), async (req: Request, res: Response) => {
+  try {
+    const since = str(req.query.since);
+    if (since && Number.isNaN(Date.parse(since))) return res.status(400).json({ ok: false, error: "INVALID_SINCE" });
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "100"), 10) || 100, 1), 1000);
+    const offset = Math.max(parseInt(String(req.query.offset ?? "0"), 10) || 0, 0);
+    const entries = await listPiiUnmaskAudit({
+      userId: str(req.query.userId),
+      key: str(req.query.key),
+      since,
+      limit,
+      offset,
+    });
+    return res.json({ ok: true, entries });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "PII_AUDIT_FETCH_ERROR" });
+  }
+});
+
+export { router as piiAuditRouter };
@@ -0,0 +1,350 @@
+// src/routes/policies.ts
+import { Router, Request, Response } from "express";
+import { logger } from "../lib/config";
+import { requireAuth, requireRole, type AuthedReq } from "../lib/auth";
+import { isValidDate } from "../lib/reportValidation";
+import { compileCondition, conditionKinds, listConditionColumns } from "../lib/ruleConditions";
+import {
+  createRuleCondition,
+  deleteRuleCondition,
+  listPolicyViolations,
+  listRuleConditions,
+  runPolicyConditions,
+  updateRuleCondition,
+  type RuleConditionInput,
+} from "../services/policyConditions";
+import { diffPolicyDocument, diffPolicySeriesSince, getRuleSource, listPolicySeries } from "../services/policyDocuments";
+import {
+  getPolicyRule,
+  listPolicyRules,
+  REVIEW_STATES,
+  reviewPolicyRules,
+  updatePolicyRule,
+  type ReviewAction,
+  type ReviewState,
+} from "../services/policyRules";
+
+const router = Router();
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+function paging(req: Request) {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "50"), 10) || 50, 1), 500);
+  const offset = Math.max(parseInt(String(req.query.offset ?? "0"), 10) || 0, 0);
+  return { limit, offset };
+}
+
+function ruleError(err: any, res: Response, fallback: string) {
+  if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "RULE_NOT_FOUND" });
+  logger?.error?.(err);
+  return res.status(500).json({ ok: false, error: err?.message || fallback });
+}
+
+// Only the fields present in the body, so PUT can change one of them
+function conditionInput(body: any): RuleConditionInput {
+  const input: RuleConditionInput = {};
+  if (body?.kind !== undefined) input.kind = str(body.kind) ?? "";
+  if (body?.expression !== undefined) input.expression = typeof body.expression === "string" ? body.expression : "";
+  if (body?.description !== undefined) input.description = str(body.description);
+  if (body?.severity !== undefined) input.severity = str(body.severity);
+  if (body?.active !== undefined) input.active = Boolean(body.active);
+  return input;
+}
+
+function conditionError(err: any, res: Response, fallback: string) {
+  if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "CONDITION_NOT_FOUND" });
+  logger?.error?.(err);
+  return res.status(500).json({ ok: false, error: err?.message || fallback });
+}
+
+const MAX_BULK_RULES = 5000;
+const DEFAULT_CONTEXT_CHARS = 400;
+const MAX_CONTEXT_CHARS = 5000;
+
+/**
+ * GET /api/policies/rules?entity=BPI&tag=kyc&severity=High&source_file_id=&state=approved&q=&limit=&offset=
+ * - policy rules with their review state, policy title and version
+ */
+router.get("/rules", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const state = str(req.query.state);
+    if (state && !REVIEW_STATES.includes(state as ReviewState)) {
+      return res.status(400).json({ ok: false, error: "INVALID_REVIEW_STATE", allowed: REVIEW_STATES });
+    }
+    const result = await listPolicyRules({
+      entity: str(req.query.entity),
+      tag: str(req.query.tag),
+      severity: str(req.query.severity),
+      sourceFileId: str(req.query.source_file_id),
+      state: state as ReviewState | null,
+      search: str(req.query.q),
+      ...paging(req),
+    });
+    return res.json({ ok: true, ...result });
+  } catch (err: any) {
+    return ruleError(err, res, "RULES_FETCH_ERROR");
+  }
+});
+
+/**
+ * POST /api/policies/rules/bulk   (team leads)
+ * body: { action: "submit" | "approve" | "reject" | "retire", ids?: string[], source_file_id?: string, note? }
+ * - applies the action to the listed rules, or to every rule of a source file; rules whose state
+ *   does not allow it are returned under `skipped`
+ */
+router.post("/rules/bulk", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const action = str(req.body?.action);
+    if (action !== "submit" && action !== "approve" && action !== "reject" && action !== "retire") {
+      return res.status(400).json({ ok: false, error: "INVALID_ACTION", allowed: ["submit", "approve", "reject", "retire"] });
+    }
+    const ids = req.body?.ids;
+    const sourceFileId = str(req.body?.source_file_id);
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.length || ids.some((id: unknown) => typeof id !== "string"))) {
+      return res.status(400).json({ ok: false, error: "INVALID_IDS" });
+    }
+    if (!ids && !sourceFileId) return res.status(400).json({ ok: false, error: "IDS_OR_SOURCE_FILE_REQUIRED" });
+    if (ids && ids.length > MAX_BULK_RULES) return res.status(400).json({ ok: false, error: "TOO_MANY_RULES", max: MAX_BULK_RULES });
+
+    const result = await reviewPolicyRules({ ids, sourceFileId }, action, req.user?.uid ?? null, str(req.body?.note));
+    return res.json({ ok: true, ...result });
+  } catch (err: any) {
+    return ruleError(err, res, "RULES_REVIEW_ERROR");
+  }
+});
+
+/**
+ * GET /api/policies/rules/:id
+ * - the rule with its review log
+ */
+router.get("/rules/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const rule = await getPolicyRule(String(req.params.id));
+    if (!rule) return res.status(404).json({ ok: false, error: "RULE_NOT_FOUND" });
+    return res.json({ ok: true, rule });
+  } catch (err: any) {
+    return ruleError(err, res, "RULE_FETCH_ERROR");
+  }
+});
+
+/**
+ * PATCH /api/policies/rules/:id
+ * body: any of { rule_code, rule_text, citations[], tags[], severity, effective_date }
+ * - editing an approved rule sends it back to draft; retired rules cannot be edited
+ */
+router.patch("/rules/:id", requireAuth, async (req: AuthedReq, res: Response) => {
+  try {
+    const patch = req.body && typeof req.body === "object" && !Array.isArray(req.body) ? req.body : {};
+    const result = await updatePolicyRule(String(req.params.id), patch, req.user?.uid ?? null);
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return ruleError(err, res, "RULE_UPDATE_ERROR");
+  }
+});
+
+async function reviewOne(req: AuthedReq, res: Response, action: ReviewAction) {
+  try {
+    const id = String(req.params.id);
+    const result = await reviewPolicyRules({ ids: [id] }, action, req.user?.uid ?? null, str(req.body?.note));
+    const skipped = result.skipped[0];
+    if (skipped?.reason === "RULE_NOT_FOUND") return res.status(404).json({ ok: false, error: "RULE_NOT_FOUND" });
+    if (skipped) return res.status(409).json({ ok: false, error: "INVALID_TRANSITION", review_state: skipped.review_state, action });
+    return res.json({ ok: true, rule: await getPolicyRule(id), superseded: result.superseded });
+  } catch (err: any) {
+    return ruleError(err, res, "RULE_REVIEW_ERROR");
+  }
+}
+
+/**
+ * POST /api/policies/rules/:id/submit                    draft → under_review
+ * POST /api/policies/rules/:id/approve   (team leads)    under_review → approved
+ * POST /api/policies/rules/:id/reject    (team leads)    under_review | approved → draft
+ * POST /api/policies/rules/:id/retire    (team leads)    draft | under_review | approved → retired
+ * POST /api/policies/rules/:id/reopen    (team leads)    retired → draft
+ * body: { note? }
+ * - approving a rule retires the approved rule it replaces from the previous policy version
+ */
+router.post("/rules/:id/submit", requireAuth, (req: AuthedReq, res: Response) => reviewOne(req, res, "submit"));
+router.post("/rules/:id/approve", requireRole("teamLead"), (req: AuthedReq, res: Response) => reviewOne(req, res, "approve"));
+router.post("/rules/:id/reject", requireRole("teamLead"), (req: AuthedReq, res: Response) => reviewOne(req, res, "reject"));
+router.post("/rules/:id/retire", requireRole("teamLead"), (req: AuthedReq, res: Response) => reviewOne(req, res, "retire"));
+router.post("/rules/:id/reopen", requireRole("teamLead"), (req: AuthedReq, res: Response) => reviewOne(req, res, "reopen"));
+
+/**
+ * GET /api/policies/rules/:id/source?context=400
+ * - the rule, the exact text it was extracted from, `context` characters of surrounding text
+ *   either side, its page range and section. `source` is null when the rule has no anchor.
+ */
+router.get("/rules/:id/source", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const context = Number(req.query.context ?? DEFAULT_CONTEXT_CHARS);
+    if (!Number.isInteger(context) || context < 0) return res.status(400).json({ ok: false, error: "INVALID_CONTEXT" });
+    const found = await getRuleSource(String(req.params.id), Math.min(context, MAX_CONTEXT_CHARS));
+    if (!found) return res.status(404).json({ ok: false, error: "RULE_NOT_FOUND" });
+    return res.json({ ok: true, ...found });
+  } catch (err: any) {
+    if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "RULE_NOT_FOUND" });
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "RULE_SOURCE_ERROR" });
+  }
+});
+
+/**
+ * GET /api/policies/series?entity=BPI
+ * - policy documents grouped by entity and title, each with its versions (newest first)
+ */
+router.get("/series", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const series = await listPolicySeries({ entity: str(req.query.entity) });
+    return res.json({ ok: true, series });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "POLICY_SERIES_ERROR" });
+  }
+});
+
+/**
+ * GET /api/policies/series/:id/diff?since=2025-07-01
+ * - what changed since a date: the version in force then against the latest version
+ */
+router.get("/series/:id/diff", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const since = str(req.query.since);
+    if (!since || !isValidDate(since)) return res.status(400).json({ ok: false, error: "INVALID_DATE" });
+    const result = await diffPolicySeriesSince(String(req.params.id), since);
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "POLICY_SERIES_NOT_FOUND" });
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "POLICY_DIFF_ERROR" });
+  }
+});
+
+/**
+ * GET /api/policies/documents/:id/diff?against=<uploaded_file_id>
+ * - added, removed and modified rules (with word-level changes) against another version of the
+ *   same series; defaults to the previous version
+ */
+router.get("/documents/:id/diff", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = await diffPolicyDocument(String(req.params.id), str(req.query.against));
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "POLICY_DOCUMENT_NOT_FOUND" });
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "POLICY_DIFF_ERROR" });
+  }
+});
+
+/**
+ * GET /api/policies/conditions?kind=transactions
+ * - conditions attached to policy rules, with the rule's code and review state
+ */
+router.get("/conditions", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const conditions = await listRuleConditions({ kind: str(req.query.kind) });
+    return res.json({ ok: true, conditions });
+  } catch (err: any) {
+    return conditionError(err, res, "CONDITIONS_FETCH_ERROR");
+  }
+});
+
+/**
+ * POST /api/policies/conditions/validate
+ * body: { kind, expression }
+ * - whether the expression compiles, and the columns a condition over `kind` can use
+ */
+router.post("/conditions/validate", requireAuth, (req: Request, res: Response) => {
+  const kind = str(req.body?.kind) ?? "";
+  const { problems } = compileCondition(kind, typeof req.body?.expression === "string" ? req.body.expression : "");
+  return res.json({ ok: true, valid: !problems.length, problems, kinds: conditionKinds(), columns: listConditionColumns(kind) });
+});
+
+/**
+ * POST /api/policies/conditions/run   (team leads)
+ * body: { entity, period, kind? } — re-runs the conditions without a new upload (e.g. after approving a rule)
+ */
+router.post("/conditions/run", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const entityCode = str(req.body?.entity);
+    const period = str(req.body?.period);
+    if (!entityCode || !period) return res.status(400).json({ ok: false, error: "ENTITY_AND_PERIOD_REQUIRED" });
+
+    const summary = await runPolicyConditions({ uploadId: null, kind: str(req.body?.kind), entityCode, period });
+    return res.json({ ok: true, entityCode, period, ...summary });
+  } catch (err: any) {
+    return conditionError(err, res, "CONDITION_RUN_ERROR");
+  }
+});
+
+/**
+ * PUT /api/policies/conditions/:id      (team leads)
+ * DELETE /api/policies/conditions/:id   (team leads)
+ * body (PUT): any of { kind, expression, description, severity, active }
+ * DELETE resolves the condition's open issues and returns { ok, issuesResolved }.
+ */
+router.put("/conditions/:id", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const result = await updateRuleCondition(String(req.params.id), conditionInput(req.body));
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return conditionError(err, res, "CONDITION_UPDATE_ERROR");
+  }
+});
+
+router.delete("/conditions/:id", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const deleted = await deleteRuleCondition(String(req.params.id));
+    if (!deleted) return res.status(404).json({ ok: false, error: "CONDITION_NOT_FOUND" });
+    return res.json({ ok: true, ...deleted });
+  } catch (err: any) {
+    return conditionError(err, res, "CONDITION_DELETE_ERROR");
+  }
+});
+
+/**
+ * GET /api/policies/rules/:id/conditions
+ * POST /api/policies/rules/:id/conditions   (team leads)
+ * body (POST): { kind, expression, description?, severity?, active? }
+ *   e.g. { kind: "transactions", expression: "amount > 500000 and txn_type = 'cash' requires counterparty" }
+ * - conditions run after each upload of `kind` once the rule is approved; severity defaults to the rule's
+ */
+router.get("/rules/:id/conditions", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const conditions = await listRuleConditions({ ruleId: String(req.params.id) });
+    return res.json({ ok: true, conditions });
+  } catch (err: any) {
+    return ruleError(err, res, "CONDITIONS_FETCH_ERROR");
+  }
+});
+
+router.post("/rules/:id/conditions", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const result = await createRuleCondition(String(req.params.id), conditionInput(req.body), req.user?.uid ?? null);
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return ruleError(err, res, "CONDITION_CREATE_ERROR");
+  }
+});
+
+/**
+ * GET /api/policies/violations?upload_id=&rule_id=
+ * - rows that violated a rule condition at its latest run, with the values the condition read
+ */
+router.get("/violations", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const uploadId = str(req.query.upload_id);
+    const ruleId = str(req.query.rule_id);
+    if (!uploadId && !ruleId) return res.status(400).json({ ok: false, error: "UPLOAD_OR_RULE_REQUIRED" });
+    const violations = await listPolicyViolations({ uploadId, ruleId });
+    return res.json({ ok: true, violations });
+  } catch (err: any) {
+    if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "UPLOAD_NOT_FOUND" });
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "VIOLATIONS_FETCH_ERROR" });
+  }
+});
+
+export { router as policyRouter };
@@ -0,0 +1,136 @@
+// src/routes/reportHistory.ts
+import { Router, Response } from "express";
+import { logger } from "../lib/config";
+import { requireAuth } from "../lib/auth";
+import { resolvePiiAccess, type PiiReq } from "../lib/piiAccess";
+import { piiColumns, revealPii, revealPiiFields } from "../lib/piiProtection";
+import { findReportSchema } from "../lib/reportSchemas";
+import { auditPiiUnmask } from "../services/piiProtection";
+import { diffPeriods, getKeyHistory, getRecordsAsOf } from "../services/reportHistory";
+
+const router = Router();
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+// Every route here needs a session and masks PII columns; ?unmask=true&reason= shows them to
+// PII_UNMASK_ROLES (audited).
+
+/**
+ * GET /api/reports/history/:kind/:key
+ * - every version of one record, oldest first, with validity window, source file and uploader
+ */
+router.get("/history/:kind/:key", requireAuth, resolvePiiAccess, async (req: PiiReq, res: Response) => {
+  try {
+    const schema = findReportSchema(String(req.params.kind));
+    if (!schema) return res.status(404).json({ ok: false, error: "UNKNOWN_REPORT_KIND" });
+
+    const versions = await getKeyHistory(schema, String(req.params.key));
+    if (!versions.length) return res.status(404).json({ ok: false, error: "NO_HISTORY" });
+    const access = req.pii!;
+    await auditPiiUnmask(access, schema, { resource: "history", keys: [String(req.params.key)] });
+    return res.json({
+      ok: true,
+      kind: schema.kind,
+      key: req.params.key,
+      versions: versions.map((v) => ({ ...v, data: revealPiiFields(schema, v.data, access.unmask) })),
+    });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "HISTORY_FETCH_ERROR" });
+  }
+});
+
+/**
+ * GET /api/reports/as-of/:kind?at=2025-07-15&period=2025-06-30&entity=BPI&key=&limit=&offset=
+ * - `at`: records as they stood at that date/time
+ * - `period`: records as last reported for that period
+ */
+router.get("/as-of/:kind", requireAuth, resolvePiiAccess, async (req: PiiReq, res: Response) => {
+  try {
+    const schema = findReportSchema(String(req.params.kind));
+    if (!schema) return res.status(404).json({ ok: false, error: "UNKNOWN_REPORT_KIND" });
+
+    const at = str(req.query.at);
+    if (at && Number.isNaN(Date.parse(at))) return res.status(400).json({ ok: false, error: "INVALID_AT" });
+
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "500"), 10) || 500, 1), 5000);
+    const offset = Math.max(parseInt(String(req.query.offset ?? "0"), 10) || 0, 0);
+    const records = await getRecordsAsOf(schema, {
+      at,
+      period: str(req.query.period),
+      entity: str(req.query.entity),
+      key: str(req.query.key),
+      limit,
+      offset,
+    });
+    const access = req.pii!;
+    await auditPiiUnmask(access, schema, { resource: "as-of", keys: records.map((r) => r.key_value) });
+    return res.json({
+      ok: true,
+      kind: schema.kind,
+      at,
+      period: str(req.query.period),
+      records: records.map((r) => ({ ...r, data: revealPiiFields(schema, r.data, access.unmask) })),
+    });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "AS_OF_FETCH_ERROR" });
+  }
+});
+
+/**
+ * GET /api/reports/diff/:kind?entity=BPI&from=2025-06-30&to=2025-09-30&fields=score
+ * - records added, removed or changed between two periods for an entity
+ */
+router.get("/diff/:kind", requireAuth, resolvePiiAccess, async (req: PiiReq, res: Response) => {
+  try {
+    const schema = findReportSchema(String(req.params.kind));
+    if (!schema) return res.status(404).json({ ok: false, error: "UNKNOWN_REPORT_KIND" });
+
+    const entity = str(req.query.entity);
+    const from = str(req.query.from);
+    const to = str(req.query.to);
+    if (!entity || !from || !to) {
+      return res.status(400).json({ ok: false, error: "ENTITY_FROM_TO_REQUIRED" });
+    }
+
+    const fields = (str(req.query.fields) ?? "").split(",").map((f) => f.trim()).filter(Boolean);
+    const unknown = fields.filter((f) => !schema.columns.some((c) => c.column === f));
+    if (unknown.length) return res.status(400).json({ ok: false, error: "UNKNOWN_FIELDS", fields: unknown });
+
+    const access = req.pii!;
+    const pii = new Map(piiColumns(schema).map((c) => [c.column, c.pii]));
+    const changes = (await diffPeriods(schema, { entity, from, to, fields })).map((c) => ({
+      ...c,
+      fields: c.fields.map((f) => {
+        const cls = pii.get(f.field);
+        return cls ? { ...f, from: revealPii(cls, f.from, access.unmask), to: revealPii(cls, f.to, access.unmask) } : f;
+      }),
+    }));
+    await auditPiiUnmask(access, schema, {
+      resource: "diff",
+      keys: changes.filter((c) => c.fields.some((f) => pii.has(f.field))).map((c) => c.key),
+      fields: [...new Set(changes.flatMap((c) => c.fields.map((f) => f.field).filter((f) => pii.has(f))))],
+    });
+    return res.json({
+      ok: true,
+      kind: schema.kind,
+      entity,
+      from,
+      to,
+      summary: {
+        added: changes.filter((c) => c.change === "added").length,
+        removed: changes.filter((c) => c.change === "removed").length,
+        changed: changes.filter((c) => c.change === "changed").length,
+      },
+      changes,
+    });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "DIFF_ERROR" });
+  }
+});
+
+export { router as reportHistoryRouter };
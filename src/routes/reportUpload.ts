@@ -1,486 +1,316 @@
 // src/routes/reportUpload.ts
 import { Router, Request, Response } from "express";
 import multer from "multer";
-import crypto from "crypto";
-import { parse } from "csv-parse/sync";
-import pdfParse from "pdf-parse";
-import { supabase } from "../lib/supabase"; // if you store raw files; safe to keep even if unused
-import { query } from "../db";              // your PG helper: (sql: string, params?: any[]) => Promise<{ rows: any[] }>
-import { logger } from "../lib/config";
+import busboy from "busboy";
+import { query } from "../db"; // your PG helper: (sql: string, params?: any[]) => Promise<{ rows: any[] }>
+import { CONFIG, logger } from "../lib/config";
+import { buildRejectionCsv } from "../lib/reportValidation";
+import { initializeReportTables } from "../lib/reportTables";
+import { identifyUser, requireRole, type AuthedReq } from "../lib/auth";
+import { resolvePiiAccess, type PiiReq } from "../lib/piiAccess";
+import { revealRawPii } from "../lib/piiProtection";
+import { findReportSchema } from "../lib/reportSchemas";
+import { auditPiiUnmask, encryptStoredPii } from "../services/piiProtection";
+import { prepareFxConversion } from "../services/fxConversion";
+import { revertUpload } from "../services/reportIngestion";
+import { processReportUpload } from "../services/reportUploadPipeline";
+import { ingestCsvStream } from "../services/reportStreamIngestion";
+import { processReportBatch } from "../services/reportBatchUpload";
 
-// If you already have an extractor, adapt it here:
-let hasExternalExtractor = false;
-let externalExtractor: null | ((text: string) => Promise<ExtractedRule[]>) = null;
-
-try {
-  // Example: either glossaryExtractor exposes createGlossaryExtractor().extractPolicyRules
-  // or backgroundGlossaryProcessor exposes a static extraction util.
-  // Wire whichever exists in your codebase.
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const { createGlossaryExtractor } = require("../services/glossaryExtractor");
-  const gx = createGlossaryExtractor?.();
-  if (gx?.extractPolicyRules) {
-    hasExternalExtractor = true;
-    externalExtractor = async (text: string) => {
-      const out = await gx.extractPolicyRules(text);
-      // normalize shape below if needed
-      return Array.isArray(out) ? out : [];
-    };
-  }
-} catch {
-  /* no-op: we’ll fall back to a simple splitter */
-}
-
-// ------------------ Types & helpers ------------------
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 50 * 1024 * 1024 }, // 50MB
 });
 
-type ReportKind = "compliance" | "customers" | "transactions" | "risk";
-
-type ExtractedRule = {
-  rule_code?: string | null;
-  rule_text: string;
-  citations?: string[] | null;
-  tags?: string[] | null;
-  severity?: string | null;
-  effective_date?: string | null;  // YYYY-MM-DD if present
-  confidence?: number | null;      // 0..1
-};
-
-function sha256(buf: Buffer) {
-  return crypto.createHash("sha256").update(buf).digest("hex");
-}
+// ------------------ Route ------------------
+// PII stored before encryption was enabled is sealed once the tables exist, and transactions
+// loaded before FX conversion get their base-currency amounts
+initializeReportTables().then(encryptStoredPii).then(prepareFxConversion);
 
-function toStr(v: unknown) { return v === null || v === undefined ? "" : String(v); }
-function toNum(v: unknown) {
-  if (v === null || v === undefined || v === "") return null;
-  const n = Number(v);
-  return Number.isFinite(n) ? n : null;
-}
-function cleanHeaderKeys<T extends Record<string, any>>(row: T): T {
-  const out: Record<string, any> = {};
-  Object.keys(row).forEach((k) => {
-    const nk = k.replace(/^\uFEFF/, "").trim();
-    out[nk] = (row as any)[k];
-  });
-  return out as T;
-}
+const router = Router();
 
-function detectCsvKind(filename: string): { kind: ReportKind; entityCode: string; period: string } {
-  const base = filename.trim();
-  const m = base.match(
-    /^(.*?)__(compliance_report|customer_data_report|transaction_report|risk_assessment_report)__(\d{4}-\d{2}-\d{2})\.csv$/i
-  );
-  if (!m) {
-    throw new Error(`CSV filename should match "<entity>__<type>__YYYY-MM-DD.csv": ${filename}`);
-  }
-  const entityCode = m[1];
-  const type = m[2].toLowerCase();
-  const period = m[3];
-  const kind: ReportKind =
-    type === "compliance_report" ? "compliance" :
-    type === "customer_data_report" ? "customers" :
-    type === "transaction_report" ? "transactions" : "risk";
-  return { kind, entityCode, period };
-}
+/**
+ * POST /api/reports/upload   (multipart/form-data, field: "file")
+ * - CSVs → ingested to their respective tables; kind/entity/period come from the header row and
+ *   Entity/Period columns (filename "<entity>__<type>__YYYY-MM-DD.csv" is only a hint)
+ * - optional form fields kind, entity, period override detection
+ * - FX rate files (Date, Currency, Rate) need no Entity/Period: they are filed under GROUP for their
+ *   latest rate date
+ * - XLSX/XLS workbooks → each sheet routed to its report kind by sheet name or header row
+ * - PDFs → stored in uploaded_files + rules extracted by Gemini (bullet-line splitter when it is
+ *   unavailable) → policy_rules, linked to the previous version of the same policy (entity + title,
+ *   "<entity>__policies__<title>__YYYY-MM-DD.pdf")
+ * - ZIP packages → each CSV/workbook/PDF inside ingested as above (size, entry-count and path checks
+ *   first); entries are linked to the archive in uploaded_file_members and `coverage` lists the
+ *   report kinds missing for each entity/period (per its submission schedule, if it has one)
+ * - CSV rows failing validation are skipped and kept for the rejection report; Status/Severity
+ *   values outside the expected lists are stored as sent and listed under unexpectedValues
+ * - ?dryRun=true → parse, validate and report what would change without writing anything
+ * - every real upload runs in one transaction and is recorded in the report_uploads ledger
+ * - idempotent: a file already ingested, or a repeated Idempotency-Key header, returns the original
+ *   result (replayed: true); ?force=true re-ingests, replacing a PDF's earlier rules
+ * - Idempotency-Key needs a session (401 otherwise); 409 IDEMPOTENCY_KEY_IN_PROGRESS while the
+ *   first request with that key is still ingesting
+ */
+router.post("/upload", identifyUser, upload.single("file"), async (req: AuthedReq, res: Response) => {
+  try {
+    if (!req.file) return res.status(400).json({ ok: false, error: "NO_FILE" });
 
-function detectPdfMeta(filename: string) {
-  // Preferred: "<entity>__policies__YYYY-MM-DD.pdf"
-  const base = filename.trim();
-  const m = base.match(/^(.*?)__policies__(\d{4}-\d{2}-\d{2})\.pdf$/i);
-  if (m) {
-    return { entityCode: m[1], period: m[2], title: base.replace(/\.pdf$/i, "") };
+    const dryRun = String(req.query.dryRun ?? "").toLowerCase() === "true";
+    const field = (name: string) => {
+      const v = req.body?.[name];
+      return typeof v === "string" && v.trim() ? v.trim() : null;
+    };
+    const result = await processReportUpload(
+      {
+        buffer: req.file.buffer,
+        originalName: req.file.originalname || "upload.bin",
+        mime: req.file.mimetype || "application/octet-stream",
+        size: req.file.size,
+      },
+      {
+        userId: req.user?.uid ?? null,
+        dryRun,
+        overrides: { kind: field("kind"), entity: field("entity"), period: field("period") },
+        idempotencyKey: req.get("Idempotency-Key")?.trim() || null,
+        force: String(req.query.force ?? field("force") ?? "").toLowerCase() === "true",
+      }
+    );
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "UPLOAD_INGEST_ERROR" });
   }
-  return { entityCode: null as string | null, period: null as string | null, title: base.replace(/\.pdf$/i, "") };
-}
+});
 
-// Simple fallback extractor (if you haven’t wired your own yet).
-// Splits by lines starting with a bullet/number and keeps 1–5 sentence chunks.
-async function fallbackExtractPolicyRules(text: string): Promise<ExtractedRule[]> {
-  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
-  const chunks: string[] = [];
-  let curr = "";
-  for (const l of lines) {
-    if (/^(\*|-|•|\d+[.)])\s+/.test(l) && curr) {
-      chunks.push(curr.trim());
-      curr = l;
-    } else {
-      curr = curr ? `${curr} ${l}` : l;
+/**
+ * POST /api/reports/upload/batch   (multipart/form-data, field: "files", repeated)
+ * - up to MAX_BATCH_FILES CSVs / workbooks / PDFs / ZIPs, each ingested exactly as POST /upload would
+ * - processingMode=parallel (default) | sequential, as a query param or form field
+ * - kind/entity/period form fields apply to every file; ?dryRun=true and ?force=true as for /upload
+ * - a file that fails is listed in failedFiles; the rest are still ingested
+ */
+router.post(
+  "/upload/batch",
+  identifyUser,
+  upload.array("files", CONFIG.PROCESSING.MAX_BATCH_FILES),
+  async (req: AuthedReq, res: Response) => {
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (!files.length) return res.status(400).json({ ok: false, error: "NO_FILES" });
+
+      const field = (name: string) => {
+        const v = req.query[name] ?? req.body?.[name];
+        return typeof v === "string" && v.trim() ? v.trim() : null;
+      };
+      const mode = (field("processingMode") ?? "parallel").toLowerCase();
+      if (mode !== "parallel" && mode !== "sequential") {
+        return res.status(400).json({ ok: false, error: "INVALID_PROCESSING_MODE", allowed: ["parallel", "sequential"] });
+      }
+      const dryRun = String(req.query.dryRun ?? "").toLowerCase() === "true";
+
+      const batch = await processReportBatch(
+        files.map((f) => ({
+          buffer: f.buffer,
+          originalName: f.originalname || "upload.bin",
+          mime: f.mimetype || "application/octet-stream",
+          size: f.size,
+        })),
+        {
+          userId: req.user?.uid ?? null,
+          dryRun,
+          overrides: { kind: field("kind"), entity: field("entity"), period: field("period") },
+          force: field("force")?.toLowerCase() === "true",
+        },
+        mode
+      );
+      return res
+        .status(batch.successfulFiles ? 200 : 400)
+        .json({ ok: batch.successfulFiles > 0, ...(dryRun ? { dryRun: true } : {}), ...batch });
+    } catch (err: any) {
+      logger?.error?.(err);
+      return res.status(500).json({ ok: false, error: err?.message || "BATCH_UPLOAD_ERROR" });
     }
   }
-  if (curr) chunks.push(curr.trim());
-  const rules = chunks
-    .map((t, i) => t.replace(/\s+/g, " ").trim())
-    .filter((t) => t.length >= 20 && /[.]/.test(t))
-    .slice(0, 200) // safety cap
-    .map((t, i) => ({
-      rule_code: `R-${String(i + 1).padStart(3, "0")}`,
-      rule_text: t,
-      citations: [],
-      tags: [],
-      severity: null,
-      effective_date: null,
-      confidence: 0.6,
-    }));
-  return rules;
-}
+);
 
-async function extractPolicyRules(text: string): Promise<ExtractedRule[]> {
-  if (hasExternalExtractor && externalExtractor) {
-    try { return await externalExtractor(text); } catch (e) { logger?.warn?.(`external extractor failed: ${e}`); }
-  }
-  return fallbackExtractPolicyRules(text);
-}
-
-// ------------------ CSV ingestion (unchanged from your previous version) ------------------
-async function batchInsert(
-  textBuilder: (batchSize: number) => string,
-  rows: any[],
-  valuesBuilder: (r: any) => any[],
-  batchSize = 1000
-) {
-  for (let i = 0; i < rows.length; i += batchSize) {
-    const chunk = rows.slice(i, i + batchSize);
-    if (!chunk.length) continue;
-    const sql = textBuilder(chunk.length);
-    const params: any[] = [];
-    chunk.forEach((r) => params.push(...valuesBuilder(r)));
-    await query(sql, params);
+/**
+ * POST /api/reports/upload/stream   (multipart/form-data, field: "file"; CSV only)
+ * - for files past the 50MB in-memory cap (up to REPORT_STREAM_MAX_BYTES, default 5GB)
+ * - the file is spooled to disk and hashed first; rows are then parsed, validated and upserted in
+ *   batches, in one transaction
+ * - kind/entity/period overrides: query params, or form fields sent BEFORE the file part
+ * - ?dryRun=true → same report as /upload?dryRun=true, nothing written or stored
+ * - Idempotency-Key / ?force=true as for /upload
+ */
+router.post("/upload/stream", identifyUser, (req: AuthedReq, res: Response) => {
+  let bb: busboy.Busboy;
+  try {
+    bb = busboy({ headers: req.headers, limits: { files: 1, fileSize: CONFIG.PROCESSING.STREAM_MAX_FILE_SIZE } });
+  } catch {
+    return res.status(400).json({ ok: false, error: "EXPECTED_MULTIPART" });
   }
-}
-
-async function insertCompliance(rows: any[], sourceFile: string) {
-  const normalized = rows.map(cleanHeaderKeys).map((r) => ({
-    check_id: toStr(r["Check_ID"]),
-    policy: toStr(r["Policy"]),
-    status: toStr(r["Status"]),
-    severity: toStr(r["Severity"]),
-    notes: toStr(r["Notes"]),
-    checked_by: toStr(r["Checked_By"]),
-    checked_at: toStr(r["Checked_At"]),
-    entity: toStr(r["Entity"]),
-    period: toStr(r["Period"]),
-    source_file: sourceFile,
-  }));
-
-  await batchInsert(
-    (n) => {
-      const cols = "(check_id,policy,status,severity,notes,checked_by,checked_at,entity,period,source_file)";
-      const groups = Array.from({ length: n }, (_, i) => {
-        const base = i * 10;
-        return `(${Array.from({ length: 10 }, (_, j) => `$${base + j + 1}`).join(",")})`;
-      }).join(",");
-      return `
-        INSERT INTO compliance_reports ${cols} VALUES ${groups}
-        ON CONFLICT (check_id) DO UPDATE
-        SET policy=EXCLUDED.policy,
-            status=EXCLUDED.status,
-            severity=EXCLUDED.severity,
-            notes=EXCLUDED.notes,
-            checked_by=EXCLUDED.checked_by,
-            checked_at=EXCLUDED.checked_at,
-            entity=EXCLUDED.entity,
-            period=EXCLUDED.period,
-            source_file=EXCLUDED.source_file,
-            loaded_at=now();
-      `;
-    },
-    normalized,
-    (r) => [r.check_id, r.policy, r.status, r.severity, r.notes, r.checked_by, r.checked_at, r.entity, r.period, r.source_file]
-  );
-}
-
-async function insertCustomers(rows: any[], sourceFile: string) {
-  const normalized = rows.map(cleanHeaderKeys).map((r) => ({
-    customer_id: toStr(r["Customer_ID"]),
-    name: toStr(r["Name"]),
-    email: toStr(r["Email"]),
-    phone: toStr(r["Phone"]),
-    dob: toStr(r["DOB"]),
-    account_status: toStr(r["Account_Status"]),
-    entity: toStr(r["Entity"]),
-    period: toStr(r["Period"]),
-    source_file: sourceFile,
-  }));
 
-  await batchInsert(
-    (n) => {
-      const cols = "(customer_id,name,email,phone,dob,account_status,entity,period,source_file)";
-      const groups = Array.from({ length: n }, (_, i) => {
-        const base = i * 9;
-        return `(${Array.from({ length: 9 }, (_, j) => `$${base + j + 1}`).join(",")})`;
-      }).join(",");
-      return `
-        INSERT INTO customer_data_reports ${cols} VALUES ${groups}
-        ON CONFLICT (customer_id) DO UPDATE
-        SET name=EXCLUDED.name,
-            email=EXCLUDED.email,
-            phone=EXCLUDED.phone,
-            dob=EXCLUDED.dob,
-            account_status=EXCLUDED.account_status,
-            entity=EXCLUDED.entity,
-            period=EXCLUDED.period,
-            source_file=EXCLUDED.source_file,
-            loaded_at=now();
-      `;
-    },
-    normalized,
-    (r) => [r.customer_id, r.name, r.email, r.phone, r.dob, r.account_status, r.entity, r.period, r.source_file]
-  );
-}
-
-async function insertTransactions(rows: any[], sourceFile: string) {
-  const normalized = rows.map(cleanHeaderKeys).map((r) => ({
-    txn_id: toStr(r["Txn_ID"]),
-    date: toStr(r["Date"]),
-    account_id: toStr(r["Account_ID"]),
-    amount: toNum(r["Amount"]),
-    currency: toStr(r["Currency"]),
-    txn_type: toStr(r["Txn_Type"]),
-    status: toStr(r["Status"]),
-    counterparty: toStr(r["Counterparty"]),
-    entity: toStr(r["Entity"]),
-    period: toStr(r["Period"]),
-    source_file: sourceFile,
-  }));
-
-  await batchInsert(
-    (n) => {
-      const cols = "(txn_id,date,account_id,amount,currency,txn_type,status,counterparty,entity,period,source_file)";
-      const groups = Array.from({ length: n }, (_, i) => {
-        const base = i * 11;
-        return `(${Array.from({ length: 11 }, (_, j) => `$${base + j + 1}`).join(",")})`;
-      }).join(",");
-      return `
-        INSERT INTO transaction_reports ${cols} VALUES ${groups}
-        ON CONFLICT (txn_id) DO UPDATE
-        SET date=EXCLUDED.date,
-            account_id=EXCLUDED.account_id,
-            amount=EXCLUDED.amount,
-            currency=EXCLUDED.currency,
-            txn_type=EXCLUDED.txn_type,
-            status=EXCLUDED.status,
-            counterparty=EXCLUDED.counterparty,
-            entity=EXCLUDED.entity,
-            period=EXCLUDED.period,
-            source_file=EXCLUDED.source_file,
-            loaded_at=now();
-      `;
-    },
-    normalized,
-    (r) => [r.txn_id, r.date, r.account_id, r.amount, r.currency, r.txn_type, r.status, r.counterparty, r.entity, r.period, r.source_file]
-  );
-}
-
-async function insertRisk(rows: any[], sourceFile: string) {
-  const normalized = rows.map(cleanHeaderKeys).map((r) => ({
-    risk_id: toStr(r["Risk_ID"]),
-    risk_category: toStr(r["Risk_Category"]),
-    description: toStr(r["Description"]),
-    likelihood: toNum(r["Likelihood"]),
-    impact: toNum(r["Impact"]),
-    score: toNum(r["Score"]),
-    owner: toStr(r["Owner"]),
-    mitigation: toStr(r["Mitigation"]),
-    review_date: toStr(r["Review_Date"]),
-    entity: toStr(r["Entity"]),
-    period: toStr(r["Period"]),
-    source_file: sourceFile,
-  }));
+  const fields: Record<string, string> = {};
+  const param = (name: string) => {
+    const v = req.query[name] ?? fields[name];
+    return typeof v === "string" && v.trim() ? v.trim() : null;
+  };
+  const dryRun = String(req.query.dryRun ?? "").toLowerCase() === "true";
+  let started = false;
 
-  await batchInsert(
-    (n) => {
-      const cols = "(risk_id,risk_category,description,likelihood,impact,score,owner,mitigation,review_date,entity,period,source_file)";
-      const groups = Array.from({ length: n }, (_, i) => {
-        const base = i * 12;
-        return `(${Array.from({ length: 12 }, (_, j) => `$${base + j + 1}`).join(",")})`;
-      }).join(",");
-      return `
-        INSERT INTO risk_assessment_reports ${cols} VALUES ${groups}
-        ON CONFLICT (risk_id) DO UPDATE
-        SET risk_category=EXCLUDED.risk_category,
-            description=EXCLUDED.description,
-            likelihood=EXCLUDED.likelihood,
-            impact=EXCLUDED.impact,
-            score=EXCLUDED.score,
-            owner=EXCLUDED.owner,
-            mitigation=EXCLUDED.mitigation,
-            review_date=EXCLUDED.review_date,
-            entity=EXCLUDED.entity,
-            period=EXCLUDED.period,
-            source_file=EXCLUDED.source_file,
-            loaded_at=now();
-      `;
-    },
-    normalized,
-    (r) => [r.risk_id, r.risk_category, r.description, r.likelihood, r.impact, r.score, r.owner, r.mitigation, r.review_date, r.entity, r.period, r.source_file]
-  );
-}
+  bb.on("field", (name, value) => {
+    fields[name] = value;
+  });
 
-// ------------------ uploaded_files helpers ------------------
-async function upsertUploadedFileRow(args: {
-  checksum: string;
-  originalName: string;
-  mime: string;
-  size: number;
-  storedPath: string | null;
-  pageCount?: number | null;
-}) {
-  const { checksum, originalName, mime, size, storedPath, pageCount } = args;
+  bb.on("file", (name, stream, info) => {
+    if (name !== "file" || started) return stream.resume();
+    started = true;
+    const originalName = info.filename || "upload.csv";
+    if (!/\.csv$/i.test(originalName) && !/csv/.test(info.mimeType)) {
+      stream.resume();
+      return res.status(415).json({ ok: false, error: "STREAM_SUPPORTS_CSV_ONLY" });
+    }
+    stream.on("limit", () => stream.destroy(new Error("FILE_TOO_LARGE")));
+
+    ingestCsvStream(
+      stream,
+      { originalName, mime: info.mimeType || "text/csv" },
+      {
+        userId: req.user?.uid ?? null,
+        dryRun,
+        overrides: { kind: param("kind"), entity: param("entity"), period: param("period") },
+        idempotencyKey: req.get("Idempotency-Key")?.trim() || null,
+        force: param("force")?.toLowerCase() === "true",
+      }
+    )
+      .then((result) => res.status(result.status).json(result.body))
+      .catch((err: any) => {
+        logger?.error?.(err);
+        const tooLarge = err?.message === "FILE_TOO_LARGE";
+        res.status(tooLarge ? 413 : 500).json({ ok: false, error: err?.message || "UPLOAD_STREAM_ERROR" });
+      });
+  });
 
-  // If you already have more columns, extend here.
-  const sql = `
-    INSERT INTO uploaded_files (checksum, filename, mime_type, byte_size, storage_path, page_count, created_at)
-    VALUES ($1, $2, $3, $4, $5, $6, NOW())
-    ON CONFLICT (checksum) DO UPDATE
-       SET filename = EXCLUDED.filename,
-           mime_type = EXCLUDED.mime_type,
-           byte_size = EXCLUDED.byte_size,
-           storage_path = EXCLUDED.storage_path,
-           page_count = COALESCE(EXCLUDED.page_count, uploaded_files.page_count)
-    RETURNING id;
-  `;
-  const { rows } = await query(sql, [checksum, originalName, mime, size, storedPath, pageCount ?? null]);
-  return rows[0]?.id as string;
-}
+  bb.on("error", (err: any) => {
+    logger?.error?.(err);
+    if (!res.headersSent) res.status(400).json({ ok: false, error: "MALFORMED_MULTIPART" });
+  });
+  bb.on("close", () => {
+    if (!started && !res.headersSent) res.status(400).json({ ok: false, error: "NO_FILE" });
+  });
 
-async function insertPolicyRulesBulk(sourceFileId: string, sourceFilename: string, rules: ExtractedRule[]) {
-  if (!rules.length) return;
+  req.pipe(bb);
+});
 
-  // Build parameterized bulk insert
-  const cols = "(source_file_id, source_filename, rule_code, rule_text, citations, tags, severity, effective_date, confidence)";
-  const batchSize = 500;
-  for (let i = 0; i < rules.length; i += batchSize) {
-    const chunk = rules.slice(i, i + batchSize);
-    const values: string[] = [];
+/**
+ * GET /api/reports/uploads?entity=&period=&kind=&status=&limit=&offset=
+ * - ingestion ledger, newest first
+ */
+router.get("/uploads", async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "50"), 10) || 50, 1), 200);
+    const offset = Math.max(parseInt(String(req.query.offset ?? "0"), 10) || 0, 0);
+    const filters: string[] = [];
     const params: any[] = [];
-    chunk.forEach((r, idx) => {
-      const base = idx * 9;
-      values.push(`($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9})`);
-      params.push(
-        sourceFileId,
-        sourceFilename,
-        r.rule_code ?? null,
-        r.rule_text,
-        (r.citations ?? []) as any,
-        (r.tags ?? []) as any,
-        r.severity ?? null,
-        r.effective_date ?? null,
-        r.confidence ?? null
-      );
-    });
-
-    const sql = `
-      INSERT INTO policy_rules ${cols}
-      VALUES ${values.join(",")};
-    `;
-    await query(sql, params);
+    for (const [param, column] of [["entity", "entity_code"], ["period", "period"], ["kind", "kind"], ["status", "status"]]) {
+      const v = req.query[param];
+      if (typeof v === "string" && v) {
+        params.push(v);
+        filters.push(`${column} = $${params.length}`);
+      }
+    }
+    params.push(limit, offset);
+    const { rows } = await query(
+      `SELECT * FROM report_uploads
+       ${filters.length ? `WHERE ${filters.join(" AND ")}` : ""}
+       ORDER BY started_at DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+    return res.json({ ok: true, uploads: rows });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "UPLOADS_FETCH_ERROR" });
   }
-}
+});
 
-// ------------------ Route ------------------
-const router = Router();
+router.get("/uploads/:id", async (req: Request, res: Response) => {
+  try {
+    const { rows } = await query(`SELECT * FROM report_uploads WHERE id = $1`, [req.params.id]);
+    if (!rows.length) return res.status(404).json({ ok: false, error: "UPLOAD_NOT_FOUND" });
+    return res.json({ ok: true, upload: rows[0] });
+  } catch (err: any) {
+    if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "UPLOAD_NOT_FOUND" });
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "UPLOAD_FETCH_ERROR" });
+  }
+});
 
 /**
- * POST /api/reports/upload   (multipart/form-data, field: "file")
- * - CSVs → ingested to their respective tables
- * - PDFs → stored in uploaded_files + extracted rules → policy_rules
+ * DELETE /api/reports/uploads/:id   (alias: POST /api/reports/uploads/:id/revert)
+ * - team leads only; removes rows the upload inserted and restores rows it overwrote
+ * - 409 when a later upload touched the same rows, or the upload was reverted meanwhile
  */
-router.post("/upload", upload.single("file"), async (req: Request, res: Response) => {
+async function handleRevert(req: AuthedReq, res: Response) {
   try {
-    if (!req.file) return res.status(400).json({ ok: false, error: "NO_FILE" });
-
-    const originalName = req.file.originalname || "upload.bin";
-    const mime = req.file.mimetype || "application/octet-stream";
-    const ext = (originalName.split(".").pop() || "").toLowerCase();
-    const checksum = sha256(req.file.buffer);
-
-    // Optional: upload the raw file to Supabase Storage
-    let storedPath: string | null = null;
-    try {
-      const bucket = process.env.SUPABASE_BUCKET || "reports";
-      storedPath = `uploads/${Date.now()}_${originalName}`;
-      const { error } = await supabase.storage.from(bucket).upload(storedPath, req.file.buffer, {
-        upsert: true,
-        contentType: mime,
-      });
-      if (error) logger?.warn?.(`Supabase upload failed: ${error.message}`);
-    } catch (e: any) {
-      logger?.warn?.(`Supabase upload error: ${e?.message || e}`);
+    const result = await revertUpload(String(req.params.id), req.user?.uid ?? null);
+    switch (result.status) {
+      case "not_found":
+        return res.status(404).json({ ok: false, error: "UPLOAD_NOT_FOUND" });
+      case "not_revertible":
+        return res.status(400).json({ ok: false, error: "UPLOAD_NOT_REVERTIBLE", reason: result.reason });
+      case "conflict":
+        return res.status(409).json({ ok: false, error: "LATER_UPLOADS_TOUCH_SAME_ROWS", blockingUploads: result.blockingUploads });
+      case "already_changed":
+        return res.status(409).json({ ok: false, error: "UPLOAD_STATUS_CHANGED", status: result.current });
+      default:
+        return res.json({ ok: true, uploadId: req.params.id, ...result });
     }
+  } catch (err: any) {
+    if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "UPLOAD_NOT_FOUND" });
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "UPLOAD_REVERT_ERROR" });
+  }
+}
 
-    // PDF branch → extract rules → policy_rules
-    const isPdf = mime === "application/pdf" || ext === "pdf";
-    if (isPdf) {
-      const parsed = await pdfParse(req.file.buffer);
-      const text = (parsed.text || "").trim();
-      if (!text) throw new Error("PDF_HAS_NO_SELECTABLE_TEXT");
-
-      // upsert uploaded_files row (idempotent on checksum)
-      const fileId = await upsertUploadedFileRow({
-        checksum,
-        originalName,
-        mime,
-        size: req.file.size,
-        storedPath,
-        pageCount: parsed.numpages ?? null,
-      });
-
-      // extract rules (external or fallback)
-      const rules = (await extractPolicyRules(text))
-        .map((r) => ({
-          ...r,
-          rule_text: (r.rule_text || "").trim(),
-          citations: r.citations ?? [],
-          tags: r.tags ?? [],
-          severity: r.severity ?? null,
-          effective_date: r.effective_date ?? null,
-          confidence: r.confidence ?? null,
-        }))
-        .filter((r) => r.rule_text.length > 0);
-
-      // store into policy_rules
-      await insertPolicyRulesBulk(fileId, originalName, rules);
+router.delete("/uploads/:id", requireRole("teamLead"), handleRevert);
+router.post("/uploads/:id/revert", requireRole("teamLead"), handleRevert);
 
-      logger?.info?.(`PDF ingested: ${originalName} → ${rules.length} rules`);
-      return res.json({
-        ok: true,
-        kind: "policies",
-        filename: originalName,
-        uploaded_file_id: fileId,
-        pages: parsed.numpages ?? null,
-        rules_inserted: rules.length,
-        storedPath,
+/**
+ * GET /api/reports/uploads/:id/rejections.csv
+ * - rows rejected during validation, with line number and reason, for sending back to the source entity
+ * - PII columns are masked; ?unmask=true&reason= returns them in full for PII_UNMASK_ROLES (audited)
+ */
+router.get("/uploads/:id/rejections.csv", resolvePiiAccess, async (req: PiiReq, res: Response) => {
+  try {
+    const { rows } = await query(
+      `SELECT r.line, r.key_value, r.reasons, r.raw, u.kind
+         FROM report_upload_rejections r
+         JOIN report_uploads u ON u.id = r.upload_id
+        WHERE r.upload_id = $1
+        ORDER BY r.line`,
+      [req.params.id]
+    );
+    if (!rows.length) return res.status(404).json({ ok: false, error: "NO_REJECTIONS" });
+
+    const schema = findReportSchema(rows[0].kind);
+    const access = req.pii!;
+    if (schema) {
+      for (const r of rows) r.raw = revealRawPii(schema, r.raw, access.unmask);
+      await auditPiiUnmask(access, schema, {
+        resource: `rejections:${req.params.id}`,
+        keys: rows.map((r: any) => r.key_value || `line ${r.line}`),
       });
     }
 
-    // Otherwise → CSV to tables
-    const { kind, entityCode, period } = detectCsvKind(originalName);
-
-    const records = parse(req.file.buffer, {
-      columns: true,
-      skip_empty_lines: true,
-      relax_column_count: true,
-      bom: true,
-      trim: true,
-    }) as Record<string, unknown>[];
-
-    if (!records.length) return res.status(400).json({ ok: false, error: "EMPTY_CSV" });
-
-    const sourceFile = storedPath || originalName;
-    if (kind === "compliance") await insertCompliance(records, sourceFile);
-    else if (kind === "customers") await insertCustomers(records, sourceFile);
-    else if (kind === "transactions") await insertTransactions(records, sourceFile);
-    else await insertRisk(records, sourceFile);
-
-    logger?.info?.(`CSV ingested: ${records.length} ${kind} rows for ${entityCode} ${period}`);
-    return res.json({ ok: true, kind, entityCode, period, rows: records.length, storedPath: sourceFile });
-
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="rejections_${req.params.id}.csv"`);
+    return res.send(buildRejectionCsv(rows));
   } catch (err: any) {
+    if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "NO_REJECTIONS" });
     logger?.error?.(err);
-    return res.status(500).json({ ok: false, error: err?.message || "UPLOAD_INGEST_ERROR" });
+    return res.status(500).json({ ok: false, error: err?.message || "REJECTIONS_FETCH_ERROR" });
   }
 });
 
@@ -0,0 +1,109 @@
+// src/routes/resumableUploads.ts
+import { Router, Response } from "express";
+import { logger } from "../lib/config";
+import { requireAuth, type AuthedReq } from "../lib/auth";
+import {
+  abortUploadSession,
+  completeUploadSession,
+  createUploadSession,
+  getUploadSessionStatus,
+  startUploadSessionSweeper,
+  storeChunk,
+} from "../services/resumableUploads";
+
+startUploadSessionSweeper();
+
+const router = Router();
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+function sessionError(err: any, res: Response, fallback: string) {
+  if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "UPLOAD_SESSION_NOT_FOUND" });
+  logger?.error?.(err);
+  return res.status(500).json({ ok: false, error: err?.message || fallback });
+}
+
+/**
+ * POST /api/reports/upload-sessions
+ * body: { filename, size, sha256, mime?, chunkSize?, kind?, entity?, period? }
+ * - opens a resumable upload; returns its id, chunk size and chunk count
+ * - chunkSize is 1MB..64MB (default 8MB) and a session has at most 10000 chunks
+ * - sessions expire REPORT_UPLOAD_SESSION_TTL_HOURS (default 24) after the last chunk received
+ * - 429 UPLOAD_QUOTA_EXCEEDED when the user's unfinished sessions would exceed REPORT_UPLOAD_QUOTA_BYTES (default 10GB)
+ */
+router.post("/upload-sessions", requireAuth, async (req: AuthedReq, res: Response) => {
+  try {
+    const result = await createUploadSession({
+      userId: req.user!.uid,
+      filename: str(req.body?.filename) ?? "",
+      mime: str(req.body?.mime),
+      size: Number(req.body?.size),
+      sha256: (str(req.body?.sha256) ?? "").toLowerCase(),
+      chunkSize: req.body?.chunkSize ? Number(req.body.chunkSize) : null,
+      overrides: { kind: str(req.body?.kind), entity: str(req.body?.entity), period: str(req.body?.period) },
+    });
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return sessionError(err, res, "UPLOAD_SESSION_CREATE_ERROR");
+  }
+});
+
+/**
+ * GET /api/reports/upload-sessions/:id
+ * - status plus which chunk indexes were received and which are still missing, the latter as
+ *   inclusive [first, last] ranges
+ */
+router.get("/upload-sessions/:id", requireAuth, async (req: AuthedReq, res: Response) => {
+  try {
+    const result = await getUploadSessionStatus(String(req.params.id), req.user!.uid);
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return sessionError(err, res, "UPLOAD_SESSION_FETCH_ERROR");
+  }
+});
+
+/**
+ * PUT /api/reports/upload-sessions/:id/chunks/:index   (body: raw bytes, application/octet-stream)
+ * - 0-based index; every chunk but the last must be exactly chunkSize bytes; re-sending replaces it
+ */
+router.put("/upload-sessions/:id/chunks/:index", requireAuth, async (req: AuthedReq, res: Response) => {
+  try {
+    const index = /^\d+$/.test(String(req.params.index)) ? Number(req.params.index) : -1;
+    const result = await storeChunk(String(req.params.id), req.user!.uid, index, req);
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return sessionError(err, res, "CHUNK_STORE_ERROR");
+  }
+});
+
+/**
+ * POST /api/reports/upload-sessions/:id/complete[?dryRun=true]
+ * - checks the assembled file against the declared SHA-256, then ingests it like POST /upload
+ * - a dry run leaves the session open; Idempotency-Key / ?force=true behave as for POST /upload
+ */
+router.post("/upload-sessions/:id/complete", requireAuth, async (req: AuthedReq, res: Response) => {
+  try {
+    const dryRun = String(req.query.dryRun ?? "").toLowerCase() === "true";
+    const result = await completeUploadSession(String(req.params.id), req.user!.uid, {
+      dryRun,
+      idempotencyKey: req.get("Idempotency-Key")?.trim() || null,
+      force: String(req.query.force ?? "").toLowerCase() === "true",
+    });
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return sessionError(err, res, "UPLOAD_SESSION_COMPLETE_ERROR");
+  }
+});
+
+router.delete("/upload-sessions/:id", requireAuth, async (req: AuthedReq, res: Response) => {
+  try {
+    const result = await abortUploadSession(String(req.params.id), req.user!.uid);
+    return res.status(result.status).json(result.body);
+  } catch (err: any) {
+    return sessionError(err, res, "UPLOAD_SESSION_ABORT_ERROR");
+  }
+});
+
+export { router as resumableUploadRouter };
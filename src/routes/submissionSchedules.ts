@@ -0,0 +1,129 @@
+// src/routes/submissionSchedules.ts
+import { Router, Request, Response } from "express";
+import { logger } from "../lib/config";
+import { requireAuth, requireRole, type AuthedReq } from "../lib/auth";
+import { lastMonthEnd, validateScheduleInput, type SubmissionScheduleInput } from "../lib/submissionCalendar";
+import {
+  createSubmissionSchedule,
+  deleteSubmissionSchedule,
+  flagOverdueSubmissions,
+  getSubmissionStatus,
+  listSubmissionSchedules,
+  startOverdueSubmissionCheck,
+  updateSubmissionSchedule,
+} from "../services/submissionSchedules";
+
+startOverdueSubmissionCheck();
+
+const router = Router();
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+function scheduleInput(body: any): Partial<SubmissionScheduleInput> {
+  return {
+    entity_code: str(body?.entity_code) ?? undefined,
+    kind: str(body?.kind) ?? undefined,
+    frequency: str(body?.frequency)?.toLowerCase() as SubmissionScheduleInput["frequency"],
+    due_day_offset: body?.due_day_offset === undefined ? 0 : Number(body.due_day_offset),
+    active: body?.active === undefined ? true : Boolean(body.active),
+  };
+}
+
+function scheduleError(err: any, res: Response, fallback: string) {
+  if (err?.code === "22P02") return res.status(404).json({ ok: false, error: "SCHEDULE_NOT_FOUND" });
+  if (err?.code === "23505") return res.status(409).json({ ok: false, error: "SCHEDULE_EXISTS_FOR_ENTITY_KIND" });
+  logger?.error?.(err);
+  return res.status(500).json({ ok: false, error: err?.message || fallback });
+}
+
+/**
+ * GET /api/reports/submission-schedules?entity=&kind=
+ * - which reports each entity owes, how often, and how many days after period end they fall due
+ */
+router.get("/submission-schedules", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const schedules = await listSubmissionSchedules({ entity: str(req.query.entity), kind: str(req.query.kind) });
+    return res.json({ ok: true, schedules });
+  } catch (err: any) {
+    return scheduleError(err, res, "SCHEDULES_FETCH_ERROR");
+  }
+});
+
+/**
+ * POST /api/reports/submission-schedules   (team leads)
+ * body: { entity_code, kind, frequency: monthly|quarterly|semiannual|annual, due_day_offset, active? }
+ * - one schedule per entity and report kind
+ */
+router.post("/submission-schedules", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const input = scheduleInput(req.body);
+    const problems = validateScheduleInput(input);
+    if (problems.length) return res.status(400).json({ ok: false, error: "INVALID_SCHEDULE", problems });
+
+    const schedule = await createSubmissionSchedule(input as SubmissionScheduleInput, req.user?.uid ?? null);
+    return res.status(201).json({ ok: true, schedule });
+  } catch (err: any) {
+    return scheduleError(err, res, "SCHEDULE_CREATE_ERROR");
+  }
+});
+
+router.put("/submission-schedules/:id", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const input = scheduleInput(req.body);
+    const problems = validateScheduleInput(input);
+    if (problems.length) return res.status(400).json({ ok: false, error: "INVALID_SCHEDULE", problems });
+
+    const schedule = await updateSubmissionSchedule(String(req.params.id), input as SubmissionScheduleInput);
+    if (!schedule) return res.status(404).json({ ok: false, error: "SCHEDULE_NOT_FOUND" });
+    return res.json({ ok: true, schedule });
+  } catch (err: any) {
+    return scheduleError(err, res, "SCHEDULE_UPDATE_ERROR");
+  }
+});
+
+router.delete("/submission-schedules/:id", requireRole("teamLead"), async (req: AuthedReq, res: Response) => {
+  try {
+    const deleted = await deleteSubmissionSchedule(String(req.params.id));
+    if (!deleted) return res.status(404).json({ ok: false, error: "SCHEDULE_NOT_FOUND" });
+    return res.json({ ok: true, id: req.params.id });
+  } catch (err: any) {
+    return scheduleError(err, res, "SCHEDULE_DELETE_ERROR");
+  }
+});
+
+/**
+ * GET /api/reports/submissions?period=2025-06-30&entity=
+ * - expected vs received reports for one period end (default: last month end)
+ * - status per report: received | received_late | pending | overdue
+ */
+router.get("/submissions", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const period = str(req.query.period) ?? lastMonthEnd();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(period)) return res.status(400).json({ ok: false, error: "INVALID_PERIOD" });
+
+    const status = await getSubmissionStatus({ period, entity: str(req.query.entity) });
+    return res.json({ ok: true, ...status });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "SUBMISSIONS_FETCH_ERROR" });
+  }
+});
+
+/**
+ * POST /api/reports/submissions/check-overdue   (team leads)
+ * - runs the hourly overdue check now: raises compliance issues for missed deadlines and
+ *   resolves those whose report has since arrived
+ */
+router.post("/submissions/check-overdue", requireRole("teamLead"), async (_req: Request, res: Response) => {
+  try {
+    const result = await flagOverdueSubmissions();
+    return res.json({ ok: true, ...result });
+  } catch (err: any) {
+    logger?.error?.(err);
+    return res.status(500).json({ ok: false, error: err?.message || "OVERDUE_CHECK_ERROR" });
+  }
+});
+
+export { router as submissionScheduleRouter };
@@ -15,6 +15,16 @@ import { GoogleGenerativeAI } from "@google/generative-ai";
 
 // ⬇️ NEW: reports upload router (CSV + PDF policies)
 import { reportUploadRouter } from "./routes/reportUpload"; // if you're ESM/NodeNext at runtime, use "./routes/reportUpload.js"
+import { reportHistoryRouter } from "./routes/reportHistory";
+import { mappingProfileRouter } from "./routes/mappingProfiles";
+import { resumableUploadRouter } from "./routes/resumableUploads";
+import { submissionScheduleRouter } from "./routes/submissionSchedules";
+import { integrityCheckRouter } from "./routes/integrityChecks";
+import { customerDuplicateRouter } from "./routes/customerDuplicates";
+import { piiAuditRouter } from "./routes/piiAudit";
+import { dataQualityRouter } from "./routes/dataQuality";
+import { fxConversionRouter } from "./routes/fxConversion";
+import { policyRouter } from "./routes/policies";
 
 // --- App + config ------------------------------------------------------------
 const app = express();
@@ -167,6 +177,26 @@ app.use("/api/chatbot", chatbotRouter);
 // --- ⬇️ NEW: mount the reports upload router BEFORE 404 ----------------------
 app.use("/api/reports", reportUploadRouter);
 // This exposes: POST /api/reports/upload   (field name: "file")
+app.use("/api/reports", reportHistoryRouter);
+// Row history: /api/reports/history/:kind/:key, /api/reports/as-of/:kind, /api/reports/diff/:kind
+app.use("/api/reports", mappingProfileRouter);
+// Column mapping profiles: /api/reports/mapping-profiles[/:id]
+app.use("/api/reports", resumableUploadRouter);
+// Resumable uploads: /api/reports/upload-sessions[/:id[/chunks/:index|/complete]]
+app.use("/api/reports", submissionScheduleRouter);
+// Submission calendar: /api/reports/submission-schedules[/:id], /api/reports/submissions[/check-overdue]
+app.use("/api/reports", integrityCheckRouter);
+// Integrity checks: /api/reports/integrity-checks[/:id|/run], /api/reports/uploads/:id/integrity-findings
+app.use("/api/reports", customerDuplicateRouter);
+// Duplicate customers: /api/reports/customers/duplicates[/scan|/:id[/merge|/dismiss]], /api/reports/customers/merges
+app.use("/api/reports", piiAuditRouter);
+// PII: /api/reports/pii/classification, /api/reports/pii/unmask-audit
+app.use("/api/reports", dataQualityRouter);
+// Data quality: /api/reports/uploads/:id/quality, /api/reports/quality/trends, /api/reports/quality/entities
+app.use("/api/reports", fxConversionRouter);
+// FX: /api/reports/transactions/totals, /api/reports/fx/rates
+app.use("/api/policies", policyRouter);
+// Policies: /api/policies/rules[/:id][/source|submit|approve|reject|retire|reopen|conditions], /api/policies/rules/bulk, /api/policies/series, /api/policies/series/:id/diff, /api/policies/documents/:id/diff, /api/policies/conditions[/:id|/validate|/run], /api/policies/violations
 
 // --- Glossary read API (matches data_glossary shape) -------------------------
 if (pg) {
@@ -0,0 +1,105 @@
+// src/services/complianceIssues.ts
+// Raises and resolves compliance_issues rows on behalf of automated checks. Each check names its
+// finding with a dedupe key, so re-running a check never opens the same issue twice.
+import { query, sharedDb, type DbExecutor } from "../db";
+import type { IssueSeverity } from "../lib/integrityChecks";
+
+export interface ComplianceIssueInput {
+  dedupeKey: string;
+  issueType: string;
+  entity: string | null;
+  severity: IssueSeverity;
+  description: string;
+  source: string; // the check that raised it, e.g. "submission_schedule"
+  details?: Record<string, any>;
+}
+
+/** Opens an issue unless one with the same dedupe key already exists (in any status). */
+export async function raiseComplianceIssue(input: ComplianceIssueInput): Promise<{ issueId: string; created: boolean }> {
+  const { rows } = await query(
+    `INSERT INTO compliance_issues
+       (issue_id, issue_type, status, entity, severity, description, date_created, source, dedupe_key, details)
+     VALUES ('COMP-' || nextval('compliance_issue_seq'), $1, 'Open', $2, $3, $4, NOW(), $5, $6, $7)
+     ON CONFLICT (dedupe_key) DO NOTHING
+     RETURNING issue_id`,
+    [
+      input.issueType,
+      input.entity,
+      input.severity,
+      input.description,
+      input.source,
+      input.dedupeKey,
+      JSON.stringify(input.details ?? {}),
+    ]
+  );
+  if (rows[0]) return { issueId: rows[0].issue_id, created: true };
+
+  const existing = await query(`SELECT issue_id FROM compliance_issues WHERE dedupe_key = $1`, [input.dedupeKey]);
+  return { issueId: existing.rows[0]?.issue_id, created: false };
+}
+
+/**
+ * Opens the issue for `input.dedupeKey`, or brings an existing one up to date with the latest
+ * description and details (reopening it if it had been resolved).
+ */
+export async function upsertComplianceIssue(input: ComplianceIssueInput): Promise<{ issueId: string; created: boolean }> {
+  const { rows } = await query(
+    `INSERT INTO compliance_issues
+       (issue_id, issue_type, status, entity, severity, description, date_created, source, dedupe_key, details)
+     VALUES ('COMP-' || nextval('compliance_issue_seq'), $1, 'Open', $2, $3, $4, NOW(), $5, $6, $7)
+     ON CONFLICT (dedupe_key) DO UPDATE
+        SET description = EXCLUDED.description,
+            severity = EXCLUDED.severity,
+            details = EXCLUDED.details,
+            status = CASE WHEN compliance_issues.status = 'Resolved' THEN 'Open' ELSE compliance_issues.status END,
+            resolved_at = NULL,
+            resolution = NULL
+     RETURNING issue_id, (xmax = 0) AS created`,
+    [
+      input.issueType,
+      input.entity,
+      input.severity,
+      input.description,
+      input.source,
+      input.dedupeKey,
+      JSON.stringify(input.details ?? {}),
+    ]
+  );
+  return { issueId: rows[0].issue_id, created: rows[0].created };
+}
+
+/** Closes the open issue for `dedupeKey`, if any; returns its id. */
+export async function resolveComplianceIssue(dedupeKey: string, resolution: string): Promise<string | null> {
+  const { rows } = await query(
+    `UPDATE compliance_issues
+        SET status = 'Resolved', resolved_at = NOW(), resolution = $2
+      WHERE dedupe_key = $1 AND status <> 'Resolved'
+      RETURNING issue_id`,
+    [dedupeKey, resolution]
+  );
+  return rows[0]?.issue_id ?? null;
+}
+
+/**
+ * Resolves every open issue whose dedupe key starts with `keyPrefix` (all findings of one check),
+ * on `db` so it can share the transaction that removes the check. Returns how many were resolved.
+ */
+export async function resolveComplianceIssuesByPrefix(keyPrefix: string, resolution: string, db: DbExecutor = sharedDb): Promise<number> {
+  const { rowCount } = await db.query(
+    `UPDATE compliance_issues
+        SET status = 'Resolved', resolved_at = NOW(), resolution = $2
+      WHERE left(dedupe_key, length($1)) = $1 AND status <> 'Resolved'`,
+    [keyPrefix, resolution]
+  );
+  return rowCount ?? 0;
+}
+
+/** Open issues among `dedupeKeys`, keyed by dedupe key. */
+export async function findOpenIssues(dedupeKeys: string[]): Promise<Map<string, string>> {
+  if (!dedupeKeys.length) return new Map();
+  const { rows } = await query(
+    `SELECT dedupe_key, issue_id FROM compliance_issues WHERE dedupe_key = ANY($1) AND status <> 'Resolved'`,
+    [dedupeKeys]
+  );
+  return new Map(rows.map((r: any) => [r.dedupe_key, r.issue_id]));
+}
@@ -0,0 +1,272 @@
+// src/services/customerDuplicates.ts
+// The duplicate-customer workflow: scan customer_data_reports for candidate clusters, review one,
+// then merge it into a chosen master (re-pointing transactions) or dismiss it. Every merge keeps
+// before/after snapshots in customer_merge_audit and new versions in report_row_history.
+import { query, withTransaction } from "../db";
+import { CONFIG, logger } from "../lib/config";
+import { findDuplicateClusters, type CustomerRecord, type MatchThresholds } from "../lib/customerMatching";
+import { decryptPiiFields, encryptPiiFields } from "../lib/piiProtection";
+import { getReportSchema } from "../lib/reportSchemas";
+import { raiseComplianceIssue, resolveComplianceIssue } from "./complianceIssues";
+import { backfillRowHistory, recordRowHistory } from "./reportHistory";
+import type { PipelineResult } from "./reportUploadPipeline";
+
+// Blank master fields are filled from the duplicates, most recently loaded first
+const MERGE_FIELDS = ["name", "email", "phone", "dob", "account_status"] as const;
+const ISSUE_SOURCE = "duplicate_customers";
+const customers = getReportSchema("customers");
+const transactions = getReportSchema("transactions");
+
+const CLUSTER_COLUMNS = `id, fingerprint, members, entities, score, evidence, status, issue_id, master_customer_id,
+  detected_at, reviewed_by, reviewed_at, review_note`;
+
+const issueKey = (clusterId: string) => `duplicate_customers:${clusterId}`;
+
+function fail(status: number, error: string, detail: Record<string, any> = {}): PipelineResult {
+  return { status, body: { ok: false, error, ...detail } };
+}
+
+export function defaultThresholds(): MatchThresholds {
+  return { nameSimilarity: CONFIG.MATCHING.NAME_SIMILARITY, minScore: CONFIG.MATCHING.MIN_SCORE };
+}
+
+/**
+ * Matches every customer against every other and stores clusters not seen before (a cluster is
+ * identified by its sorted member ids, so dismissed ones stay dismissed). A new cluster replaces
+ * open clusters it fully contains.
+ */
+export async function scanForDuplicateCustomers(thresholds: MatchThresholds = defaultThresholds()) {
+  const { rows } = await query(
+    `SELECT customer_id, name, email, phone, dob::text AS dob, entity FROM customer_data_reports`
+  );
+  const records = rows.map((r: any) => decryptPiiFields(customers, r) as CustomerRecord);
+  const clusters = findDuplicateClusters(records, thresholds);
+
+  let created = 0;
+  for (const cluster of clusters) {
+    const inserted = await query(
+      `INSERT INTO customer_duplicate_clusters (fingerprint, members, entities, score, evidence)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (fingerprint) DO NOTHING
+       RETURNING id`,
+      [cluster.fingerprint, cluster.members, cluster.entities, cluster.score, JSON.stringify(cluster.pairs)]
+    );
+    const id = inserted.rows[0]?.id;
+    if (!id) continue;
+    created++;
+
+    const { issueId } = await raiseComplianceIssue({
+      dedupeKey: issueKey(id),
+      issueType: "Duplicate Records",
+      entity: cluster.entities.join(", ") || null,
+      severity: cluster.entities.length > 1 ? "High" : "Medium",
+      description:
+        `${cluster.members.length} customer records look like the same person ` +
+        `(${cluster.members.join(", ")}; match score ${cluster.score}). Review and merge or dismiss.`,
+      source: ISSUE_SOURCE,
+      details: { clusterId: id, members: cluster.members, entities: cluster.entities },
+    });
+    await query(`UPDATE customer_duplicate_clusters SET issue_id = $2 WHERE id = $1`, [id, issueId]);
+
+    const { rows: replaced } = await query(
+      `UPDATE customer_duplicate_clusters SET status = 'superseded', reviewed_at = NOW(), review_note = $2
+        WHERE status = 'open' AND id <> $1 AND members <@ $3::text[]
+        RETURNING id`,
+      [id, `Superseded by cluster ${id}`, cluster.members]
+    );
+    for (const r of replaced) await resolveComplianceIssue(issueKey(r.id), `Superseded by cluster ${id}`);
+  }
+
+  logger.info(`Duplicate customer scan: ${rows.length} customers, ${clusters.length} clusters (${created} new)`);
+  return { scanned: rows.length, clusters: clusters.length, created, thresholds };
+}
+
+export async function listDuplicateClusters(filters: { status?: string | null; limit: number; offset: number }) {
+  const { rows } = await query(
+    `SELECT ${CLUSTER_COLUMNS} FROM customer_duplicate_clusters
+      WHERE ($1::text IS NULL OR status = $1)
+      ORDER BY detected_at DESC, score DESC
+      LIMIT $2 OFFSET $3`,
+    [filters.status ?? null, filters.limit, filters.offset]
+  );
+  return rows;
+}
+
+/** A cluster with its members' current records and how many transactions point at each. */
+export async function getDuplicateCluster(id: string) {
+  const { rows } = await query(`SELECT ${CLUSTER_COLUMNS} FROM customer_duplicate_clusters WHERE id = $1`, [id]);
+  const cluster = rows[0];
+  if (!cluster) return null;
+
+  const records = await query(`SELECT * FROM customer_data_reports WHERE customer_id = ANY($1)`, [cluster.members]);
+  const txns = await query(
+    `SELECT account_id, COUNT(*)::int AS n FROM transaction_reports WHERE account_id = ANY($1) GROUP BY account_id`,
+    [cluster.members]
+  );
+  const txnCounts = new Map(txns.rows.map((r: any) => [r.account_id, r.n]));
+  const byId = new Map(records.rows.map((r: any) => [r.customer_id, r]));
+  return {
+    ...cluster,
+    records: cluster.members.map((customerId: string) => ({
+      customerId,
+      record: byId.get(customerId) ?? null, // null once merged away
+      transactions: txnCounts.get(customerId) ?? 0,
+    })),
+  };
+}
+
+function sameEntity(a: unknown, b: unknown) {
+  return String(a ?? "").trim().toLowerCase() === String(b ?? "").trim().toLowerCase();
+}
+
+/**
+ * Keeps `masterId`, fills its blank fields from the members of its entity, re-points their
+ * transactions to it and deletes them, all in one transaction. Members of other entities are left
+ * alone: their transactions must keep a customer in their own entity.
+ */
+export async function mergeDuplicateCluster(
+  id: string,
+  masterId: string,
+  userId: string | null,
+  note: string | null = null
+): Promise<PipelineResult> {
+  const result = await withTransaction(async (tx): Promise<PipelineResult> => {
+    const { rows } = await tx.query(`SELECT * FROM customer_duplicate_clusters WHERE id = $1 FOR UPDATE`, [id]);
+    const cluster = rows[0];
+    if (!cluster) return fail(404, "CLUSTER_NOT_FOUND");
+    if (cluster.status !== "open") return fail(409, "CLUSTER_NOT_OPEN", { status: cluster.status });
+    if (!cluster.members.includes(masterId)) return fail(400, "MASTER_NOT_IN_CLUSTER", { members: cluster.members });
+
+    const { rows: records } = await tx.query(
+      `SELECT * FROM customer_data_reports WHERE customer_id = ANY($1)
+        ORDER BY loaded_at DESC NULLS LAST
+        FOR UPDATE`,
+      [cluster.members]
+    );
+    const master = records.find((r: any) => r.customer_id === masterId);
+    if (!master) return fail(409, "MASTER_RECORD_MISSING");
+    const others = records.filter((r: any) => r.customer_id !== masterId);
+    const duplicates = others.filter((r: any) => sameEntity(r.entity, master.entity));
+    const otherEntityIds = others.filter((r: any) => !sameEntity(r.entity, master.entity)).map((r: any) => r.customer_id);
+    if (!duplicates.length) return fail(409, "NOTHING_TO_MERGE", { otherEntityCustomerIds: otherEntityIds });
+    const duplicateIds = duplicates.map((r: any) => r.customer_id as string);
+
+    // PII is compared and copied as stored: encryption is deterministic, so equal values stay equal
+    const merged: Record<string, any> = { ...master };
+    for (const field of MERGE_FIELDS) {
+      if (merged[field] !== null && String(merged[field]).trim() !== "") continue;
+      const donor = duplicates.find((r: any) => r[field] !== null && String(r[field]).trim() !== "");
+      if (donor) merged[field] = donor[field];
+    }
+    const sealed = encryptPiiFields(customers, merged); // legacy rows may still hold plain values
+    const { rows: moving } = await tx.query(
+      `SELECT txn_id FROM transaction_reports WHERE account_id = ANY($1) AND lower(trim(entity)) = lower(trim($2)) FOR UPDATE`,
+      [duplicateIds, master.entity ?? ""]
+    );
+    const txnIds = moving.map((r: any) => String(r.txn_id));
+    await backfillRowHistory(tx, customers, [masterId]);
+    await backfillRowHistory(tx, transactions, txnIds);
+    await tx.query(
+      `UPDATE customer_data_reports SET ${MERGE_FIELDS.map((f, i) => `${f} = $${i + 2}`).join(", ")}
+        WHERE customer_id = $1`,
+      [masterId, ...MERGE_FIELDS.map((f) => sealed[f])]
+    );
+    const repointed = await tx.query(
+      `UPDATE transaction_reports SET account_id = $1 WHERE txn_id = ANY($2) RETURNING txn_id`,
+      [masterId, txnIds]
+    );
+    await recordRowHistory(tx, { uploadId: null, userId, schema: customers, keys: [masterId] });
+    await recordRowHistory(tx, { uploadId: null, userId, schema: transactions, keys: txnIds });
+    await tx.query(`DELETE FROM customer_data_reports WHERE customer_id = ANY($1)`, [duplicateIds]);
+    // close the merged-away customers' open versions so as-of queries stop returning them
+    await tx.query(
+      `UPDATE report_row_history SET valid_to = NOW()
+        WHERE table_name = 'customer_data_reports' AND key_value = ANY($1) AND valid_to IS NULL`,
+      [duplicateIds]
+    );
+
+    const audit = await tx.query(
+      `INSERT INTO customer_merge_audit
+         (cluster_id, master_customer_id, merged_customer_ids, master_before, master_after, merged_records, repointed_txn_ids, merged_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id, merged_at`,
+      [
+        id,
+        masterId,
+        duplicateIds,
+        JSON.stringify(encryptPiiFields(customers, master)),
+        JSON.stringify(sealed),
+        JSON.stringify(duplicates.map((r: any) => encryptPiiFields(customers, r))),
+        repointed.rows.map((r: any) => r.txn_id),
+        userId,
+      ]
+    );
+    await tx.query(
+      `UPDATE customer_duplicate_clusters
+          SET status = 'merged', master_customer_id = $2, reviewed_by = $3, reviewed_at = NOW(), review_note = $4
+        WHERE id = $1`,
+      [id, masterId, userId, note]
+    );
+    // other open clusters built on a merged-away record no longer describe real rows
+    const stale = await tx.query(
+      `UPDATE customer_duplicate_clusters SET status = 'superseded', reviewed_at = NOW(), review_note = $2
+        WHERE status = 'open' AND members && $1::text[]
+        RETURNING id`,
+      [duplicateIds, `Members merged by cluster ${id}`]
+    );
+
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        clusterId: id,
+        auditId: audit.rows[0].id,
+        masterCustomerId: masterId,
+        mergedCustomerIds: duplicateIds,
+        otherEntityCustomerIds: otherEntityIds,
+        transactionsRepointed: repointed.rowCount ?? 0,
+        master: sealed,
+        supersededClusters: stale.rows.map((r: any) => r.id),
+      },
+    };
+  });
+
+  if (result.body.ok) {
+    await resolveComplianceIssue(issueKey(id), `Merged into ${masterId}`);
+    for (const staleId of result.body.supersededClusters) {
+      await resolveComplianceIssue(issueKey(staleId), `Members merged by cluster ${id}`);
+    }
+    logger.info(`Customer cluster ${id} merged into ${masterId} (${result.body.transactionsRepointed} transactions re-pointed)`);
+  }
+  return result;
+}
+
+/** Marks a cluster as not duplicates; later scans will not raise it again. */
+export async function dismissDuplicateCluster(id: string, userId: string | null, note: string | null): Promise<PipelineResult> {
+  const { rows } = await query(
+    `UPDATE customer_duplicate_clusters
+        SET status = 'dismissed', reviewed_by = $2, reviewed_at = NOW(), review_note = $3
+      WHERE id = $1 AND status = 'open'
+      RETURNING ${CLUSTER_COLUMNS}`,
+    [id, userId, note]
+  );
+  if (!rows[0]) {
+    const exists = await query(`SELECT status FROM customer_duplicate_clusters WHERE id = $1`, [id]);
+    return exists.rows[0]
+      ? fail(409, "CLUSTER_NOT_OPEN", { status: exists.rows[0].status })
+      : fail(404, "CLUSTER_NOT_FOUND");
+  }
+  await resolveComplianceIssue(issueKey(id), `Dismissed: ${note || "not duplicates"}`);
+  return { status: 200, body: { ok: true, cluster: rows[0] } };
+}
+
+export async function listCustomerMerges(filters: { customerId?: string | null; limit: number; offset: number }) {
+  const { rows } = await query(
+    `SELECT * FROM customer_merge_audit
+      WHERE ($1::text IS NULL OR master_customer_id = $1 OR $1 = ANY(merged_customer_ids))
+      ORDER BY merged_at DESC
+      LIMIT $2 OFFSET $3`,
+    [filters.customerId ?? null, filters.limit, filters.offset]
+  );
+  return rows;
+}
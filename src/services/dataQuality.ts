@@ -0,0 +1,161 @@
+// src/services/dataQuality.ts
+// Data-quality scorecards for report uploads (report_quality_scores): the column profile from
+// FileProcessor.profileColumns plus the scores from lib/dataQuality, stored per upload and rolled
+// up by entity and period. Only the latest succeeded upload of each kind counts toward a period.
+import { query } from "../db";
+import { CONFIG, logger } from "../lib/config";
+import { scoreTally, type ColumnQuality, type QualityScorecard, type QualityTally } from "../lib/dataQuality";
+import { piiClassOfHeader } from "../lib/piiProtection";
+import type { ReportSchema } from "../lib/reportSchemas";
+import type { SourceRecord } from "../lib/reportValidation";
+import { FileProcessor, type ColumnPreview } from "./glossaryExtractor";
+
+export interface ReportQuality extends Omit<QualityScorecard, "columns"> {
+  columns: (ColumnQuality & { detectedType: string | null; typeMismatch: boolean })[];
+  profile: ColumnPreview[]; // first MAX_ROWS_TO_ANALYZE rows; no sample values for PII columns
+}
+
+// Declared column types and the profiler's detected types that agree with them (its phone
+// pattern also matches ISO dates and long digit runs)
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  number: ["number", "id", "phone", "unknown"],
+  date: ["date", "phone", "unknown"],
+};
+
+/** Scores a tallied upload; `sample` is the first batch of records, which gets profiled. */
+export function buildReportQuality(
+  schema: ReportSchema,
+  tally: QualityTally,
+  sample: SourceRecord[],
+  opts: { period: string | null; uploadedAt?: Date }
+): ReportQuality {
+  const scorecard = scoreTally(tally, { period: opts.period, uploadedAt: opts.uploadedAt ?? new Date() });
+  const profile = FileProcessor.profileColumns(
+    sample.map((r) => r.record),
+    CONFIG.PROCESSING.SAMPLE_VALUES_COUNT
+  ).map((p) => (piiClassOfHeader(schema, p.name) ? { ...p, samples: [] } : p));
+
+  const byHeader = new Map(profile.map((p) => [p.name, p]));
+  const columns = scorecard.columns.map((c) => {
+    const detectedType = byHeader.get(c.header)?.detectedType ?? null;
+    const compatible = COMPATIBLE_TYPES[c.expectedType];
+    return { ...c, detectedType, typeMismatch: !!detectedType && !!compatible && !compatible.includes(detectedType) };
+  });
+  return { ...scorecard, columns, profile };
+}
+
+/** Post-upload hook: a scoring failure is logged, never allowed to fail the upload itself. */
+export async function recordQualityScore(
+  uploadId: string,
+  upload: { kind: string; entityCode: string; period: string },
+  quality: ReportQuality
+) {
+  try {
+    await query(
+      `INSERT INTO report_quality_scores
+         (upload_id, kind, entity_code, period, rows_total, completeness, validity, uniqueness, freshness, overall,
+          lag_days, duplicate_keys, columns, profile)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (upload_id) DO NOTHING`,
+      [
+        uploadId,
+        upload.kind,
+        upload.entityCode,
+        upload.period,
+        quality.rows,
+        quality.completeness,
+        quality.validity,
+        quality.uniqueness,
+        quality.freshness,
+        quality.overall,
+        quality.lagDays,
+        quality.duplicateKeys,
+        JSON.stringify(quality.columns),
+        JSON.stringify(quality.profile),
+      ]
+    );
+  } catch (err: any) {
+    logger.error("Could not record data quality score", { uploadId, error: err?.message || err });
+  }
+}
+
+/** Short form for upload responses; the full scorecard is at GET /uploads/:id/quality. */
+export function qualitySummary(quality: ReportQuality) {
+  const { completeness, validity, uniqueness, freshness, overall, duplicateKeys, lagDays } = quality;
+  return {
+    completeness,
+    validity,
+    uniqueness,
+    freshness,
+    overall,
+    duplicateKeys,
+    lagDays,
+    typeMismatches: quality.columns.filter((c) => c.typeMismatch).map((c) => c.column),
+  };
+}
+
+export async function getUploadQuality(uploadId: string) {
+  const { rows } = await query(
+    `SELECT upload_id, kind, entity_code, period, rows_total,
+            completeness::float, validity::float, uniqueness::float, freshness::float, overall::float,
+            lag_days, duplicate_keys, columns, profile, scored_at
+       FROM report_quality_scores WHERE upload_id = $1`,
+    [uploadId]
+  );
+  return rows[0] ?? null;
+}
+
+// Rows-weighted averages over the latest succeeded upload per kind/entity/period
+const ROLLUP = `
+  WITH latest AS (
+    SELECT DISTINCT ON (q.kind, lower(q.entity_code), q.period) q.*
+      FROM report_quality_scores q
+      JOIN report_uploads u ON u.id = q.upload_id AND u.status = 'succeeded'
+     WHERE ($1::text IS NULL OR lower(q.entity_code) = lower($1))
+       AND ($2::text IS NULL OR q.kind = $2)
+       AND ($3::text IS NULL OR q.period >= $3)
+       AND ($4::text IS NULL OR q.period <= $4)
+     ORDER BY q.kind, lower(q.entity_code), q.period, q.scored_at DESC
+  )
+  SELECT upper(entity_code) AS entity, period,
+         array_agg(DISTINCT kind ORDER BY kind) AS kinds,
+         SUM(rows_total)::int AS rows,
+         ${["completeness", "validity", "uniqueness", "freshness", "overall"]
+           .map(
+             (d) => `ROUND(SUM(${d} * GREATEST(rows_total, 1)) / NULLIF(SUM(GREATEST(rows_total, 1)) FILTER (WHERE ${d} IS NOT NULL), 0), 4)::float AS ${d}`
+           )
+           .join(",\n         ")}
+    FROM latest
+   GROUP BY upper(entity_code), period`;
+
+/**
+ * Scores per entity and period, oldest period first, with the change in `overall` from the
+ * entity's previous period.
+ */
+export async function getQualityTrends(filters: { entity?: string | null; kind?: string | null; from?: string | null; to?: string | null }) {
+  const { rows } = await query(`${ROLLUP} ORDER BY 1, 2`, [
+    filters.entity ?? null,
+    filters.kind ?? null,
+    filters.from ?? null,
+    filters.to ?? null,
+  ]);
+
+  const entities = new Map<string, any[]>();
+  for (const r of rows) {
+    const series = entities.get(r.entity) ?? [];
+    const previous = series[series.length - 1];
+    const change = previous && previous.overall !== null && r.overall !== null ? Math.round((r.overall - previous.overall) * 10000) / 10000 : null;
+    series.push({ ...r, change });
+    entities.set(r.entity, series);
+  }
+  return [...entities].map(([entity, periods]) => ({ entity, latest: periods[periods.length - 1], periods }));
+}
+
+/** Each entity's most recent scored period; the chatbot reports these as collaboration health. */
+export async function getEntityQualitySnapshot() {
+  const { rows } = await query(
+    `SELECT DISTINCT ON (entity) * FROM (${ROLLUP}) r ORDER BY entity, period DESC`,
+    [null, null, null, null]
+  );
+  return rows as { entity: string; period: string; kinds: string[]; rows: number; overall: number | null }[];
+}
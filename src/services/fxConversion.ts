@@ -0,0 +1,192 @@
+// src/services/fxConversion.ts
+// Base-currency amounts for transaction_reports. Each transaction stores amount_base, the rate used
+// and its date, converted with the latest fx_rates row for its currency on or before the
+// transaction date (at most FX.MAX_RATE_AGE_DAYS old). Rows without a usable rate keep
+// amount_base NULL and are reported as unconverted by the totals. Re-converting existing rows is a
+// versioned write like any other: snapshotted for revert and recorded in report_row_history.
+import { query, withTransaction, type DbExecutor } from "../db";
+import { CONFIG, logger } from "../lib/config";
+import { getReportSchema, toStr, type NormalizedRow, type ReportSchema } from "../lib/reportSchemas";
+import { backfillRowHistory, recordRowHistory } from "./reportHistory";
+
+const transactions = getReportSchema("transactions");
+
+interface ConversionFilter {
+  txnIds?: string[];
+  currencies?: string[];
+  staleOnly?: boolean; // rows never converted, or converted to another base currency
+}
+
+// The latest usable rate per matching transaction; $1 base currency, $2 max rate age, $3 txn ids,
+// $4 currencies, $5 stale only
+const CONVERSIONS = `
+    SELECT s.txn_id,
+           CASE WHEN upper(s.currency) = $1 THEN 1 ELSE c.rate END AS fx_rate,
+           c.rate_date AS fx_rate_date,
+           CASE WHEN upper(s.currency) = $1 THEN s.amount ELSE s.amount * c.rate END AS amount_base
+      FROM transaction_reports s
+      LEFT JOIN LATERAL (
+        SELECT f.rate, f.date AS rate_date
+          FROM fx_rates f
+         WHERE f.currency = upper(s.currency)
+           AND s.date::text ~ '^\\d{4}-\\d{2}-\\d{2}'
+           AND f.date <= left(s.date::text, 10)::date
+           AND f.date >= left(s.date::text, 10)::date - $2::int
+         ORDER BY f.date DESC
+         LIMIT 1
+      ) c ON true
+     WHERE ($3::text[] IS NULL OR s.txn_id = ANY($3))
+       AND ($4::text[] IS NULL OR upper(s.currency) = ANY($4))
+       AND (NOT $5 OR s.amount_base IS NULL OR s.base_currency IS DISTINCT FROM $1)`;
+
+function conversionParams(filter: ConversionFilter) {
+  return [
+    CONFIG.FX.BASE_CURRENCY,
+    CONFIG.FX.MAX_RATE_AGE_DAYS,
+    filter.txnIds ?? null,
+    filter.currencies ?? null,
+    !!filter.staleOnly,
+  ];
+}
+
+/** Recomputes amount_base for the matching transactions; returns how many rows were touched. */
+export async function convertTransactions(db: DbExecutor, filter: ConversionFilter = {}) {
+  const { rowCount } = await db.query(
+    `
+    UPDATE transaction_reports t
+       SET base_currency = $1, fx_rate = c.fx_rate, fx_rate_date = c.fx_rate_date, amount_base = c.amount_base
+      FROM (${CONVERSIONS}) c
+     WHERE t.txn_id = c.txn_id
+    `,
+    conversionParams(filter)
+  );
+  return rowCount ?? 0;
+}
+
+/** Ids of the matching transactions whose conversion would change, i.e. the rows convertTransactions rewrites. */
+async function changedConversions(db: DbExecutor, filter: ConversionFilter) {
+  const { rows } = await db.query(
+    `
+    SELECT c.txn_id
+      FROM (${CONVERSIONS}) c
+      JOIN transaction_reports t ON t.txn_id = c.txn_id
+     WHERE (t.base_currency, t.fx_rate, t.fx_rate_date, t.amount_base)
+           IS DISTINCT FROM ($1::text, c.fx_rate, c.fx_rate_date, c.amount_base)
+    `,
+    conversionParams(filter)
+  );
+  return rows.map((r: any) => String(r.txn_id));
+}
+
+/**
+ * Ingest hook, on the batch's transaction: converts uploaded transactions, and re-converts the
+ * transactions in every currency an FX rates upload touched. Re-converted rows are handed to
+ * `snapshot` before they change and get a history version under the upload afterwards.
+ */
+export async function applyFxRates(
+  db: DbExecutor,
+  schema: ReportSchema,
+  rows: NormalizedRow[],
+  upload: { uploadId: string; userId: string | null; snapshot: (txnIds: string[]) => Promise<void> }
+) {
+  if (!rows.length) return;
+  if (schema.table === "transaction_reports") {
+    await convertTransactions(db, { txnIds: rows.map((r) => toStr(r.txn_id)) });
+  } else if (schema.table === "fx_rates") {
+    const currencies = [...new Set(rows.map((r) => toStr(r.currency)))];
+    const txnIds = await changedConversions(db, { currencies });
+    if (!txnIds.length) return;
+    await upload.snapshot(txnIds);
+    await convertTransactions(db, { txnIds });
+    await recordRowHistory(db, { uploadId: upload.uploadId, userId: upload.userId, schema: transactions, keys: txnIds });
+  }
+}
+
+/** Adds the base-currency columns to transaction_reports and converts what is missing; safe to run on every start. */
+export async function prepareFxConversion() {
+  try {
+    await query(`
+      ALTER TABLE transaction_reports ADD COLUMN IF NOT EXISTS amount_base NUMERIC;
+      ALTER TABLE transaction_reports ADD COLUMN IF NOT EXISTS base_currency TEXT;
+      ALTER TABLE transaction_reports ADD COLUMN IF NOT EXISTS fx_rate NUMERIC;
+      ALTER TABLE transaction_reports ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+    `);
+    const converted = await withTransaction(async (tx) => {
+      const txnIds = await changedConversions(tx, { staleOnly: true });
+      if (!txnIds.length) return 0;
+      await backfillRowHistory(tx, transactions, txnIds);
+      await convertTransactions(tx, { txnIds });
+      await recordRowHistory(tx, { uploadId: null, userId: null, schema: transactions, keys: txnIds });
+      return txnIds.length;
+    });
+    if (converted) logger.info(`Converted ${converted} transactions to ${CONFIG.FX.BASE_CURRENCY}`);
+  } catch (err: any) {
+    if (err?.code === "42P01") return; // transaction_reports not created yet
+    logger.error("Could not prepare FX conversion", { error: err?.message || err });
+  }
+}
+
+export interface TotalsFilter {
+  entity?: string | null;
+  period?: string | null;
+  from?: string | null; // transaction date range, inclusive
+  to?: string | null;
+}
+
+const TOTALS_WHERE = `
+   WHERE ($2::text IS NULL OR lower(entity) = lower($2))
+     AND ($3::text IS NULL OR period = $3)
+     AND ($4::text IS NULL OR left(date::text, 10) >= $4)
+     AND ($5::text IS NULL OR left(date::text, 10) <= $5)`;
+
+/**
+ * Transaction totals per entity and period in the base currency. Transactions without a rate are
+ * left out of `amount_base` and listed under `unconverted` in their own currency.
+ */
+export async function getTransactionTotals(filter: TotalsFilter) {
+  const params = [
+    CONFIG.FX.BASE_CURRENCY,
+    filter.entity ?? null,
+    filter.period ?? null,
+    filter.from ?? null,
+    filter.to ?? null,
+  ];
+  const totals = await query(
+    `SELECT upper(entity) AS entity, period,
+            COUNT(*)::int AS transactions,
+            (COUNT(*) FILTER (WHERE amount_base IS NOT NULL AND base_currency = $1))::int AS converted,
+            ROUND(COALESCE(SUM(amount_base) FILTER (WHERE base_currency = $1), 0), 2)::float AS amount_base
+       FROM transaction_reports ${TOTALS_WHERE}
+      GROUP BY upper(entity), period
+      ORDER BY 1, 2`,
+    params
+  );
+  const unconverted = await query(
+    `SELECT upper(entity) AS entity, period, COALESCE(NULLIF(upper(currency), ''), '(blank)') AS currency,
+            COUNT(*)::int AS transactions, ROUND(SUM(amount), 2)::float AS amount
+       FROM transaction_reports ${TOTALS_WHERE}
+        AND (amount_base IS NULL OR base_currency IS DISTINCT FROM $1)
+      GROUP BY 1, 2, 3
+      ORDER BY 1, 2, 3`,
+    params
+  );
+  return {
+    baseCurrency: CONFIG.FX.BASE_CURRENCY,
+    totals: totals.rows,
+    unconverted: unconverted.rows,
+  };
+}
+
+export async function listFxRates(filter: { currency?: string | null; from?: string | null; to?: string | null; limit: number }) {
+  const { rows } = await query(
+    `SELECT currency, date::text AS date, rate::float AS rate, source, source_file, loaded_at
+       FROM fx_rates
+      WHERE ($1::text IS NULL OR currency = upper($1))
+        AND ($2::date IS NULL OR date >= $2::date)
+        AND ($3::date IS NULL OR date <= $3::date)
+      ORDER BY date DESC, currency
+      LIMIT $4`,
+    [filter.currency ?? null, filter.from ?? null, filter.to ?? null, filter.limit]
+  );
+  return rows;
+}
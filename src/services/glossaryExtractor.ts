@@ -9,6 +9,7 @@ import pdfParse from "pdf-parse";
 import winston from "winston";
 import Joi from "joi";
 import type { Request, Response } from "express";
+import { isValidDate } from "../lib/reportValidation";
 
 // -------------------------------------------------------------------------------------
 // CONFIG
@@ -26,6 +27,9 @@ export const CONFIG = {
     MAX_ROWS_TO_ANALYZE: 1000,
     SAMPLE_VALUES_COUNT: 8,
     TYPE_DETECTION_SAMPLE_SIZE: 100,
+    RULE_CHUNK_SIZE: 12000, // characters of policy text per Gemini call
+    RULE_CHUNK_OVERLAP: 1500, // repeated between neighbouring chunks so no rule is only seen cut in half
+    MAX_RULE_CHUNKS: 60,
   },
   DATABASE: {
     MAX_BATCH_SIZE: 100,
@@ -107,6 +111,19 @@ export interface ProcessingResult {
   warnings?: string[];
 }
 
+export const RULE_SEVERITIES = ["Low", "Medium", "High", "Critical"] as const;
+
+export interface ExtractedRule {
+  rule_code?: string | null;
+  rule_text: string;
+  citations?: string[] | null;
+  tags?: string[] | null;
+  severity?: string | null;
+  effective_date?: string | null;  // YYYY-MM-DD if present
+  confidence?: number | null;      // 0..1
+  source_quote?: string | null;    // the document's own wording, used to anchor the rule to its page and section
+}
+
 export interface ExtractionResult {
   terms: GlossaryTerm[];
   warnings?: string[];
@@ -127,6 +144,7 @@ const uploadSchema = Joi.object({
 // -------------------------------------------------------------------------------------
 class EnhancedGeminiClient {
   private model: any;
+  private ruleModel: any;
   private genAI: GoogleGenerativeAI;
 
   constructor() {
@@ -144,6 +162,15 @@ class EnhancedGeminiClient {
         candidateCount: 1,
       },
     });
+    this.ruleModel = this.genAI.getGenerativeModel({
+      model: CONFIG.AI.MODEL,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: this.getPolicyRuleSchema(),
+        temperature: 0.1,
+        candidateCount: 1,
+      },
+    });
   }
 
 private getResponseSchema(): any {
@@ -178,7 +205,41 @@ private getResponseSchema(): any {
   } as const; // or just return as `any`
 }
 
+  private getPolicyRuleSchema(): any {
+    return {
+      type: SchemaType.OBJECT,
+      properties: {
+        rules: {
+          type: SchemaType.ARRAY,
+          items: {
+            type: SchemaType.OBJECT,
+            properties: {
+              rule_code: { type: SchemaType.STRING, nullable: true },
+              rule_text: { type: SchemaType.STRING },
+              citations: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+              tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+              severity: { type: SchemaType.STRING, format: "enum", enum: [...RULE_SEVERITIES] },
+              effective_date: { type: SchemaType.STRING, nullable: true },
+              confidence: { type: SchemaType.NUMBER },
+              source_quote: { type: SchemaType.STRING },
+            },
+            required: ["rule_text", "citations", "severity", "confidence", "source_quote"],
+          },
+        },
+      },
+      required: ["rules"],
+    };
+  }
+
   async extractTermsWithRetry(prompt: string): Promise<{ terms: GlossaryTerm[]; metadata?: any }> {
+    return this.generateJsonWithRetry(this.model, prompt);
+  }
+
+  async extractRulesWithRetry(prompt: string): Promise<{ rules: ExtractedRule[] }> {
+    return this.generateJsonWithRetry(this.ruleModel, prompt);
+  }
+
+  private async generateJsonWithRetry(model: any, prompt: string): Promise<any> {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= CONFIG.AI.MAX_RETRIES; attempt++) {
@@ -187,7 +248,7 @@ private getResponseSchema(): any {
 
         const startTime = Date.now();
         const result = await Promise.race([
-          this.model.generateContent({
+          model.generateContent({
             contents: [{ role: "user", parts: [{ text: prompt }] }],
           }),
           new Promise((_, reject) =>
@@ -395,7 +456,8 @@ export class FileProcessor {
     }
   }
 
-  private static profileColumns(rows: any[], sampleCount: number): ColumnPreview[] {
+  /** Per-column profile of the first MAX_ROWS_TO_ANALYZE rows; also used to score report uploads. */
+  static profileColumns(rows: any[], sampleCount: number): ColumnPreview[] {
     if (!rows.length) return [];
 
     const columns = Object.keys(rows[0] || {});
@@ -583,6 +645,40 @@ class PromptBuilder {
       ].join("\n");
     }
   }
+
+  static buildPolicyRulePrompt(options: { text: string; part: number; parts: number; title?: string }): string {
+    const { text, part, parts, title } = options;
+    return [
+      "You are a compliance analyst turning a bank policy document into a register of individual rules.",
+      "",
+      "A rule is one obligation, prohibition, limit or deadline that someone can comply with or breach.",
+      "Background, purpose statements and definitions are not rules.",
+      "",
+      "For each rule return:",
+      "- rule_code: the document's own number or code for it (e.g. '4.2.1', 'AML-07'); null if it has none",
+      "- rule_text: the rule as one self-contained sentence (who must do what, by when, with which thresholds);",
+      "  resolve pronouns and cross-references, keep amounts, limits and deadlines exactly as written",
+      "- citations: where it comes from, most specific first (e.g. 'Section 4.2 Customer Due Diligence', 'Annex B')",
+      "- tags: 1-4 short lower-case topics (e.g. 'kyc', 'reporting', 'data retention')",
+      "- severity: Critical for regulatory or legal breaches, High for material financial or customer harm,",
+      "  Medium for control and process failures, Low for administrative requirements",
+      "- effective_date: YYYY-MM-DD when the document states when the rule takes effect, otherwise null",
+      "- confidence: 0.0-1.0, how sure you are this is a binding rule stated as you wrote it",
+      "- source_quote: the sentence(s) the rule comes from, copied character for character from the document",
+      "  (no rewording, no ellipses), so reviewers can find it in the original",
+      "",
+      parts > 1
+        ? `This is part ${part} of ${parts} of the document. Parts overlap, so skip a rule that is cut off at ` +
+          "the very start or end of this excerpt: it appears whole in the neighbouring part."
+        : "",
+      title ? `Document: ${title}` : "",
+      "",
+      "Document Content:",
+      "---",
+      text,
+      "---",
+    ].join("\n");
+  }
 }
 
 // -------------------------------------------------------------------------------------
@@ -625,6 +721,101 @@ export function deduplicateTerms(terms: GlossaryTerm[]): GlossaryTerm[] {
   return Array.from(seen.values()).sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
 }
 
+// -------------------------------------------------------------------------------------
+// PUBLIC UTIL: POLICY RULES (exported)
+// -------------------------------------------------------------------------------------
+
+/**
+ * Splits text into chunks of at most `size` characters, each starting `overlap` characters before
+ * the previous one ended. Cuts fall on a paragraph, line or sentence end where one is near.
+ */
+export function splitTextIntoChunks(text: string, size: number, overlap: number): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const minCut = Math.floor(size * 0.6);
+      const cut = [/\n\s*\n(?=[^\n]*$)/, /\n(?=[^\n]*$)/, /[.;:](?=\s[^.;:]*$)/]
+        .map((re) => window.search(re))
+        .find((i) => i >= minCut);
+      if (cut !== undefined) end = start + cut + 1;
+    }
+    chunks.push(text.slice(start, end).trim());
+    if (end >= text.length) break;
+    // step back by the overlap, then forward to the next line start so a chunk never opens mid-line
+    let next = Math.max(end - overlap, start + 1);
+    const lineStart = text.indexOf("\n", next);
+    if (lineStart !== -1 && lineStart < end) next = lineStart + 1;
+    start = next;
+  }
+  return chunks.filter(Boolean);
+}
+
+function normalizeRuleKey(text: string) {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/** Cleans one rule from the model: trims strings, canonical severity, valid date or null, confidence 0..1. */
+export function normalizeExtractedRule(rule: ExtractedRule): ExtractedRule {
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+  const list = (v: unknown) => (Array.isArray(v) ? v.map(str).filter((x): x is string => !!x) : []);
+  const severity = RULE_SEVERITIES.find((s) => s.toLowerCase() === str(rule.severity)?.toLowerCase()) ?? null;
+  const date = str(rule.effective_date);
+  const validDate = date && /^\d{4}-\d{2}-\d{2}$/.test(date) && isValidDate(date) ? date : null;
+  const confidence = typeof rule.confidence === "number" && Number.isFinite(rule.confidence)
+    ? Math.max(0, Math.min(1, rule.confidence))
+    : null;
+  return {
+    rule_code: str(rule.rule_code),
+    rule_text: (str(rule.rule_text) ?? "").replace(/\s+/g, " "),
+    citations: list(rule.citations),
+    tags: [...new Set(list(rule.tags).map((t) => t.toLowerCase()))],
+    severity,
+    effective_date: validDate,
+    confidence,
+    source_quote: str(rule.source_quote)?.replace(/\s+/g, " ") ?? null,
+  };
+}
+
+/**
+ * Merges rules extracted twice (chunk overlap): same text once punctuation and case are ignored,
+ * or one text containing most of the other (a rule the model saw cut at a chunk edge). The longer text
+ * wins; citations and tags are merged, severity and confidence take the higher value.
+ * Document order is kept.
+ */
+export function deduplicateRules(rules: ExtractedRule[]): ExtractedRule[] {
+  const kept: { key: string; rule: ExtractedRule }[] = [];
+  const rank = (s?: string | null) => RULE_SEVERITIES.indexOf((s ?? "") as any);
+  // a fragment only counts when it is most of the rule, so a short rule is not merged into a longer one quoting it
+  const contains = (outer: string, inner: string) => outer.includes(inner) && inner.length >= outer.length * 0.6;
+
+  for (const rule of rules) {
+    const key = normalizeRuleKey(rule.rule_text);
+    if (!key) continue;
+    const same = kept.find((k) => k.key === key || contains(k.key, key) || contains(key, k.key));
+    if (!same) {
+      kept.push({ key, rule });
+      continue;
+    }
+    const [longer, shorter] = key.length > same.key.length ? [rule, same.rule] : [same.rule, rule];
+    same.key = normalizeRuleKey(longer.rule_text);
+    same.rule = {
+      ...longer,
+      rule_code: longer.rule_code ?? shorter.rule_code ?? null,
+      citations: Array.from(new Set([...(longer.citations || []), ...(shorter.citations || [])])),
+      tags: Array.from(new Set([...(longer.tags || []), ...(shorter.tags || [])])),
+      severity: rank(shorter.severity) > rank(longer.severity) ? shorter.severity : longer.severity ?? null,
+      effective_date: longer.effective_date ?? shorter.effective_date ?? null,
+      source_quote: longer.source_quote ?? shorter.source_quote ?? null,
+      confidence: Math.max(longer.confidence ?? 0, shorter.confidence ?? 0) || null,
+    };
+  }
+
+  return kept.map((k) => k.rule);
+}
+
 // -------------------------------------------------------------------------------------
 // FACTORY for background worker (exported)
 // -------------------------------------------------------------------------------------
@@ -670,6 +861,30 @@ export function createGlossaryExtractor() {
         columnPreview: columnPreview.length ? columnPreview : undefined,
       };
     },
+
+    /**
+     * Policy document text → rules. Long documents are sent in overlapping chunks, one call each
+     * (in order), and the rules found twice in the overlaps are merged. Throws if any chunk fails,
+     * so callers never store a register with a silent gap.
+     */
+    async extractPolicyRules(text: string, options: { title?: string } = {}): Promise<ExtractedRule[]> {
+      const chunks = splitTextIntoChunks(text, CONFIG.PROCESSING.RULE_CHUNK_SIZE, CONFIG.PROCESSING.RULE_CHUNK_OVERLAP);
+      if (chunks.length > CONFIG.PROCESSING.MAX_RULE_CHUNKS) {
+        throw new Error(`Policy document too long: ${chunks.length} chunks (max: ${CONFIG.PROCESSING.MAX_RULE_CHUNKS})`);
+      }
+
+      const rules: ExtractedRule[] = [];
+      for (let i = 0; i < chunks.length; i++) {
+        const prompt = PromptBuilder.buildPolicyRulePrompt({ text: chunks[i], part: i + 1, parts: chunks.length, title: options.title });
+        const aiResponse = await aiClient.extractRulesWithRetry(prompt);
+        const found = Array.isArray(aiResponse?.rules) ? aiResponse.rules : [];
+        rules.push(...found.map(normalizeExtractedRule).filter((r) => r.rule_text));
+      }
+
+      const deduped = deduplicateRules(rules);
+      logger.info(`Extracted ${deduped.length} policy rules from ${chunks.length} chunk(s) (${rules.length} before merging)`);
+      return deduped;
+    },
   };
 }
 
@@ -0,0 +1,214 @@
+// src/services/integrityChecks.ts
+// Storage for cross-report integrity checks (report_integrity_checks) and the post-upload run that
+// records failing rows (report_integrity_findings) and one compliance issue per check/entity/period.
+import { query, withTransaction } from "../db";
+import { logger } from "../lib/config";
+import { buildOrphanQuery, type IntegrityCheck, type IntegrityCheckInput } from "../lib/integrityChecks";
+import { resolveComplianceIssue, resolveComplianceIssuesByPrefix, upsertComplianceIssue } from "./complianceIssues";
+
+const CHECK_COLUMNS = `id, name, description, kind, column_name, target, target_columns, same_entity, severity, active, created_by, created_at, updated_at`;
+const MAX_FINDINGS_PER_CHECK = 1000;
+const ISSUE_SOURCE = "integrity_check";
+
+// Issues are keyed by check id, so they survive a rename; see resolveCheckIssues
+function issueKeyPrefix(checkId: string) {
+  return `integrity:${checkId}:`;
+}
+
+function issueKey(checkId: string, entityCode: string, period: string) {
+  return `${issueKeyPrefix(checkId)}${entityCode.toLowerCase()}:${period}`;
+}
+
+export async function listIntegrityChecks(filters: { kind?: string | null } = {}) {
+  const { rows } = await query(
+    `SELECT ${CHECK_COLUMNS} FROM report_integrity_checks
+     ${filters.kind ? `WHERE kind = $1 OR target = $1` : ""}
+     ORDER BY kind, name`,
+    filters.kind ? [filters.kind] : []
+  );
+  return rows as IntegrityCheck[];
+}
+
+export async function createIntegrityCheck(input: IntegrityCheckInput, userId: string | null): Promise<IntegrityCheck> {
+  const { rows } = await query(
+    `INSERT INTO report_integrity_checks
+       (name, description, kind, column_name, target, target_columns, same_entity, severity, active, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING ${CHECK_COLUMNS}`,
+    [
+      input.name.trim(),
+      input.description ?? null,
+      input.kind,
+      input.column_name,
+      input.target,
+      input.target_columns,
+      input.same_entity,
+      input.severity,
+      input.active ?? true,
+      userId,
+    ]
+  );
+  return rows[0];
+}
+
+/**
+ * Replaces a check's definition. Renaming it resolves its open issues (their descriptions name the
+ * old check); the next run reopens any that still fail. Null when there is no such check.
+ */
+export async function updateIntegrityCheck(
+  id: string,
+  input: IntegrityCheckInput
+): Promise<{ check: IntegrityCheck; issuesResolved: number } | null> {
+  return withTransaction(async (tx) => {
+    const { rows: current } = await tx.query(`SELECT name FROM report_integrity_checks WHERE id = $1 FOR UPDATE`, [id]);
+    if (!current.length) return null;
+    const { rows } = await tx.query(
+      `UPDATE report_integrity_checks
+          SET name = $2, description = $3, kind = $4, column_name = $5, target = $6, target_columns = $7,
+              same_entity = $8, severity = $9, active = $10, updated_at = NOW()
+        WHERE id = $1
+        RETURNING ${CHECK_COLUMNS}`,
+      [
+        id,
+        input.name.trim(),
+        input.description ?? null,
+        input.kind,
+        input.column_name,
+        input.target,
+        input.target_columns,
+        input.same_entity,
+        input.severity,
+        input.active ?? true,
+      ]
+    );
+    const check: IntegrityCheck = rows[0];
+    const issuesResolved =
+      check.name === current[0].name
+        ? 0
+        : await resolveComplianceIssuesByPrefix(issueKeyPrefix(id), `Integrity check renamed to ${check.name}`, tx);
+    return { check, issuesResolved };
+  });
+}
+
+/** Deletes a check (its findings cascade) and resolves its open issues. Null when there is no such check. */
+export async function deleteIntegrityCheck(id: string): Promise<{ issuesResolved: number } | null> {
+  return withTransaction(async (tx) => {
+    const { rowCount } = await tx.query(`DELETE FROM report_integrity_checks WHERE id = $1`, [id]);
+    if (!rowCount) return null;
+    return { issuesResolved: await resolveComplianceIssuesByPrefix(issueKeyPrefix(id), "Integrity check deleted", tx) };
+  });
+}
+
+export async function listUploadFindings(uploadId: string) {
+  const { rows } = await query(
+    `SELECT f.check_id, c.name AS check_name, c.description, f.issue_id, f.entity_code, f.period, f.key_value, f.value, f.found_at
+       FROM report_integrity_findings f
+       JOIN report_integrity_checks c ON c.id = f.check_id
+      WHERE f.upload_id = $1
+      ORDER BY c.name, f.key_value`,
+    [uploadId]
+  );
+  return rows;
+}
+
+export interface IntegrityRunSummary {
+  checksRun: number;
+  findings: number;
+  issues: { check: string; issueId: string; findings: number; truncated: boolean }[];
+  resolved: string[];
+  errors: { check: string; error: string }[];
+}
+
+/**
+ * Runs every active check touching `kind` (as the checked report or as the target; all checks when
+ * null) for one entity/period. Each check's findings replace those of its previous run for that
+ * entity/period; a check that now passes resolves its issue.
+ */
+export async function runIntegrityChecks(upload: {
+  uploadId: string | null; // null for a run requested outside an upload
+  kind: string | null;
+  entityCode: string;
+  period: string;
+}): Promise<IntegrityRunSummary> {
+  const checks = (await listIntegrityChecks({ kind: upload.kind })).filter((c) => c.active);
+  const summary: IntegrityRunSummary = { checksRun: 0, findings: 0, issues: [], resolved: [], errors: [] };
+
+  for (const check of checks) {
+    const dedupeKey = issueKey(check.id, upload.entityCode, upload.period);
+    try {
+      const { rows } = await query(buildOrphanQuery(check), [upload.entityCode, upload.period, MAX_FINDINGS_PER_CHECK + 1]);
+      summary.checksRun++;
+      const truncated = rows.length > MAX_FINDINGS_PER_CHECK;
+      const orphans = rows.slice(0, MAX_FINDINGS_PER_CHECK) as { key_value: string; value: string }[];
+
+      let issueId: string | null = null;
+      if (orphans.length) {
+        ({ issueId } = await upsertComplianceIssue({
+          dedupeKey,
+          issueType: "Referential Integrity",
+          entity: upload.entityCode,
+          severity: check.severity,
+          description:
+            `${check.description || check.name}: ${orphans.length}${truncated ? "+" : ""} ${check.kind} row(s) ` +
+            `for ${upload.entityCode} ${upload.period} (e.g. ${orphans.slice(0, 5).map((o) => o.value).join(", ")}).`,
+          source: ISSUE_SOURCE,
+          details: {
+            checkId: check.id,
+            check: check.name,
+            uploadId: upload.uploadId,
+            period: upload.period,
+            findings: orphans.length,
+            truncated,
+          },
+        }));
+        summary.findings += orphans.length;
+        summary.issues.push({ check: check.name, issueId, findings: orphans.length, truncated });
+      } else {
+        const note = upload.uploadId ? `Check passed after upload ${upload.uploadId}` : "Check passed on re-run";
+        const resolved = await resolveComplianceIssue(dedupeKey, note);
+        if (resolved) summary.resolved.push(resolved);
+      }
+
+      await withTransaction(async (tx) => {
+        await tx.query(
+          `DELETE FROM report_integrity_findings WHERE check_id = $1 AND lower(entity_code) = lower($2) AND period = $3`,
+          [check.id, upload.entityCode, upload.period]
+        );
+        if (!orphans.length) return;
+        await tx.query(
+          `INSERT INTO report_integrity_findings (check_id, upload_id, issue_id, entity_code, period, key_value, value)
+           SELECT $1, $2, $3, $4, $5, f.key_value, f.value
+             FROM unnest($6::text[], $7::text[]) AS f(key_value, value)`,
+          [
+            check.id,
+            upload.uploadId,
+            issueId,
+            upload.entityCode,
+            upload.period,
+            orphans.map((o) => o.key_value),
+            orphans.map((o) => o.value),
+          ]
+        );
+      });
+    } catch (err: any) {
+      logger.warn(`Integrity check ${check.name} failed: ${err?.message || err}`);
+      summary.errors.push({ check: check.name, error: err?.message || String(err) });
+    }
+  }
+  return summary;
+}
+
+/** Post-upload hook: integrity problems are reported, never allowed to fail the upload itself. */
+export async function runIntegrityChecksAfterUpload(upload: {
+  uploadId: string;
+  kind: string;
+  entityCode: string;
+  period: string;
+}): Promise<IntegrityRunSummary | null> {
+  try {
+    return await runIntegrityChecks(upload);
+  } catch (err: any) {
+    logger.error("Integrity checks could not run", { uploadId: upload.uploadId, error: err?.message || err });
+    return null;
+  }
+}
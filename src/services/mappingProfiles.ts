@@ -0,0 +1,82 @@
+// src/services/mappingProfiles.ts
+// Storage for per-entity column mapping profiles (report_mapping_profiles).
+import { query } from "../db";
+import type { MappingProfile, MappingProfileInput } from "../lib/columnMapping";
+
+const PROFILE_COLUMNS = `id, entity_code, kind, name, columns, transforms, created_by, created_at, updated_at`;
+
+export async function listMappingProfiles(filters: { entity?: string | null; kind?: string | null } = {}) {
+  const where: string[] = [];
+  const params: any[] = [];
+  if (filters.entity) {
+    params.push(filters.entity);
+    where.push(`entity_code = $${params.length}`);
+  }
+  if (filters.kind) {
+    params.push(filters.kind);
+    where.push(`kind = $${params.length}`);
+  }
+  const { rows } = await query(
+    `SELECT ${PROFILE_COLUMNS} FROM report_mapping_profiles
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY entity_code, kind NULLS FIRST`,
+    params
+  );
+  return rows as MappingProfile[];
+}
+
+export async function getMappingProfile(id: string): Promise<MappingProfile | null> {
+  const { rows } = await query(`SELECT ${PROFILE_COLUMNS} FROM report_mapping_profiles WHERE id = $1`, [id]);
+  return rows[0] ?? null;
+}
+
+/** Profiles that may apply to an upload from `entityCode`: kind-specific ones first, then the generic one. */
+export async function findProfilesForEntity(entityCode: string): Promise<MappingProfile[]> {
+  const { rows } = await query(
+    `SELECT ${PROFILE_COLUMNS} FROM report_mapping_profiles
+      WHERE lower(entity_code) = lower($1)
+      ORDER BY kind NULLS LAST`,
+    [entityCode]
+  );
+  return rows;
+}
+
+export async function createMappingProfile(input: MappingProfileInput, userId: string | null): Promise<MappingProfile> {
+  const { rows } = await query(
+    `INSERT INTO report_mapping_profiles (entity_code, kind, name, columns, transforms, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${PROFILE_COLUMNS}`,
+    [
+      input.entity_code.trim(),
+      input.kind || null,
+      input.name.trim(),
+      JSON.stringify(input.columns ?? {}),
+      JSON.stringify(input.transforms ?? {}),
+      userId,
+    ]
+  );
+  return rows[0];
+}
+
+export async function updateMappingProfile(id: string, input: MappingProfileInput): Promise<MappingProfile | null> {
+  const { rows } = await query(
+    `UPDATE report_mapping_profiles
+        SET entity_code = $2, kind = $3, name = $4, columns = $5, transforms = $6, updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${PROFILE_COLUMNS}`,
+    [
+      id,
+      input.entity_code.trim(),
+      input.kind || null,
+      input.name.trim(),
+      JSON.stringify(input.columns ?? {}),
+      JSON.stringify(input.transforms ?? {}),
+    ]
+  );
+  return rows[0] ?? null;
+}
+
+export async function deleteMappingProfile(id: string): Promise<boolean> {
+  const { rowCount } = await query(`DELETE FROM report_mapping_profiles WHERE id = $1`, [id]);
+  return (rowCount ?? 0) > 0;
+}
@@ -0,0 +1,126 @@
+// src/services/piiProtection.ts
+// The unmask audit trail (pii_unmask_audit) and the one-off migration that encrypts PII stored
+// before field-level encryption was enabled.
+import { query } from "../db";
+import { logger } from "../lib/config";
+import type { PiiAccess } from "../lib/piiAccess";
+import { encryptPiiFields, piiColumns } from "../lib/piiProtection";
+import { listReportSchemas, type ReportSchema } from "../lib/reportSchemas";
+
+const BACKFILL_BATCH = 500;
+const ENCRYPTED_LIKE = "enc:v1:%";
+
+/** Records that `access` was shown plain PII; a no-op for masked responses or when nothing was shown. */
+export async function auditPiiUnmask(
+  access: PiiAccess,
+  schema: ReportSchema,
+  args: { resource: string; keys: string[]; fields?: string[] } // fields default to every PII column
+) {
+  const fields = args.fields ?? piiColumns(schema).map((c) => c.column);
+  if (!access.unmask || !access.userId || !args.keys.length || !fields.length) return;
+  await query(
+    `INSERT INTO pii_unmask_audit (user_id, role, resource, kind, key_values, fields, reason)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [access.userId, access.role, args.resource, schema.kind, [...new Set(args.keys)], fields, access.reason]
+  );
+}
+
+export async function listPiiUnmaskAudit(filters: {
+  userId?: string | null;
+  key?: string | null;
+  since?: string | null;
+  limit: number;
+  offset: number;
+}) {
+  const { rows } = await query(
+    `SELECT id, user_id, role, resource, kind, key_values, fields, reason, accessed_at
+       FROM pii_unmask_audit
+      WHERE ($1::text IS NULL OR user_id = $1)
+        AND ($2::text IS NULL OR $2 = ANY(key_values))
+        AND ($3::timestamp IS NULL OR accessed_at >= $3::timestamp)
+      ORDER BY accessed_at DESC
+      LIMIT $4 OFFSET $5`,
+    [filters.userId ?? null, filters.key ?? null, filters.since ?? null, filters.limit, filters.offset]
+  );
+  return rows;
+}
+
+// ------------------ migration of plain values ------------------
+function plainCondition(columns: string[], ref: (c: string) => string) {
+  return columns.map((c) => `(NULLIF(trim(${ref(c)}), '') IS NOT NULL AND ${ref(c)} NOT LIKE '${ENCRYPTED_LIKE}')`).join(" OR ");
+}
+
+/** PII columns must be TEXT to hold ciphertext (customer_data_reports.dob was a DATE). */
+async function ensureTextColumns(schema: ReportSchema, columns: string[]) {
+  const { rows } = await query(
+    `SELECT column_name FROM information_schema.columns
+      WHERE table_name = $1 AND column_name = ANY($2) AND data_type <> 'text'`,
+    [schema.table, columns]
+  );
+  for (const r of rows) {
+    await query(`ALTER TABLE ${schema.table} ALTER COLUMN ${r.column_name} TYPE TEXT USING ${r.column_name}::text`);
+    logger.info(`PII column ${schema.table}.${r.column_name} converted to TEXT for encryption`);
+  }
+}
+
+async function encryptTableRows(schema: ReportSchema, columns: string[]) {
+  let total = 0;
+  for (;;) {
+    const { rows } = await query(
+      `SELECT ${schema.conflictKey}::text AS key, ${columns.join(", ")} FROM ${schema.table}
+        WHERE ${plainCondition(columns, (c) => c)}
+        LIMIT ${BACKFILL_BATCH}`
+    );
+    if (!rows.length) return total;
+    const sealed = rows.map((r: any) => encryptPiiFields(schema, r));
+    await query(
+      `UPDATE ${schema.table} t SET ${columns.map((c) => `${c} = v.${c}`).join(", ")}
+         FROM unnest($1::text[], ${columns.map((_, i) => `$${i + 2}::text[]`).join(", ")}) AS v(key, ${columns.join(", ")})
+        WHERE t.${schema.conflictKey}::text = v.key`,
+      [sealed.map((r: any) => r.key), ...columns.map((c) => sealed.map((r: any) => r[c]))]
+    );
+    total += rows.length;
+  }
+}
+
+/** Snapshots in report_row_history.data and report_row_versions.previous hold copies of the row. */
+async function encryptSnapshots(schema: ReportSchema, columns: string[], table: string, jsonColumn: string) {
+  let total = 0;
+  for (;;) {
+    const { rows } = await query(
+      `SELECT id, ${jsonColumn} AS snapshot FROM ${table}
+        WHERE table_name = $1 AND ${jsonColumn} IS NOT NULL
+          AND (${plainCondition(columns, (c) => `(${jsonColumn}->>'${c}')`)})
+        LIMIT ${BACKFILL_BATCH}`,
+      [schema.table]
+    );
+    if (!rows.length) return total;
+    await query(
+      `UPDATE ${table} t SET ${jsonColumn} = v.snapshot
+         FROM unnest($1::bigint[], $2::jsonb[]) AS v(id, snapshot)
+        WHERE t.id = v.id`,
+      [rows.map((r: any) => r.id), rows.map((r: any) => JSON.stringify(encryptPiiFields(schema, r.snapshot)))]
+    );
+    total += rows.length;
+  }
+}
+
+/** Encrypts every plain PII value still stored; safe to run on every start. */
+export async function encryptStoredPii() {
+  for (const schema of listReportSchemas()) {
+    const columns = piiColumns(schema).map((c) => c.column);
+    if (!columns.length) continue;
+    try {
+      await ensureTextColumns(schema, columns);
+      const rows = await encryptTableRows(schema, columns);
+      const history = await encryptSnapshots(schema, columns, "report_row_history", "data");
+      const versions = await encryptSnapshots(schema, columns, "report_row_versions", "previous");
+      if (rows || history || versions) {
+        logger.info(`Encrypted stored PII in ${schema.table}`, { rows, history, versions });
+      }
+    } catch (err: any) {
+      if (err?.code === "42P01") continue; // report table not created yet
+      logger.error(`Could not encrypt stored PII in ${schema.table}`, { error: err?.message || err });
+    }
+  }
+}
@@ -0,0 +1,302 @@
+// src/services/policyConditions.ts
+// Conditions attached to policy rules (policy_rule_conditions) and the post-upload run that
+// records violating rows (policy_rule_violations) and one compliance issue per condition/entity/
+// period. Only active conditions of approved rules are run.
+import { query, withTransaction } from "../db";
+import { logger } from "../lib/config";
+import { ISSUE_SEVERITIES, type IssueSeverity } from "../lib/integrityChecks";
+import { buildViolationQuery, compileCondition } from "../lib/ruleConditions";
+import { resolveComplianceIssue, resolveComplianceIssuesByPrefix, upsertComplianceIssue } from "./complianceIssues";
+import type { PipelineResult } from "./reportUploadPipeline";
+
+export interface RuleConditionInput {
+  kind?: string;
+  expression?: string;
+  description?: string | null;
+  severity?: string | null; // null: the rule's severity
+  active?: boolean;
+}
+
+interface RuleCondition {
+  id: string;
+  rule_id: string;
+  rule_code: string | null;
+  rule_text: string;
+  kind: string;
+  expression: string;
+  description: string | null;
+  severity: IssueSeverity;
+  active: boolean;
+}
+
+const CONDITION_COLUMNS = `c.id, c.rule_id, r.rule_code, r.rule_text, r.review_state, c.kind, c.expression, c.description,
+  COALESCE(c.severity, r.severity, 'Medium') AS severity, c.severity IS NULL AS severity_from_rule, c.active,
+  c.created_by, c.created_at, c.updated_at`;
+
+const CONDITION_FROM = `policy_rule_conditions c JOIN policy_rules r ON r.id = c.rule_id`;
+
+const MAX_VIOLATIONS_PER_CONDITION = 1000;
+const ISSUE_SOURCE = "policy_rule";
+
+function issueKeyPrefix(conditionId: string) {
+  return `policy_rule:${conditionId}:`;
+}
+
+function issueKey(conditionId: string, entityCode: string, period: string) {
+  return `${issueKeyPrefix(conditionId)}${entityCode.toLowerCase()}:${period}`;
+}
+
+function fail(status: number, error: string, detail: Record<string, any> = {}): PipelineResult {
+  return { status, body: { ok: false, error, ...detail } };
+}
+
+// Problems with a condition as it would be saved (kind and expression are both required by then)
+function conditionProblems(input: RuleConditionInput): string[] {
+  const problems = compileCondition(input.kind ?? "", input.expression ?? "").problems;
+  if (input.severity != null && !ISSUE_SEVERITIES.includes(input.severity as IssueSeverity)) {
+    problems.push(`severity must be one of ${ISSUE_SEVERITIES.join(", ")}`);
+  }
+  return problems;
+}
+
+export async function listRuleConditions(filters: { ruleId?: string | null; kind?: string | null } = {}) {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (filters.ruleId) {
+    params.push(filters.ruleId);
+    where.push(`c.rule_id = $${params.length}`);
+  }
+  if (filters.kind) {
+    params.push(filters.kind);
+    where.push(`c.kind = $${params.length}`);
+  }
+  const { rows } = await query(
+    `SELECT ${CONDITION_COLUMNS} FROM ${CONDITION_FROM}
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY r.rule_code NULLS LAST, c.created_at`,
+    params
+  );
+  return rows;
+}
+
+async function getRuleCondition(id: string) {
+  const { rows } = await query(`SELECT ${CONDITION_COLUMNS} FROM ${CONDITION_FROM} WHERE c.id = $1`, [id]);
+  return rows[0] ?? null;
+}
+
+export async function createRuleCondition(ruleId: string, input: RuleConditionInput, userId: string | null): Promise<PipelineResult> {
+  const { rows: rules } = await query(`SELECT review_state FROM policy_rules WHERE id::text = $1`, [ruleId]);
+  if (!rules.length) return fail(404, "RULE_NOT_FOUND");
+  if (rules[0].review_state === "retired") return fail(409, "RULE_RETIRED");
+  const problems = conditionProblems(input);
+  if (problems.length) return fail(400, "INVALID_CONDITION", { problems });
+
+  const { rows } = await query(
+    `INSERT INTO policy_rule_conditions (rule_id, kind, expression, description, severity, active, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id`,
+    [ruleId, input.kind, input.expression!.trim(), input.description ?? null, input.severity ?? null, input.active ?? true, userId]
+  );
+  return { status: 201, body: { ok: true, condition: await getRuleCondition(rows[0].id) } };
+}
+
+/** Changes the fields present in `patch`; the resulting condition is validated as a whole. */
+export async function updateRuleCondition(id: string, patch: RuleConditionInput): Promise<PipelineResult> {
+  const { rows } = await query(`SELECT kind, expression, description, severity, active FROM policy_rule_conditions WHERE id = $1`, [id]);
+  if (!rows.length) return fail(404, "CONDITION_NOT_FOUND");
+  const next: RuleConditionInput = { ...rows[0] };
+  for (const field of ["kind", "expression", "description", "severity", "active"] as const) {
+    if (patch[field] !== undefined) (next as any)[field] = patch[field];
+  }
+  const problems = conditionProblems(next);
+  if (problems.length) return fail(400, "INVALID_CONDITION", { problems });
+
+  await query(
+    `UPDATE policy_rule_conditions
+        SET kind = $2, expression = $3, description = $4, severity = $5, active = $6, updated_at = NOW()
+      WHERE id = $1`,
+    [id, next.kind, next.expression!.trim(), next.description ?? null, next.severity ?? null, next.active ?? true]
+  );
+  return { status: 200, body: { ok: true, condition: await getRuleCondition(id) } };
+}
+
+/**
+ * Deletes a condition (its violations cascade) and resolves the issues it opened, in one
+ * transaction. Null when there is no such condition.
+ */
+export async function deleteRuleCondition(id: string): Promise<{ issuesResolved: number } | null> {
+  return withTransaction(async (tx) => {
+    const { rowCount } = await tx.query(`DELETE FROM policy_rule_conditions WHERE id = $1`, [id]);
+    if (!rowCount) return null;
+    const issuesResolved = await resolveComplianceIssuesByPrefix(issueKeyPrefix(id), "Policy rule condition deleted", tx);
+    return { issuesResolved };
+  });
+}
+
+export async function listPolicyViolations(filters: { uploadId?: string | null; ruleId?: string | null }) {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (filters.uploadId) {
+    params.push(filters.uploadId);
+    where.push(`v.upload_id = $${params.length}`);
+  }
+  if (filters.ruleId) {
+    params.push(filters.ruleId);
+    where.push(`v.rule_id = $${params.length}`);
+  }
+  const { rows } = await query(
+    `SELECT v.condition_id, v.rule_id, r.rule_code, c.expression, v.upload_id, v.issue_id, v.entity_code, v.period,
+            v.key_value, v.row_values, v.found_at
+       FROM policy_rule_violations v
+       JOIN policy_rule_conditions c ON c.id = v.condition_id
+       JOIN policy_rules r ON r.id = v.rule_id
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY r.rule_code NULLS LAST, v.condition_id, v.key_value
+      LIMIT 5000`,
+    params
+  );
+  return rows;
+}
+
+export interface PolicyConditionRunSummary {
+  conditionsRun: number;
+  violations: number;
+  issues: { ruleId: string; conditionId: string; issueId: string; violations: number; truncated: boolean }[];
+  resolved: string[];
+  errors: { conditionId: string; error: string }[];
+}
+
+/**
+ * Runs the active conditions of approved rules over `kind` (all kinds when null) for one
+ * entity/period. Each condition's violations replace those of its previous run for that
+ * entity/period; a condition that now holds, or is no longer run, resolves its issue.
+ */
+export async function runPolicyConditions(upload: {
+  uploadId: string | null; // null for a run requested outside an upload
+  kind: string | null;
+  entityCode: string;
+  period: string;
+}): Promise<PolicyConditionRunSummary> {
+  const { rows: conditions } = await query(
+    `SELECT ${CONDITION_COLUMNS} FROM ${CONDITION_FROM}
+      WHERE c.active AND r.review_state = 'approved' ${upload.kind ? `AND c.kind = $1` : ""}
+      ORDER BY r.rule_code NULLS LAST, c.created_at`,
+    upload.kind ? [upload.kind] : []
+  );
+  const summary: PolicyConditionRunSummary = { conditionsRun: 0, violations: 0, issues: [], resolved: [], errors: [] };
+
+  for (const condition of conditions as RuleCondition[]) {
+    const dedupeKey = issueKey(condition.id, upload.entityCode, upload.period);
+    try {
+      const violationQuery = buildViolationQuery(condition.kind, condition.expression);
+      const { rows } = await query(violationQuery.sql, [
+        upload.entityCode,
+        upload.period,
+        MAX_VIOLATIONS_PER_CONDITION + 1,
+        ...violationQuery.params,
+      ]);
+      summary.conditionsRun++;
+      const truncated = rows.length > MAX_VIOLATIONS_PER_CONDITION;
+      const violations = rows.slice(0, MAX_VIOLATIONS_PER_CONDITION) as { key_value: string; row_values: object }[];
+      const rule = condition.rule_code || condition.rule_text.slice(0, 80);
+
+      let issueId: string | null = null;
+      if (violations.length) {
+        ({ issueId } = await upsertComplianceIssue({
+          dedupeKey,
+          issueType: "Policy Violation",
+          entity: upload.entityCode,
+          severity: condition.severity,
+          description:
+            `${condition.description || `Policy rule ${rule}`}: ${violations.length}${truncated ? "+" : ""} ` +
+            `${condition.kind} row(s) for ${upload.entityCode} ${upload.period} violate "${condition.expression}" ` +
+            `(e.g. ${violations.slice(0, 5).map((v) => v.key_value).join(", ")}).`,
+          source: ISSUE_SOURCE,
+          details: {
+            ruleId: condition.rule_id,
+            ruleCode: condition.rule_code,
+            conditionId: condition.id,
+            expression: condition.expression,
+            uploadId: upload.uploadId,
+            period: upload.period,
+            violations: violations.length,
+            truncated,
+            sample: violations.slice(0, 20).map((v) => v.key_value),
+          },
+        }));
+        summary.violations += violations.length;
+        summary.issues.push({ ruleId: condition.rule_id, conditionId: condition.id, issueId, violations: violations.length, truncated });
+      } else {
+        const note = upload.uploadId ? `Rule condition held after upload ${upload.uploadId}` : "Rule condition held on re-run";
+        const resolved = await resolveComplianceIssue(dedupeKey, note);
+        if (resolved) summary.resolved.push(resolved);
+      }
+
+      await withTransaction(async (tx) => {
+        await tx.query(
+          `DELETE FROM policy_rule_violations WHERE condition_id = $1 AND lower(entity_code) = lower($2) AND period = $3`,
+          [condition.id, upload.entityCode, upload.period]
+        );
+        if (!violations.length) return;
+        await tx.query(
+          `INSERT INTO policy_rule_violations (condition_id, rule_id, upload_id, issue_id, entity_code, period, key_value, row_values)
+           SELECT $1, $2, $3, $4, $5, $6, v.key_value, v.row_values
+             FROM unnest($7::text[], $8::jsonb[]) AS v(key_value, row_values)`,
+          [
+            condition.id,
+            condition.rule_id,
+            upload.uploadId,
+            issueId,
+            upload.entityCode,
+            upload.period,
+            violations.map((v) => v.key_value),
+            violations.map((v) => JSON.stringify(v.row_values)),
+          ]
+        );
+      });
+    } catch (err: any) {
+      logger.warn(`Policy rule condition ${condition.id} failed: ${err?.message || err}`);
+      summary.errors.push({ conditionId: condition.id, error: err?.message || String(err) });
+    }
+  }
+
+  // Conditions that stopped running (deactivated, or their rule is no longer approved) leave no
+  // open issue or violations behind for this entity/period
+  const { rows: stopped } = await query(
+    `SELECT DISTINCT v.condition_id
+       FROM policy_rule_violations v
+       JOIN policy_rule_conditions c ON c.id = v.condition_id
+       JOIN policy_rules r ON r.id = c.rule_id
+      WHERE lower(v.entity_code) = lower($1) AND v.period = $2
+        AND NOT (c.active AND r.review_state = 'approved')
+        ${upload.kind ? `AND c.kind = $3` : ""}`,
+    upload.kind ? [upload.entityCode, upload.period, upload.kind] : [upload.entityCode, upload.period]
+  );
+  for (const { condition_id } of stopped) {
+    const resolved = await resolveComplianceIssue(
+      issueKey(condition_id, upload.entityCode, upload.period),
+      "Rule condition is no longer checked (deactivated, or its rule is not approved)"
+    );
+    if (resolved) summary.resolved.push(resolved);
+    await query(
+      `DELETE FROM policy_rule_violations WHERE condition_id = $1 AND lower(entity_code) = lower($2) AND period = $3`,
+      [condition_id, upload.entityCode, upload.period]
+    );
+  }
+  return summary;
+}
+
+/** Post-upload hook: rule violations are reported, never allowed to fail the upload itself. */
+export async function runPolicyConditionsAfterUpload(upload: {
+  uploadId: string;
+  kind: string;
+  entityCode: string;
+  period: string;
+}): Promise<PolicyConditionRunSummary | null> {
+  try {
+    return await runPolicyConditions(upload);
+  } catch (err: any) {
+    logger.error("Policy rule conditions could not run", { uploadId: upload.uploadId, error: err?.message || err });
+    return null;
+  }
+}
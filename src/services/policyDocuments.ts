@@ -0,0 +1,290 @@
+// src/services/policyDocuments.ts
+// Parsed policy PDFs (policy_documents), grouped into versioned series by entity and title, and
+// the way back from a policy_rules row to the text it was extracted from. Each ingested version's
+// rules are linked to the previous version's (previous_rule_id, change_type), and any two
+// versions of a series can be diffed rule by rule.
+import { query, sharedDb, type DbExecutor } from "../db";
+import { CONFIG } from "../lib/config";
+import { pageAtOffset, sectionAtOffset, type PdfDocument, type PdfPage, type PdfSection } from "../lib/pdfStructure";
+import { diffWords, matchRules, normalizePolicyTitle, type RuleMatchThresholds } from "../lib/policyDiff";
+import type { PipelineResult } from "./reportUploadPipeline";
+
+export interface PolicyDocumentMeta {
+  entityCode: string | null;
+  title: string;
+  effectiveDate: string | null; // YYYY-MM-DD from the file name
+}
+
+export interface PolicyVersion {
+  series_id: string;
+  version: number;
+  previous_file_id: string | null;
+}
+
+export interface RuleChangeSummary {
+  added: number;
+  modified: number;
+  unchanged: number;
+  removed: number;
+}
+
+function fail(status: number, error: string, detail: Record<string, any> = {}): PipelineResult {
+  return { status, body: { ok: false, error, ...detail } };
+}
+
+export function ruleMatchThresholds(): RuleMatchThresholds {
+  return { textSimilarity: CONFIG.POLICY.RULE_MATCH_SIMILARITY, codeSimilarity: CONFIG.POLICY.CODE_MATCH_SIMILARITY };
+}
+
+/**
+ * Stores (or replaces) the parsed text of a PDF and places it in its series, on the caller's
+ * transaction. A new document becomes the series' next version; re-ingesting a file keeps the
+ * version it already had.
+ */
+export async function savePolicyDocument(
+  db: DbExecutor,
+  uploadedFileId: string,
+  filename: string,
+  doc: PdfDocument,
+  meta: PolicyDocumentMeta
+): Promise<PolicyVersion> {
+  const title = normalizePolicyTitle(meta.title) || "policies";
+  const seriesKey = `${(meta.entityCode ?? "").trim().toLowerCase()}|${title}`;
+  const series = await db.query(
+    `INSERT INTO policy_series (series_key, entity_code, title)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (series_key) DO UPDATE SET series_key = EXCLUDED.series_key
+     RETURNING id`,
+    [seriesKey, meta.entityCode, meta.title.trim() || title]
+  );
+  const seriesId: string = series.rows[0].id;
+  // one version number at a time per series
+  await db.query(`SELECT id FROM policy_series WHERE id = $1 FOR UPDATE`, [seriesId]);
+
+  const existing = await db.query(
+    `SELECT version, previous_file_id FROM policy_documents WHERE uploaded_file_id = $1 AND series_id = $2`,
+    [uploadedFileId, seriesId]
+  );
+  let version: PolicyVersion;
+  if (existing.rows.length) {
+    version = { series_id: seriesId, version: existing.rows[0].version, previous_file_id: existing.rows[0].previous_file_id };
+  } else {
+    const latest = await db.query(
+      `SELECT uploaded_file_id, version FROM policy_documents
+        WHERE series_id = $1 AND uploaded_file_id <> $2
+        ORDER BY version DESC LIMIT 1`,
+      [seriesId, uploadedFileId]
+    );
+    version = {
+      series_id: seriesId,
+      version: (latest.rows[0]?.version ?? 0) + 1,
+      previous_file_id: latest.rows[0]?.uploaded_file_id ?? null,
+    };
+  }
+
+  await db.query(
+    `INSERT INTO policy_documents
+       (uploaded_file_id, filename, text, page_count, pages, sections, series_id, version, effective_date, previous_file_id, parsed_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+     ON CONFLICT (uploaded_file_id) DO UPDATE
+        SET filename = EXCLUDED.filename, text = EXCLUDED.text, page_count = EXCLUDED.page_count,
+            pages = EXCLUDED.pages, sections = EXCLUDED.sections, series_id = EXCLUDED.series_id,
+            version = EXCLUDED.version, effective_date = EXCLUDED.effective_date,
+            previous_file_id = EXCLUDED.previous_file_id, parsed_at = NOW()`,
+    [
+      uploadedFileId,
+      filename,
+      doc.text,
+      doc.numpages,
+      JSON.stringify(doc.pages),
+      JSON.stringify(doc.sections),
+      version.series_id,
+      version.version,
+      meta.effectiveDate,
+      version.previous_file_id,
+    ]
+  );
+  return version;
+}
+
+async function loadRules(db: DbExecutor, fileId: string) {
+  const { rows } = await db.query(
+    `SELECT id::text AS id, rule_code, rule_text, severity, page_start, page_end, section_path
+       FROM policy_rules
+      WHERE source_file_id = $1
+      ORDER BY char_start NULLS LAST, rule_code`,
+    [fileId]
+  );
+  return rows as { id: string; rule_code: string | null; rule_text: string; [column: string]: any }[];
+}
+
+// Points each rule of `fileId` at its counterpart in `previousFileId` (or marks it added)
+async function linkRules(db: DbExecutor, fileId: string, previousFileId: string | null): Promise<RuleChangeSummary | null> {
+  const current = await loadRules(db, fileId);
+  if (!previousFileId) {
+    await db.query(
+      `UPDATE policy_rules SET previous_rule_id = NULL, change_type = NULL, change_similarity = NULL
+        WHERE source_file_id = $1`,
+      [fileId]
+    );
+    return null;
+  }
+  const previous = await loadRules(db, previousFileId);
+  const { matched, added, removed } = matchRules(previous, current, ruleMatchThresholds());
+  const links = [
+    ...matched.map((m) => ({ id: m.current.id, previous: m.previous.id, change: m.change, similarity: m.similarity })),
+    ...added.map((r) => ({ id: r.id, previous: null, change: "added", similarity: null })),
+  ];
+  if (links.length) {
+    await db.query(
+      `UPDATE policy_rules r
+          SET previous_rule_id = l.previous::uuid, change_type = l.change, change_similarity = l.similarity
+         FROM unnest($1::text[], $2::text[], $3::text[], $4::numeric[]) AS l(id, previous, change, similarity)
+        WHERE r.id::text = l.id`,
+      [links.map((l) => l.id), links.map((l) => l.previous), links.map((l) => l.change), links.map((l) => l.similarity)]
+    );
+  }
+  return {
+    added: added.length,
+    modified: matched.filter((m) => m.change === "modified").length,
+    unchanged: matched.filter((m) => m.change === "unchanged").length,
+    removed: removed.length,
+  };
+}
+
+/**
+ * Links a freshly inserted document's rules to the previous version's, and re-links the next
+ * version's rules when an older version was re-ingested (its rule ids changed). Returns the rule
+ * changes against the previous version, or null for a series' first version.
+ */
+export async function linkPolicyRuleVersions(db: DbExecutor, uploadedFileId: string, version: PolicyVersion) {
+  const changes = await linkRules(db, uploadedFileId, version.previous_file_id);
+  const next = await db.query(`SELECT uploaded_file_id FROM policy_documents WHERE previous_file_id = $1`, [uploadedFileId]);
+  for (const row of next.rows) await linkRules(db, row.uploaded_file_id, uploadedFileId);
+  return changes;
+}
+
+/** Policy series with their versions, newest first. */
+export async function listPolicySeries(filter: { entity?: string | null }) {
+  const { rows } = await query(
+    `SELECT s.id, s.entity_code, s.title, s.created_at,
+            COALESCE(json_agg(json_build_object(
+              'uploaded_file_id', d.uploaded_file_id, 'version', d.version, 'filename', d.filename,
+              'effective_date', d.effective_date, 'parsed_at', d.parsed_at, 'previous_file_id', d.previous_file_id,
+              'rules', (SELECT COUNT(*) FROM policy_rules r WHERE r.source_file_id = d.uploaded_file_id)
+            ) ORDER BY d.version DESC) FILTER (WHERE d.uploaded_file_id IS NOT NULL), '[]') AS versions
+       FROM policy_series s
+       LEFT JOIN policy_documents d ON d.series_id = s.id
+      WHERE ($1::text IS NULL OR lower(s.entity_code) = lower($1))
+      GROUP BY s.id
+      ORDER BY s.entity_code NULLS LAST, s.title`,
+    [filter.entity ?? null]
+  );
+  return rows;
+}
+
+const DOCUMENT_COLUMNS = `uploaded_file_id, filename, series_id, version, effective_date::text AS effective_date, previous_file_id, parsed_at`;
+
+async function diffDocuments(from: Record<string, any>, to: Record<string, any>) {
+  const [previous, current] = await Promise.all([loadRules(sharedDb, from.uploaded_file_id), loadRules(sharedDb, to.uploaded_file_id)]);
+  const { matched, added, removed } = matchRules(previous, current, ruleMatchThresholds());
+  const modified = matched.filter((m) => m.change === "modified");
+  return {
+    ok: true,
+    from,
+    to,
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      modified: modified.length,
+      unchanged: matched.length - modified.length,
+    },
+    added,
+    removed,
+    modified: modified.map((m) => ({
+      from: m.previous,
+      to: m.current,
+      similarity: m.similarity,
+      matched_by: m.matchedBy,
+      changes: diffWords(m.previous.rule_text, m.current.rule_text),
+    })),
+  };
+}
+
+/**
+ * Rule diff between two versions of the same series: `against` defaults to the version before
+ * `uploadedFileId`.
+ */
+export async function diffPolicyDocument(uploadedFileId: string, against: string | null): Promise<PipelineResult> {
+  const to = (await query(`SELECT ${DOCUMENT_COLUMNS} FROM policy_documents WHERE uploaded_file_id = $1`, [uploadedFileId])).rows[0];
+  if (!to) return fail(404, "POLICY_DOCUMENT_NOT_FOUND");
+  const fromId = against ?? to.previous_file_id;
+  if (!fromId) return fail(409, "NO_PREVIOUS_VERSION", { series_id: to.series_id, version: to.version });
+  const from = (await query(`SELECT ${DOCUMENT_COLUMNS} FROM policy_documents WHERE uploaded_file_id = $1`, [fromId])).rows[0];
+  if (!from) return fail(404, "POLICY_DOCUMENT_NOT_FOUND");
+  if (from.series_id !== to.series_id) return fail(409, "DIFFERENT_POLICY_SERIES");
+  return { status: 200, body: await diffDocuments(from, to) };
+}
+
+/**
+ * What changed in a series since `since` (YYYY-MM-DD): the version in force on that date (latest
+ * effective date, or ingest date when the file name had none, on or before it) against the latest
+ * version.
+ */
+export async function diffPolicySeriesSince(seriesId: string, since: string): Promise<PipelineResult> {
+  const { rows } = await query(
+    `SELECT ${DOCUMENT_COLUMNS}, COALESCE(effective_date, parsed_at::date) <= $2::date AS in_force
+       FROM policy_documents WHERE series_id = $1
+      ORDER BY version DESC`,
+    [seriesId, since]
+  );
+  if (!rows.length) return fail(404, "POLICY_SERIES_NOT_FOUND");
+  const { in_force: _latestInForce, ...to } = rows[0];
+  const baseline = rows.find((r: any) => r.in_force);
+  if (!baseline) return fail(409, "NO_VERSION_BEFORE_DATE", { since });
+  const { in_force: _inForce, ...from } = baseline;
+  return { status: 200, body: await diffDocuments(from, to) };
+}
+
+// Widens a cut to the nearest whitespace so context never starts or ends mid-word
+function widenToWord(text: string, offset: number, direction: -1 | 1) {
+  let i = offset;
+  while (i > 0 && i < text.length && !/\s/.test(text[i - (direction < 0 ? 1 : 0)])) i += direction;
+  return i;
+}
+
+/**
+ * A rule with the exact source text it was anchored to and `context` characters either side.
+ * `source` is null for rules that could not be located (or were ingested before anchoring).
+ */
+export async function getRuleSource(ruleId: string, context: number) {
+  const { rows } = await query(
+    `SELECT r.id, r.source_file_id, r.source_filename, r.rule_code, r.rule_text, r.citations, r.tags, r.severity,
+            r.effective_date, r.confidence, r.page_start, r.page_end, r.section_path, r.char_start, r.char_end,
+            d.text AS document_text, d.pages, d.sections
+       FROM policy_rules r
+       LEFT JOIN policy_documents d ON d.uploaded_file_id = r.source_file_id
+      WHERE r.id::text = $1`,
+    [ruleId]
+  );
+  if (!rows.length) return null;
+  const { document_text: text, pages, sections, ...rule } = rows[0];
+  if (text === null || rule.char_start === null || rule.char_end === null) return { rule, source: null };
+
+  const start = Number(rule.char_start);
+  const end = Number(rule.char_end);
+  const from = widenToWord(text, Math.max(0, start - context), -1);
+  const to = widenToWord(text, Math.min(text.length, end + context), 1);
+  const section = sectionAtOffset(sections as PdfSection[], start);
+  return {
+    rule,
+    source: {
+      text: text.slice(start, end),
+      before: text.slice(from, start),
+      after: text.slice(end, to),
+      page_start: pageAtOffset(pages as PdfPage[], start),
+      page_end: pageAtOffset(pages as PdfPage[], end - 1),
+      section: section ? { label: section.label, path: section.path, page: section.page } : null,
+    },
+  };
+}
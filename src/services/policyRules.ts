@@ -0,0 +1,417 @@
+// src/services/policyRules.ts
+// Human review of extracted policy rules. Rules land as drafts; a reviewer submits them, a team
+// lead approves (or rejects back to draft) and eventually retires them. Only approved rules are
+// used by the chatbot and automated checks. Every edit and state change is logged to
+// policy_rule_reviews.
+import { query, withTransaction, type DbExecutor } from "../db";
+import { isValidDate } from "../lib/reportValidation";
+import { matchRules } from "../lib/policyDiff";
+import { RULE_SEVERITIES } from "./glossaryExtractor";
+import { ruleMatchThresholds } from "./policyDocuments";
+import type { PipelineResult } from "./reportUploadPipeline";
+
+export const REVIEW_STATES = ["draft", "under_review", "approved", "retired"] as const;
+export type ReviewState = (typeof REVIEW_STATES)[number];
+export type ReviewAction = "submit" | "approve" | "reject" | "retire" | "reopen";
+
+// Allowed source states and the resulting state of each review action
+const TRANSITIONS: Record<ReviewAction, { from: ReviewState[]; to: ReviewState }> = {
+  submit: { from: ["draft"], to: "under_review" },
+  approve: { from: ["under_review"], to: "approved" },
+  reject: { from: ["under_review", "approved"], to: "draft" },
+  retire: { from: ["draft", "under_review", "approved"], to: "retired" },
+  reopen: { from: ["retired"], to: "draft" },
+};
+
+const EDITABLE_FIELDS = ["rule_code", "rule_text", "citations", "tags", "severity", "effective_date"] as const;
+type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+const RULE_COLUMNS = `r.id::text AS id, r.source_file_id, r.source_filename, r.rule_code, r.rule_text, r.citations, r.tags,
+  r.severity, r.effective_date::text AS effective_date, r.confidence::float AS confidence, r.page_start, r.page_end,
+  r.section_path, r.previous_rule_id, r.change_type, r.review_state, r.reviewed_by, r.reviewed_at, r.review_note,
+  r.updated_by, r.updated_at, s.entity_code, s.title AS policy_title, d.version AS policy_version`;
+
+const RULE_FROM = `policy_rules r
+  LEFT JOIN policy_documents d ON d.uploaded_file_id = r.source_file_id
+  LEFT JOIN policy_series s ON s.id = d.series_id`;
+
+function fail(status: number, error: string, detail: Record<string, any> = {}): PipelineResult {
+  return { status, body: { ok: false, error, ...detail } };
+}
+
+export interface PolicyRuleFilter {
+  entity?: string | null;
+  tag?: string | null;
+  severity?: string | null;
+  sourceFileId?: string | null;
+  state?: ReviewState | null;
+  search?: string | null; // substring of rule text or code
+  limit: number;
+  offset: number;
+}
+
+export async function listPolicyRules(filter: PolicyRuleFilter) {
+  const params = [
+    filter.entity ?? null,
+    filter.tag ?? null,
+    filter.severity ?? null,
+    filter.sourceFileId ?? null,
+    filter.state ?? null,
+    filter.search ? `%${filter.search}%` : null,
+  ];
+  const where = `
+   WHERE ($1::text IS NULL OR lower(s.entity_code) = lower($1))
+     AND ($2::text IS NULL OR EXISTS (SELECT 1 FROM unnest(r.tags) t WHERE lower(t) = lower($2)))
+     AND ($3::text IS NULL OR lower(r.severity) = lower($3))
+     AND ($4::text IS NULL OR r.source_file_id::text = $4)
+     AND ($5::text IS NULL OR r.review_state = $5)
+     AND ($6::text IS NULL OR r.rule_text ILIKE $6 OR r.rule_code ILIKE $6)`;
+  const { rows } = await query(
+    `SELECT ${RULE_COLUMNS} FROM ${RULE_FROM} ${where}
+      ORDER BY r.source_filename, r.char_start NULLS LAST, r.rule_code
+      LIMIT $7 OFFSET $8`,
+    [...params, filter.limit, filter.offset]
+  );
+  const total = await query(`SELECT COUNT(*)::int AS n FROM ${RULE_FROM} ${where}`, params);
+  return { rules: rows, total: total.rows[0]?.n ?? 0 };
+}
+
+/** A rule with its review log (oldest first), or null. */
+export async function getPolicyRule(id: string) {
+  const { rows } = await query(`SELECT ${RULE_COLUMNS} FROM ${RULE_FROM} WHERE r.id::text = $1`, [id]);
+  if (!rows.length) return null;
+  const reviews = await query(
+    `SELECT action, from_state, to_state, changes, note, actor, created_at
+       FROM policy_rule_reviews WHERE rule_id = $1 ORDER BY created_at, id`,
+    [id]
+  );
+  return { ...rows[0], reviews: reviews.rows };
+}
+
+function textList(value: unknown) {
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) return null;
+  return [...new Set((value as string[]).map((v) => v.trim()).filter(Boolean))];
+}
+
+// Validated, canonical values for the fields present in `patch`; `error` names the first bad field
+function validatePatch(patch: Record<string, unknown>): { values: Partial<Record<EditableField, any>>; error?: string } {
+  const values: Partial<Record<EditableField, any>> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (!(field in patch)) continue;
+    const value = patch[field];
+    switch (field) {
+      case "rule_text": {
+        if (typeof value !== "string" || !value.trim()) return { values, error: "INVALID_RULE_TEXT" };
+        values.rule_text = value.trim();
+        break;
+      }
+      case "rule_code": {
+        if (value !== null && typeof value !== "string") return { values, error: "INVALID_RULE_CODE" };
+        values.rule_code = typeof value === "string" && value.trim() ? value.trim() : null;
+        break;
+      }
+      case "citations":
+      case "tags": {
+        const list = textList(value);
+        if (!list) return { values, error: field === "tags" ? "INVALID_TAGS" : "INVALID_CITATIONS" };
+        values[field] = list;
+        break;
+      }
+      case "severity": {
+        if (value === null) {
+          values.severity = null;
+          break;
+        }
+        const severity = RULE_SEVERITIES.find((s) => typeof value === "string" && s.toLowerCase() === value.trim().toLowerCase());
+        if (!severity) return { values, error: "INVALID_SEVERITY" };
+        values.severity = severity;
+        break;
+      }
+      case "effective_date": {
+        if (value !== null && (typeof value !== "string" || !isValidDate(value))) return { values, error: "INVALID_DATE" };
+        values.effective_date = value;
+        break;
+      }
+    }
+  }
+  return { values };
+}
+
+async function logReview(
+  db: DbExecutor,
+  entry: { ruleId: string; action: string; from: string | null; to: string | null; changes?: unknown; note?: string | null; actor: string | null }
+) {
+  await db.query(
+    `INSERT INTO policy_rule_reviews (rule_id, action, from_state, to_state, changes, note, actor)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [entry.ruleId, entry.action, entry.from, entry.to, entry.changes ? JSON.stringify(entry.changes) : null, entry.note ?? null, entry.actor]
+  );
+}
+
+/**
+ * Edits a rule's content. Retired rules cannot be edited; editing an approved rule sends it back
+ * to draft, since the approved wording no longer applies.
+ */
+export async function updatePolicyRule(id: string, patch: Record<string, unknown>, userId: string | null): Promise<PipelineResult> {
+  const { values, error } = validatePatch(patch);
+  if (error) return fail(400, error);
+  const fields = Object.keys(values) as EditableField[];
+  if (!fields.length) return fail(400, "NOTHING_TO_UPDATE", { editable: EDITABLE_FIELDS });
+
+  const result = await withTransaction(async (tx): Promise<PipelineResult> => {
+    const { rows } = await tx.query(
+      `SELECT id::text AS id, ${fields.join(", ")}, review_state FROM policy_rules WHERE id::text = $1 FOR UPDATE`,
+      [id]
+    );
+    const rule = rows[0];
+    if (!rule) return fail(404, "RULE_NOT_FOUND");
+    if (rule.review_state === "retired") return fail(409, "RULE_RETIRED");
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const field of fields) {
+      const before = field === "effective_date" && rule[field] instanceof Date ? rule[field].toISOString().slice(0, 10) : rule[field];
+      if (JSON.stringify(before ?? null) !== JSON.stringify(values[field] ?? null)) changes[field] = { from: before ?? null, to: values[field] };
+    }
+    const changed = Object.keys(changes) as EditableField[];
+    if (!changed.length) return { status: 200, body: { ok: true, changed: false } };
+
+    const state = rule.review_state === "approved" ? "draft" : rule.review_state;
+    await tx.query(
+      `UPDATE policy_rules
+          SET ${changed.map((f, i) => `${f} = $${i + 2}`).join(", ")},
+              review_state = $${changed.length + 2}, updated_by = $${changed.length + 3}, updated_at = NOW()
+        WHERE id::text = $1`,
+      [id, ...changed.map((f) => values[f]), state, userId]
+    );
+    await logReview(tx, { ruleId: id, action: "edit", from: rule.review_state, to: state, changes, actor: userId });
+    return { status: 200, body: { ok: true, changed: true } };
+  });
+  if (result.status === 200) result.body.rule = await getPolicyRule(id);
+  return result;
+}
+
+/**
+ * Applies a review action to each rule; rules whose state does not allow it are skipped and
+ * reported. Approving a rule that supersedes an approved rule of the previous policy version
+ * retires that rule and moves its conditions to the approved rule.
+ */
+export async function reviewPolicyRules(
+  target: { ids?: string[]; sourceFileId?: string | null },
+  action: ReviewAction,
+  userId: string | null,
+  note: string | null = null
+) {
+  const transition = TRANSITIONS[action];
+  return withTransaction(async (tx) => {
+    const { rows } = await tx.query(
+      `SELECT id::text AS id, review_state, previous_rule_id FROM policy_rules
+        WHERE ($1::text[] IS NULL OR id::text = ANY($1))
+          AND ($2::text IS NULL OR source_file_id::text = $2)
+        ORDER BY id
+        FOR UPDATE`,
+      [target.ids ?? null, target.sourceFileId ?? null]
+    );
+    const found = new Set(rows.map((r: any) => r.id));
+    const skipped: { id: string; review_state: string | null; reason: string }[] = (target.ids ?? [])
+      .filter((id) => !found.has(id))
+      .map((id) => ({ id, review_state: null, reason: "RULE_NOT_FOUND" }));
+    const updated: string[] = [];
+    const superseded: string[] = [];
+    let conditionsMoved = 0;
+
+    for (const rule of rows) {
+      if (!transition.from.includes(rule.review_state)) {
+        skipped.push({ id: rule.id, review_state: rule.review_state, reason: "INVALID_TRANSITION" });
+        continue;
+      }
+      await tx.query(
+        `UPDATE policy_rules SET review_state = $2, reviewed_by = $3, reviewed_at = NOW(), review_note = $4
+          WHERE id::text = $1`,
+        [rule.id, transition.to, userId, note]
+      );
+      await logReview(tx, { ruleId: rule.id, action, from: rule.review_state, to: transition.to, note, actor: userId });
+      updated.push(rule.id);
+
+      if (action === "approve" && rule.previous_rule_id) {
+        const retired = await tx.query(
+          `UPDATE policy_rules SET review_state = 'retired', reviewed_by = $2, reviewed_at = NOW(), review_note = $3
+            WHERE id::text = $1 AND review_state = 'approved'
+            RETURNING id::text AS id`,
+          [rule.previous_rule_id, userId, `superseded by ${rule.id}`]
+        );
+        for (const r of retired.rows) {
+          await logReview(tx, { ruleId: r.id, action: "retire", from: "approved", to: "retired", note: `superseded by ${rule.id}`, actor: userId });
+          superseded.push(r.id);
+          // the rule's checks carry over to the rule replacing it (issues stay keyed by condition)
+          const moved = await tx.query(
+            `UPDATE policy_rule_conditions SET rule_id = $2, updated_at = NOW() WHERE rule_id = $1`,
+            [r.id, rule.id]
+          );
+          conditionsMoved += moved.rowCount ?? 0;
+          await tx.query(`UPDATE policy_rule_violations SET rule_id = $2 WHERE rule_id = $1`, [r.id, rule.id]);
+        }
+      }
+    }
+    return { action, review_state: transition.to, updated, skipped, superseded, conditions_moved: conditionsMoved };
+  });
+}
+
+/** Approved rules for the chatbot and automated checks, highest severity first. */
+export async function listApprovedPolicyRules(filter: { entity?: string | null; limit?: number } = {}) {
+  const { rows } = await query(
+    `SELECT ${RULE_COLUMNS} FROM ${RULE_FROM}
+      WHERE r.review_state = 'approved'
+        AND ($1::text IS NULL OR s.entity_code IS NULL OR lower(s.entity_code) = lower($1))
+      ORDER BY array_position($2::text[], r.severity) DESC NULLS LAST, r.reviewed_at DESC NULLS LAST
+      LIMIT $3`,
+    [filter.entity ?? null, [...RULE_SEVERITIES], filter.limit ?? 1000]
+  );
+  return rows;
+}
+
+export interface ReingestedRule {
+  rule_code?: string | null;
+  rule_text: string;
+  citations?: string[] | null;
+  tags?: string[] | null;
+  severity?: string | null;
+  effective_date?: string | null;
+  confidence?: number | null;
+  page_start: number | null;
+  page_end: number | null;
+  section_path: string[];
+  char_start: number | null;
+  char_end: number | null;
+}
+
+interface StoredRule {
+  id: string;
+  rule_code: string | null;
+  rule_text: string;
+  review_state: ReviewState;
+  edited: boolean;
+  has_conditions: boolean;
+  char_start: number | null;
+  char_end: number | null;
+}
+
+const MIN_ANCHOR_OVERLAP = 0.5; // share of the longer span two anchors must have in common
+
+// Pairs stored and extracted rules whose source spans overlap, best overlap first
+function matchByAnchor<T extends ReingestedRule>(stored: StoredRule[], extracted: T[]) {
+  const candidates: { si: number; ei: number; overlap: number }[] = [];
+  stored.forEach((s, si) => {
+    if (s.char_start === null || s.char_end === null) return;
+    extracted.forEach((e, ei) => {
+      if (e.char_start === null || e.char_end === null) return;
+      const shared = Math.min(s.char_end!, e.char_end!) - Math.max(s.char_start!, e.char_start!);
+      const longest = Math.max(s.char_end! - s.char_start!, e.char_end! - e.char_start!, 1);
+      if (shared / longest >= MIN_ANCHOR_OVERLAP) candidates.push({ si, ei, overlap: shared / longest });
+    });
+  });
+  candidates.sort((x, y) => y.overlap - x.overlap || x.ei - y.ei);
+  const pairs = new Map<number, number>(); // extracted index → stored index
+  const usedStored = new Set<number>();
+  for (const c of candidates) {
+    if (pairs.has(c.ei) || usedStored.has(c.si)) continue;
+    pairs.set(c.ei, c.si);
+    usedStored.add(c.si);
+  }
+  return pairs;
+}
+
+/**
+ * Reconciles a re-ingested file's extracted rules with the rules already stored for it, so a
+ * rule keeps its id, review state and history across re-ingests. Rules are paired by source
+ * anchor first, then by rule code and text as between policy versions. A paired rule gets the new
+ * anchor; its content is replaced only while it is an unedited draft. A stored rule with no
+ * counterpart is deleted while it is an unedited draft without conditions and retired otherwise. Returns the
+ * extracted rules still to be inserted.
+ */
+export async function reconcileReingestedRules<T extends ReingestedRule>(
+  db: DbExecutor,
+  sourceFileId: string,
+  sourceFilename: string,
+  extracted: T[],
+  userId: string | null
+): Promise<{ unmatched: T[]; kept: number; removed: number; retired: number }> {
+  const { rows: stored } = await db.query(
+    `SELECT id::text AS id, rule_code, rule_text, review_state, updated_by IS NOT NULL AS edited,
+            EXISTS (SELECT 1 FROM policy_rule_conditions c WHERE c.rule_id = r.id) AS has_conditions, char_start, char_end
+       FROM policy_rules r WHERE source_file_id = $1
+      ORDER BY char_start NULLS LAST, id
+      FOR UPDATE`,
+    [sourceFileId]
+  );
+  const rules = stored as StoredRule[];
+
+  const pairs = matchByAnchor(rules, extracted);
+  const pairedStored = new Set(pairs.values());
+  const restStored = rules.map((_, i) => i).filter((i) => !pairedStored.has(i));
+  const restExtracted = extracted.map((_, i) => i).filter((i) => !pairs.has(i));
+  const { matched } = matchRules(
+    restStored.map((i) => ({ ...rules[i], index: i })),
+    restExtracted.map((i) => ({ id: String(i), rule_code: extracted[i].rule_code ?? null, rule_text: extracted[i].rule_text, index: i })),
+    ruleMatchThresholds()
+  );
+  for (const m of matched) pairs.set(m.current.index, m.previous.index);
+
+  for (const [ei, si] of pairs) {
+    const rule = extracted[ei];
+    const target = rules[si];
+    const keepContent = target.edited || target.review_state !== "draft";
+    await db.query(
+      `UPDATE policy_rules
+          SET source_filename = $2, page_start = $3, page_end = $4, section_path = $5, char_start = $6, char_end = $7
+              ${keepContent ? "" : `, rule_code = $8, rule_text = $9, citations = $10, tags = $11, severity = $12,
+              effective_date = $13, confidence = $14`}
+        WHERE id::text = $1`,
+      [
+        target.id,
+        sourceFilename,
+        rule.page_start,
+        rule.page_end,
+        rule.section_path,
+        rule.char_start,
+        rule.char_end,
+        ...(keepContent
+          ? []
+          : [
+              rule.rule_code ?? null,
+              rule.rule_text,
+              rule.citations ?? [],
+              rule.tags ?? [],
+              rule.severity ?? null,
+              rule.effective_date ?? null,
+              rule.confidence ?? null,
+            ]),
+      ]
+    );
+  }
+
+  const paired = new Set(pairs.values());
+  const gone = rules.filter((_, i) => !paired.has(i));
+  const drafts = gone.filter((r) => r.review_state === "draft" && !r.edited && !r.has_conditions).map((r) => r.id);
+  if (drafts.length) {
+    await db.query(`DELETE FROM policy_rule_reviews WHERE rule_id = ANY($1::uuid[])`, [drafts]);
+    await db.query(`DELETE FROM policy_rules WHERE id::text = ANY($1::text[])`, [drafts]);
+  }
+  let retired = 0;
+  for (const rule of gone.filter((r) => !drafts.includes(r.id) && r.review_state !== "retired")) {
+    const note = "no longer extracted on re-ingest";
+    await db.query(
+      `UPDATE policy_rules SET review_state = 'retired', reviewed_by = $2, reviewed_at = NOW(), review_note = $3
+        WHERE id::text = $1`,
+      [rule.id, userId, note]
+    );
+    await logReview(db, { ruleId: rule.id, action: "retire", from: rule.review_state, to: "retired", note, actor: userId });
+    retired++;
+  }
+
+  return {
+    unmatched: extracted.filter((_, i) => !pairs.has(i)),
+    kept: pairs.size,
+    removed: drafts.length,
+    retired,
+  };
+}
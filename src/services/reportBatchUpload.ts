@@ -0,0 +1,130 @@
+// src/services/reportBatchUpload.ts
+// Runs several files through the report upload pipeline and reports on each one, shaped like the
+// glossary's multi-file results. One file failing never stops the others.
+import crypto from "crypto";
+import { CONFIG, logger } from "../lib/config";
+import type { FailedFile, ProcessingOptions } from "../lib/glossary-types";
+import { processReportUpload, type IncomingFile, type PipelineOptions } from "./reportUploadPipeline";
+
+export type BatchProcessingMode = ProcessingOptions["processingMode"];
+
+export interface ReportFileResult {
+  filename: string;
+  processingTime: number;
+  warnings: string[];
+  status: "success" | "failed";
+  error?: string;
+  httpStatus: number;
+  result: Record<string, any>; // the body POST /upload would have returned for this file
+}
+
+export interface ReportBatchResult {
+  batchId: string;
+  processingMode: BatchProcessingMode;
+  totalFiles: number;
+  successfulFiles: number;
+  failedFiles: FailedFile[];
+  totalRowsAccepted: number;
+  totalProcessingTime: number;
+  results: ReportFileResult[];
+  globalWarnings: string[];
+}
+
+function fileWarnings(body: Record<string, any>): string[] {
+  const warnings: string[] = [];
+  if (body.replayed) warnings.push(`already ingested (${body.replayedBecause}); original result returned`);
+  if (body.rejected) warnings.push(`${body.rejected} row(s) rejected`);
+  if (body.unmappedColumns?.length) warnings.push(`unmapped columns: ${body.unmappedColumns.join(", ")}`);
+  for (const u of body.unexpectedValues ?? []) warnings.push(`unexpected ${u.column} "${u.value}" in ${u.rows} row(s)`);
+  for (const sheet of body.sheets ?? []) {
+    if (!sheet.ok) warnings.push(`sheet "${sheet.sheet}" skipped: ${sheet.error}`);
+    else if (sheet.rejected) warnings.push(`sheet "${sheet.sheet}": ${sheet.rejected} row(s) rejected`);
+  }
+  return warnings;
+}
+
+function rowsAccepted(body: Record<string, any>): number {
+  if (Array.isArray(body.sheets)) return body.sheets.reduce((n: number, s: any) => n + (s.ok ? rowsAccepted(s) : 0), 0);
+  if (body.dryRun) return (body.wouldInsert ?? 0) + (body.wouldUpdate ?? 0);
+  return body.accepted ?? body.rules_inserted ?? 0;
+}
+
+async function processOne(file: IncomingFile, opts: PipelineOptions): Promise<ReportFileResult> {
+  const started = Date.now();
+  try {
+    const { status, body } = await processReportUpload(file, opts);
+    const ok = status < 400 && body.ok !== false;
+    return {
+      filename: file.originalName,
+      processingTime: Date.now() - started,
+      warnings: fileWarnings(body),
+      status: ok ? "success" : "failed",
+      ...(ok ? {} : { error: String(body.error ?? "UPLOAD_FAILED") }),
+      httpStatus: status,
+      result: body,
+    };
+  } catch (err: any) {
+    logger?.error?.(err);
+    const error = err?.message || "UPLOAD_INGEST_ERROR";
+    return {
+      filename: file.originalName,
+      processingTime: Date.now() - started,
+      warnings: [],
+      status: "failed",
+      error,
+      httpStatus: 500,
+      result: { ok: false, error },
+    };
+  }
+}
+
+/**
+ * Ingests every file with the same options. "parallel" runs up to BATCH_CONCURRENCY files at once;
+ * results always come back in upload order.
+ */
+export async function processReportBatch(
+  files: IncomingFile[],
+  opts: PipelineOptions,
+  processingMode: BatchProcessingMode
+): Promise<ReportBatchResult> {
+  const started = Date.now();
+  const results: ReportFileResult[] = new Array(files.length);
+  const workers = processingMode === "parallel" ? Math.min(CONFIG.PROCESSING.BATCH_CONCURRENCY, files.length) : 1;
+
+  let next = 0;
+  await Promise.all(
+    Array.from({ length: workers }, async () => {
+      while (next < files.length) {
+        const i = next++;
+        results[i] = await processOne(files[i], opts);
+      }
+    })
+  );
+
+  const failedFiles: FailedFile[] = results
+    .map((r, i) => ({ r, size: files[i].size }))
+    .filter(({ r }) => r.status === "failed")
+    .map(({ r, size }) => ({ filename: r.filename, error: r.error ?? "UPLOAD_FAILED", size }));
+
+  const globalWarnings: string[] = [];
+  const names = files.map((f) => f.originalName);
+  const repeated = [...new Set(names.filter((n, i) => names.indexOf(n) !== i))];
+  if (repeated.length) globalWarnings.push(`same filename uploaded more than once: ${repeated.join(", ")}`);
+  if (failedFiles.length === files.length) globalWarnings.push("no file in the batch was ingested");
+
+  const batch: ReportBatchResult = {
+    batchId: crypto.randomUUID(),
+    processingMode,
+    totalFiles: files.length,
+    successfulFiles: files.length - failedFiles.length,
+    failedFiles,
+    totalRowsAccepted: results.reduce((n, r) => n + (r.status === "success" ? rowsAccepted(r.result) : 0), 0),
+    totalProcessingTime: Date.now() - started,
+    results,
+    globalWarnings,
+  };
+  logger?.info?.(
+    `Report batch ${batch.batchId}: ${batch.successfulFiles}/${batch.totalFiles} files ingested (${processingMode})`
+  );
+  return batch;
+}
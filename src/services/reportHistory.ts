@@ -0,0 +1,210 @@
+// src/services/reportHistory.ts
+// Temporal versioning of report rows (report_row_history): every upsert closes the open
+// version of a key and opens a new one, so records can be read "as of" a date or period.
+import { query, type DbExecutor } from "../db";
+import type { ReportSchema } from "../lib/reportSchemas";
+
+export interface HistoryVersion {
+  key_value: string;
+  entity: string | null;
+  period: string | null;
+  data: Record<string, unknown>;
+  valid_from: string;
+  valid_to: string | null;
+  upload_id: string | null;
+  source_file: string | null;
+  uploaded_by: string | null;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface PeriodDiffEntry {
+  key: string;
+  change: "added" | "removed" | "changed";
+  fields: FieldChange[];
+}
+
+/**
+ * Records new versions for `keys` after an upload has upserted them. Runs inside the ingest
+ * transaction, so valid_from/valid_to share the transaction's NOW().
+ * Rows that predate history tracking get a closed backfilled version from the prior snapshot.
+ * `uploadId` is null for a write made outside an upload (a customer merge); such a caller runs
+ * backfillRowHistory before writing instead.
+ */
+export async function recordRowHistory(
+  db: DbExecutor,
+  args: { uploadId: string | null; userId: string | null; schema: ReportSchema; keys: string[] }
+) {
+  const { uploadId, userId, schema, keys } = args;
+  if (!keys.length) return;
+
+  await db.query(
+    `
+    INSERT INTO report_row_history
+      (table_name, key_value, entity, period, data, valid_from, valid_to, superseded_by, source_file)
+    SELECT v.table_name, v.key_value, v.previous->>'entity', v.previous->>'period', v.previous,
+           COALESCE((v.previous->>'loaded_at')::timestamptz, NOW()), NOW(), v.upload_id, v.previous->>'source_file'
+      FROM report_row_versions v
+     WHERE v.upload_id = $1 AND v.operation = 'update'
+       AND NOT EXISTS (
+         SELECT 1 FROM report_row_history h WHERE h.table_name = v.table_name AND h.key_value = v.key_value
+       )
+    `,
+    [uploadId]
+  );
+
+  await db.query(
+    `
+    UPDATE report_row_history
+       SET valid_to = NOW(), superseded_by = $3
+     WHERE table_name = $1 AND key_value = ANY($2::text[]) AND valid_to IS NULL
+    `,
+    [schema.table, keys, uploadId]
+  );
+
+  await db.query(
+    `
+    INSERT INTO report_row_history
+      (table_name, key_value, entity, period, data, valid_from, upload_id, source_file, uploaded_by)
+    SELECT $1, t.${schema.conflictKey}::text, to_jsonb(t)->>'entity', to_jsonb(t)->>'period', to_jsonb(t),
+           NOW(), $3, to_jsonb(t)->>'source_file', $4
+      FROM ${schema.table} t
+     WHERE t.${schema.conflictKey} = ANY($2::text[])
+    `,
+    [schema.table, keys, uploadId, userId]
+  );
+}
+
+/**
+ * Opens a version from the current row for each of `keys` that has no history yet. Runs before a
+ * write made outside an upload, which has no prior snapshot for recordRowHistory to backfill from.
+ */
+export async function backfillRowHistory(db: DbExecutor, schema: ReportSchema, keys: string[]) {
+  if (!keys.length) return;
+  await db.query(
+    `
+    INSERT INTO report_row_history (table_name, key_value, entity, period, data, valid_from, source_file)
+    SELECT $1, t.${schema.conflictKey}::text, to_jsonb(t)->>'entity', to_jsonb(t)->>'period', to_jsonb(t),
+           COALESCE((to_jsonb(t)->>'loaded_at')::timestamptz, NOW()), to_jsonb(t)->>'source_file'
+      FROM ${schema.table} t
+     WHERE t.${schema.conflictKey} = ANY($2::text[])
+       AND NOT EXISTS (
+         SELECT 1 FROM report_row_history h WHERE h.table_name = $1 AND h.key_value = t.${schema.conflictKey}::text
+       )
+    `,
+    [schema.table, keys]
+  );
+}
+
+/** Reverses recordRowHistory for a reverted upload: drops its versions and reopens the ones it closed. */
+export async function undoRowHistory(db: DbExecutor, uploadId: string) {
+  await db.query(`DELETE FROM report_row_history WHERE upload_id = $1`, [uploadId]);
+  await db.query(
+    `UPDATE report_row_history SET valid_to = NULL, superseded_by = NULL WHERE superseded_by = $1`,
+    [uploadId]
+  );
+}
+
+// ------------------ reads ------------------
+const VERSION_COLUMNS = `key_value, entity, period, data, valid_from, valid_to, upload_id, source_file, uploaded_by`;
+
+export async function getKeyHistory(schema: ReportSchema, key: string): Promise<HistoryVersion[]> {
+  const { rows } = await query(
+    `SELECT ${VERSION_COLUMNS} FROM report_row_history
+      WHERE table_name = $1 AND key_value = $2
+      ORDER BY valid_from ASC, id ASC`,
+    [schema.table, key]
+  );
+  return rows;
+}
+
+/**
+ * Records as they were at a point in time (`at`), or as last reported for a `period`.
+ * With both, returns the version for that period that was current at `at`.
+ */
+export async function getRecordsAsOf(
+  schema: ReportSchema,
+  opts: { at?: string | null; period?: string | null; entity?: string | null; key?: string | null; limit: number; offset: number }
+): Promise<HistoryVersion[]> {
+  const filters = ["table_name = $1"];
+  const params: any[] = [schema.table];
+  const add = (sql: string, value: unknown) => {
+    params.push(value);
+    filters.push(sql.replace("?", `$${params.length}`));
+  };
+
+  if (opts.at) {
+    add("valid_from <= ?::timestamptz", opts.at);
+    add("(valid_to IS NULL OR valid_to > ?::timestamptz)", opts.at);
+  } else if (!opts.period) {
+    filters.push("valid_to IS NULL");
+  }
+  if (opts.period) add("period = ?", opts.period);
+  if (opts.entity) add("entity = ?", opts.entity);
+  if (opts.key) add("key_value = ?", opts.key);
+
+  params.push(opts.limit, opts.offset);
+  const { rows } = await query(
+    `SELECT DISTINCT ON (key_value) ${VERSION_COLUMNS}
+       FROM report_row_history
+      WHERE ${filters.join(" AND ")}
+      ORDER BY key_value, valid_from DESC, id DESC
+      LIMIT $${params.length - 1} OFFSET $${params.length}`,
+    params
+  );
+  return rows;
+}
+
+function sameValue(a: unknown, b: unknown) {
+  const norm = (v: unknown) => (v === null || v === undefined ? "" : String(v));
+  return norm(a) === norm(b);
+}
+
+/**
+ * Compares the latest reported version of every key for an entity between two periods.
+ * `fields` limits the comparison (and the "changed" verdict) to those columns.
+ */
+export async function diffPeriods(
+  schema: ReportSchema,
+  opts: { entity: string; from: string; to: string; fields?: string[] }
+): Promise<PeriodDiffEntry[]> {
+  const { rows } = await query(
+    `SELECT DISTINCT ON (key_value, period) key_value, period, data
+       FROM report_row_history
+      WHERE table_name = $1 AND entity = $2 AND period = ANY($3::text[])
+      ORDER BY key_value, period, valid_from DESC, id DESC`,
+    [schema.table, opts.entity, [opts.from, opts.to]]
+  );
+
+  const compared = schema.columns
+    .map((c) => c.column)
+    .filter((c) => c !== "entity" && c !== "period" && c !== schema.conflictKey)
+    .filter((c) => !opts.fields?.length || opts.fields.includes(c));
+
+  const byKey = new Map<string, { from?: Record<string, unknown>; to?: Record<string, unknown> }>();
+  for (const r of rows) {
+    const entry = byKey.get(r.key_value) ?? {};
+    if (r.period === opts.from) entry.from = r.data;
+    else entry.to = r.data;
+    byKey.set(r.key_value, entry);
+  }
+
+  const out: PeriodDiffEntry[] = [];
+  for (const [key, { from, to }] of byKey) {
+    if (from && !to) {
+      out.push({ key, change: "removed", fields: [] });
+    } else if (!from && to) {
+      out.push({ key, change: "added", fields: [] });
+    } else if (from && to) {
+      const fields = compared
+        .filter((c) => !sameValue(from[c], to[c]))
+        .map((c) => ({ field: c, from: from[c] ?? null, to: to[c] ?? null }));
+      if (fields.length) out.push({ key, change: "changed", fields });
+    }
+  }
+  return out.sort((a, b) => a.key.localeCompare(b.key));
+}
@@ -0,0 +1,395 @@
+// src/services/reportIngestion.ts
+// Transactional CSV report ingestion + the upload ledger (report_uploads).
+import { query, sharedDb, withTransaction, type DbExecutor } from "../db";
+import { logger } from "../lib/config";
+import { encryptPiiFields, encryptRawPii } from "../lib/piiProtection";
+import {
+  buildUpsertSql,
+  findReportSchema,
+  getReportSchema,
+  rowValues,
+  upsertBatchSize,
+  type NormalizedRow,
+  type ReportSchema,
+} from "../lib/reportSchemas";
+import type { RowRejection } from "../lib/reportValidation";
+import { applyFxRates } from "./fxConversion";
+import { runIntegrityChecks } from "./integrityChecks";
+import { runPolicyConditions } from "./policyConditions";
+import { recordRowHistory, undoRowHistory } from "./reportHistory";
+
+export type UploadStatus = "processing" | "succeeded" | "failed" | "reverted";
+
+export interface UploadCounts {
+  rowsTotal: number;
+  rowsAccepted: number;
+  rowsRejected: number;
+  rowsInserted: number;
+  rowsUpdated: number;
+}
+
+// ------------------ batch helpers ------------------
+async function batchInsert(
+  db: DbExecutor,
+  textBuilder: (batchSize: number) => string,
+  rows: any[],
+  valuesBuilder: (r: any) => any[],
+  batchSize = 1000
+) {
+  const returned: any[] = [];
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const chunk = rows.slice(i, i + batchSize);
+    if (!chunk.length) continue;
+    const sql = textBuilder(chunk.length);
+    const params: any[] = [];
+    chunk.forEach((r) => params.push(...valuesBuilder(r)));
+    const result = await db.query(sql, params);
+    returned.push(...result.rows);
+  }
+  return returned;
+}
+
+/** Upserts normalized rows (PII columns encrypted); returns how many keys were new vs overwritten. */
+export async function upsertReportRows(db: DbExecutor, schema: ReportSchema, rows: NormalizedRow[]) {
+  const returned = await batchInsert(
+    db,
+    (n) => buildUpsertSql(schema, n),
+    rows,
+    (r) => rowValues(schema, encryptPiiFields(schema, r)),
+    upsertBatchSize(schema)
+  );
+  const inserted = returned.filter((r) => r.inserted).length;
+  return { inserted, updated: returned.length - inserted };
+}
+
+/** Keys among `keys` that already exist in the report table, i.e. rows an upsert would overwrite. */
+export async function findExistingKeys(schema: ReportSchema, keys: string[], db: DbExecutor = sharedDb): Promise<Set<string>> {
+  const existing = new Set<string>();
+  const batchSize = 5000;
+  for (let i = 0; i < keys.length; i += batchSize) {
+    const { rows } = await db.query(
+      `SELECT ${schema.conflictKey} AS key FROM ${schema.table} WHERE ${schema.conflictKey} = ANY($1::text[])`,
+      [keys.slice(i, i + batchSize)]
+    );
+    rows.forEach((r: any) => existing.add(String(r.key)));
+  }
+  return existing;
+}
+
+/**
+ * Records the current version of each key (or its absence) before an upload overwrites it.
+ * Must run in the same transaction as the upsert.
+ */
+export async function snapshotPriorVersions(db: DbExecutor, uploadId: string, schema: ReportSchema, keys: string[]) {
+  const batchSize = 5000;
+  for (let i = 0; i < keys.length; i += batchSize) {
+    await db.query(
+      `
+      INSERT INTO report_row_versions (upload_id, table_name, key_value, operation, previous)
+      SELECT $1, $2, k.key_value,
+             CASE WHEN t.${schema.conflictKey} IS NULL THEN 'insert' ELSE 'update' END,
+             CASE WHEN t.${schema.conflictKey} IS NULL THEN NULL ELSE to_jsonb(t) END
+        FROM unnest($3::text[]) AS k(key_value)
+        LEFT JOIN ${schema.table} t ON t.${schema.conflictKey} = k.key_value
+      `,
+      [uploadId, schema.table, keys.slice(i, i + batchSize)]
+    );
+  }
+}
+
+export async function insertRejections(db: DbExecutor, uploadId: string, rejections: RowRejection[]) {
+  await batchInsert(
+    db,
+    (n) => {
+      const groups = Array.from({ length: n }, (_, i) => {
+        const base = i * 5;
+        return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5})`;
+      }).join(",");
+      return `INSERT INTO report_upload_rejections (upload_id, line, key_value, reasons, raw) VALUES ${groups};`;
+    },
+    rejections,
+    (r: RowRejection) => [uploadId, r.line, r.key || null, r.reasons, JSON.stringify(r.raw)]
+  );
+}
+
+// ------------------ uploaded_files helpers ------------------
+export async function upsertUploadedFileRow(args: {
+  checksum: string;
+  originalName: string;
+  mime: string;
+  size: number;
+  storedPath: string | null;
+  pageCount?: number | null;
+}) {
+  const { checksum, originalName, mime, size, storedPath, pageCount } = args;
+
+  // If you already have more columns, extend here.
+  const sql = `
+    INSERT INTO uploaded_files (checksum, filename, mime_type, byte_size, storage_path, page_count, created_at)
+    VALUES ($1, $2, $3, $4, $5, $6, NOW())
+    ON CONFLICT (checksum) DO UPDATE
+       SET filename = EXCLUDED.filename,
+           mime_type = EXCLUDED.mime_type,
+           byte_size = EXCLUDED.byte_size,
+           storage_path = EXCLUDED.storage_path,
+           page_count = COALESCE(EXCLUDED.page_count, uploaded_files.page_count)
+    RETURNING id;
+  `;
+  const { rows } = await query(sql, [checksum, originalName, mime, size, storedPath, pageCount ?? null]);
+  return rows[0]?.id as string;
+}
+
+/** Records that `childFileId` was unpacked from the archive `parentFileId` at `entryPath`. */
+export async function linkArchiveMember(parentFileId: string, childFileId: string, entryPath: string) {
+  await query(
+    `INSERT INTO uploaded_file_members (parent_file_id, child_file_id, entry_path)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (parent_file_id, entry_path) DO UPDATE SET child_file_id = EXCLUDED.child_file_id`,
+    [parentFileId, childFileId, entryPath]
+  );
+}
+
+// ------------------ ledger ------------------
+export async function startUploadLedger(args: {
+  uploadId: string;
+  userId: string | null;
+  checksum: string;
+  kind: string;
+  entityCode: string | null;
+  period: string | null;
+  filename: string;
+  storagePath: string | null;
+  uploadedFileId: string | null;
+}) {
+  await query(
+    `
+    INSERT INTO report_uploads
+      (id, user_id, checksum, kind, entity_code, period, filename, storage_path, uploaded_file_id, status, started_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'processing', NOW())
+    `,
+    [
+      args.uploadId,
+      args.userId,
+      args.checksum,
+      args.kind,
+      args.entityCode,
+      args.period,
+      args.filename,
+      args.storagePath,
+      args.uploadedFileId,
+    ]
+  );
+}
+
+/** Streamed uploads only know their checksum and stored file once the last byte is through. */
+export async function linkUploadFile(
+  uploadId: string,
+  args: { checksum: string; storagePath: string | null; uploadedFileId: string | null }
+) {
+  await query(
+    `UPDATE report_uploads SET checksum = $2, storage_path = $3, uploaded_file_id = $4 WHERE id = $1`,
+    [uploadId, args.checksum, args.storagePath, args.uploadedFileId]
+  );
+}
+
+export async function finishUploadLedger(
+  uploadId: string,
+  status: "succeeded" | "failed",
+  counts: Partial<UploadCounts>,
+  error?: string | null
+) {
+  try {
+    await query(
+      `
+      UPDATE report_uploads
+         SET status = $2,
+             rows_total = COALESCE($3, rows_total),
+             rows_accepted = COALESCE($4, rows_accepted),
+             rows_rejected = COALESCE($5, rows_rejected),
+             rows_inserted = COALESCE($6, rows_inserted),
+             rows_updated = COALESCE($7, rows_updated),
+             error = $8,
+             finished_at = NOW(),
+             duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::int
+       WHERE id = $1
+      `,
+      [
+        uploadId,
+        status,
+        counts.rowsTotal ?? null,
+        counts.rowsAccepted ?? null,
+        counts.rowsRejected ?? null,
+        counts.rowsInserted ?? null,
+        counts.rowsUpdated ?? null,
+        error ?? null,
+      ]
+    );
+  } catch (e: any) {
+    // The ingest outcome matters more than its bookkeeping; don't mask the original error.
+    logger.error("Failed to update upload ledger", { uploadId, status, error: e?.message || e });
+  }
+}
+
+/** Snapshot, upsert, history and rejections for one batch of an upload, on the caller's transaction. */
+export async function ingestBatch(
+  tx: DbExecutor,
+  args: { uploadId: string; userId: string | null; schema: ReportSchema; accepted: NormalizedRow[]; rejected: RowRejection[] }
+) {
+  const { uploadId, userId, schema, accepted, rejected } = args;
+  const keys = accepted.map((r) => String(r[schema.conflictKey]));
+  await snapshotPriorVersions(tx, uploadId, schema, keys);
+  const result = await upsertReportRows(tx, schema, accepted);
+  await applyFxRates(tx, schema, accepted, {
+    uploadId,
+    userId,
+    snapshot: (txnIds) => snapshotPriorVersions(tx, uploadId, getReportSchema("transactions"), txnIds),
+  });
+  await recordRowHistory(tx, { uploadId, userId, schema, keys });
+  if (rejected.length) {
+    await insertRejections(tx, uploadId, rejected.map((r) => ({ ...r, raw: encryptRawPii(schema, r.raw) })));
+  }
+  return result;
+}
+
+/**
+ * Writes accepted rows and rejections for one upload in a single transaction:
+ * either the whole file lands or nothing does.
+ */
+export async function ingestCsvReport(args: {
+  uploadId: string;
+  userId: string | null;
+  schema: ReportSchema;
+  accepted: NormalizedRow[];
+  rejected: RowRejection[];
+}): Promise<UploadCounts> {
+  const { uploadId, userId, schema, accepted, rejected } = args;
+  try {
+    const { inserted, updated } = await withTransaction((tx) =>
+      ingestBatch(tx, { uploadId, userId, schema, accepted, rejected })
+    );
+    const counts: UploadCounts = {
+      rowsTotal: accepted.length + rejected.length,
+      rowsAccepted: accepted.length,
+      rowsRejected: rejected.length,
+      rowsInserted: inserted,
+      rowsUpdated: updated,
+    };
+    await finishUploadLedger(uploadId, "succeeded", counts);
+    return counts;
+  } catch (error: any) {
+    await finishUploadLedger(
+      uploadId,
+      "failed",
+      { rowsTotal: accepted.length + rejected.length, rowsAccepted: 0, rowsRejected: rejected.length },
+      error?.message || String(error)
+    );
+    throw error;
+  }
+}
+
+// ------------------ revert ------------------
+export type RevertResult =
+  | { status: "not_found" }
+  | { status: "not_revertible"; reason: string }
+  | { status: "conflict"; blockingUploads: string[] }
+  | { status: "already_changed"; current: string }
+  | { status: "reverted"; rowsDeleted: number; rowsRestored: number; transactionsRestored?: number };
+
+/**
+ * Puts `schema`'s rows back as they were before the upload: keys it wrote are deleted, and keys
+ * it overwrote are re-inserted from their earliest snapshot under the upload.
+ */
+async function restoreVersions(tx: DbExecutor, uploadId: string, schema: ReportSchema) {
+  const deleted = await tx.query(
+    `
+    DELETE FROM ${schema.table} t
+     USING report_row_versions v
+     WHERE v.upload_id = $1 AND v.table_name = $2 AND t.${schema.conflictKey} = v.key_value
+    `,
+    [uploadId, schema.table]
+  );
+  const restored = await tx.query(
+    `
+    INSERT INTO ${schema.table}
+    SELECT (jsonb_populate_record(NULL::${schema.table}, first.previous)).*
+      FROM (
+        SELECT DISTINCT ON (v.key_value) v.operation, v.previous
+          FROM report_row_versions v
+         WHERE v.upload_id = $1 AND v.table_name = $2
+         ORDER BY v.key_value, v.id
+      ) first
+     WHERE first.operation = 'update'
+    `,
+    [uploadId, schema.table]
+  );
+  return { deleted: deleted.rowCount ?? 0, restored: restored.rowCount ?? 0 };
+}
+
+/**
+ * Undoes a succeeded CSV upload: keys it inserted are deleted, keys it overwrote get their
+ * previous row back. Refuses when a later upload touched the same keys; revert that one first.
+ * Its quality score goes, and integrity checks and rule conditions re-run for its entity/period
+ * so findings and violations reflect the restored rows.
+ */
+export async function revertUpload(uploadId: string, userId: string | null): Promise<RevertResult> {
+  const { rows } = await query(`SELECT id, kind, status, entity_code, period FROM report_uploads WHERE id = $1`, [uploadId]);
+  const upload = rows[0];
+  if (!upload) return { status: "not_found" };
+  if (upload.status !== "succeeded") {
+    return { status: "not_revertible", reason: `upload is ${upload.status}` };
+  }
+  const schema = findReportSchema(upload.kind);
+  if (!schema) return { status: "not_revertible", reason: `${upload.kind} uploads cannot be reverted` };
+
+  const outcome = await withTransaction(async (tx): Promise<RevertResult> => {
+    // the lock serializes concurrent reverts of this upload; later uploads are re-checked under it
+    const locked = await tx.query(`SELECT status FROM report_uploads WHERE id = $1 FOR UPDATE`, [uploadId]);
+    if (locked.rows[0]?.status !== "succeeded") return { status: "already_changed", current: locked.rows[0]?.status };
+    const blocking = await tx.query(
+      `
+      SELECT DISTINCT later.upload_id
+        FROM report_row_versions v
+        JOIN report_row_versions later
+          ON later.table_name = v.table_name AND later.key_value = v.key_value AND later.id > v.id
+         AND later.upload_id <> v.upload_id
+        JOIN report_uploads u ON u.id = later.upload_id AND u.status = 'succeeded'
+       WHERE v.upload_id = $1
+      `,
+      [uploadId]
+    );
+    if (blocking.rows.length) {
+      return { status: "conflict", blockingUploads: blocking.rows.map((r: any) => r.upload_id) };
+    }
+    const marked = await tx.query(
+      `UPDATE report_uploads SET status = 'reverted', reverted_by = $2, reverted_at = NOW()
+        WHERE id = $1 AND status = 'succeeded'`,
+      [uploadId, userId]
+    );
+    if (!marked.rowCount) return { status: "already_changed", current: "reverted" };
+
+    const { deleted, restored } = await restoreVersions(tx, uploadId, schema);
+    // transactions re-converted with the rates this upload brought in get their earlier rows back
+    const transactions = schema.table === "fx_rates" ? await restoreVersions(tx, uploadId, getReportSchema("transactions")) : null;
+    await undoRowHistory(tx, uploadId);
+    await tx.query(`DELETE FROM report_quality_scores WHERE upload_id = $1`, [uploadId]);
+    return {
+      status: "reverted",
+      rowsDeleted: deleted - restored,
+      rowsRestored: restored,
+      ...(transactions ? { transactionsRestored: transactions.restored } : {}),
+    };
+  });
+  if (outcome.status !== "reverted") return outcome;
+
+  logger.info("Report upload reverted", { uploadId, table: schema.table, ...outcome });
+  if (upload.entity_code && upload.period) {
+    const scope = { uploadId: null, kind: upload.kind, entityCode: upload.entity_code, period: upload.period };
+    try {
+      await runIntegrityChecks(scope);
+      await runPolicyConditions(scope);
+    } catch (err: any) {
+      logger.error("Checks could not re-run after revert", { uploadId, error: err?.message || err });
+    }
+  }
+  return outcome;
+}
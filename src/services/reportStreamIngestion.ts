@@ -0,0 +1,433 @@
+// src/services/reportStreamIngestion.ts
+// Streaming CSV ingestion for files too large to buffer. An upload of unknown checksum is first
+// spooled to local disk while it is hashed, so a repeated file or Idempotency-Key is answered
+// before any row is written, and no transaction waits on the client's upload. Rows are then
+// validated and upserted in batches inside one transaction; keys are checked for duplicates across
+// batches in a temporary table, so memory stays flat whatever the file size.
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { PassThrough, Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { parse } from "csv-parse";
+import { supabase } from "../lib/supabase";
+import { withTransaction, type DbExecutor } from "../db";
+import { CONFIG, logger } from "../lib/config";
+import { getReportSchema, missingRequiredHeaders, unmappedHeaders, type ReportSchema } from "../lib/reportSchemas";
+import {
+  duplicateKeyReason,
+  mergeUnexpectedValues,
+  validateRows,
+  type RowRejection,
+  type SourceRecord,
+  type UnexpectedValue,
+  type ValidationResult,
+} from "../lib/reportValidation";
+import { applyMappingProfile } from "../lib/columnMapping";
+import { createQualityTally, tallyRecords } from "../lib/dataQuality";
+import {
+  findExistingKeys,
+  finishUploadLedger,
+  ingestBatch,
+  linkUploadFile,
+  startUploadLedger,
+  upsertUploadedFileRow,
+} from "./reportIngestion";
+import { detectTable, type PipelineOptions, type PipelineResult } from "./reportUploadPipeline";
+import {
+  anonymousKeyError,
+  findPriorIngest,
+  recordIngestResult,
+  releaseIdempotencyKey,
+  replayBody,
+  reserveIdempotencyKey,
+} from "./uploadIdempotency";
+import { runIntegrityChecksAfterUpload } from "./integrityChecks";
+import { runPolicyConditionsAfterUpload } from "./policyConditions";
+import { buildReportQuality, qualitySummary, recordQualityScore } from "./dataQuality";
+
+type CsvRow = { record: Record<string, unknown>; info: { lines: number } };
+
+async function readBatch(rows: AsyncIterator<CsvRow>, size: number): Promise<SourceRecord[]> {
+  const batch: SourceRecord[] = [];
+  while (batch.length < size) {
+    const next = await rows.next();
+    if (next.done) break;
+    batch.push({ line: next.value.info.lines, record: next.value.record });
+  }
+  return batch;
+}
+
+/** Starts a streaming upload to Supabase Storage; resolves to the stored path, or null if it failed. */
+function streamToStorage(body: PassThrough, storedPath: string, mime: string, onFail: () => void) {
+  const bucket = process.env.SUPABASE_BUCKET || "reports";
+  return supabase.storage
+    .from(bucket)
+    .upload(storedPath, body, { upsert: true, contentType: mime, duplex: "half" })
+    .then(({ error }) => {
+      if (!error) return storedPath;
+      logger?.warn?.(`Supabase upload failed: ${error.message}`);
+      onFail();
+      return null;
+    })
+    .catch((e: any) => {
+      logger?.warn?.(`Supabase upload error: ${e?.message || e}`);
+      onFail();
+      return null;
+    });
+}
+
+// Keys accepted by earlier batches of this file, and every key the file has sent so far (for the
+// uniqueness score), on the transaction's connection
+async function createSeenKeysTable(db: DbExecutor) {
+  await db.query(`CREATE TEMP TABLE stream_seen_keys (key TEXT PRIMARY KEY, line INTEGER NOT NULL) ON COMMIT DROP`);
+  await db.query(`CREATE TEMP TABLE stream_quality_keys (key TEXT PRIMARY KEY) ON COMMIT DROP`);
+}
+
+/** Records a batch's keys for the uniqueness score; returns how many the file had not sent before. */
+async function countNewQualityKeys(db: DbExecutor, keys: string[]): Promise<number> {
+  if (!keys.length) return 0;
+  const { rows } = await db.query(
+    `WITH added AS (
+       INSERT INTO stream_quality_keys (key) SELECT DISTINCT unnest($1::text[])
+       ON CONFLICT (key) DO NOTHING
+       RETURNING 1
+     )
+     SELECT COUNT(*)::int AS n FROM added`,
+    [keys]
+  );
+  return rows[0].n;
+}
+
+/**
+ * Validates one batch and rejects rows whose key an earlier batch already accepted, recording the
+ * batch's accepted keys for the batches after it.
+ */
+async function validateBatch(db: DbExecutor, schema: ReportSchema, batch: SourceRecord[], sourceFile: string): Promise<ValidationResult> {
+  const { accepted, rejected, unexpected } = validateRows(schema, batch, sourceFile);
+  if (!accepted.length) return { accepted, rejected, unexpected };
+
+  const rejectedLines = new Set(rejected.map((r) => r.line));
+  const acceptedRecords = batch.filter((r) => !rejectedLines.has(r.line)); // same order as `accepted`
+  const keys = accepted.map((r) => String(r[schema.conflictKey]));
+  const fresh = await db.query(
+    `INSERT INTO stream_seen_keys (key, line)
+     SELECT * FROM unnest($1::text[], $2::int[])
+     ON CONFLICT (key) DO NOTHING
+     RETURNING key`,
+    [keys, acceptedRecords.map((r) => r.line)]
+  );
+  if (fresh.rows.length === keys.length) return { accepted, rejected, unexpected };
+
+  const freshKeys = new Set(fresh.rows.map((r: any) => r.key));
+  const repeated = keys.filter((k) => !freshKeys.has(k));
+  const firstSeen = await db.query(`SELECT key, line FROM stream_seen_keys WHERE key = ANY($1::text[])`, [repeated]);
+  const firstLine = new Map<string, number>(firstSeen.rows.map((r: any) => [r.key, r.line]));
+  const kept: typeof accepted = [];
+  accepted.forEach((row, i) => {
+    const key = keys[i];
+    if (freshKeys.has(key)) return kept.push(row);
+    const { line, record, raw } = acceptedRecords[i];
+    rejected.push({ line, key, reasons: [duplicateKeyReason(schema, key, firstLine.get(key)!)], raw: raw ?? record });
+  });
+  return { accepted: kept, rejected, unexpected };
+}
+
+/**
+ * Ingests a CSV read from `source` without holding the file in memory.
+ * Kind/entity/period and the mapping profile are detected from the first batch. Pass the file's
+ * SHA-256 when it is already known (e.g. a verified resumable upload) to skip spooling it.
+ */
+export async function ingestCsvStream(
+  source: Readable,
+  file: { originalName: string; mime: string },
+  opts: PipelineOptions,
+  known: { checksum?: string } = {}
+): Promise<PipelineResult> {
+  if (opts.dryRun) {
+    if (known.checksum) return ingestHashedCsvStream(source, file, opts, known.checksum);
+    return withSpooledFile(source, (spooled, checksum) => ingestHashedCsvStream(spooled, file, opts, checksum));
+  }
+  const keyError = anonymousKeyError(opts);
+  if (keyError) {
+    source.resume(); // drain the upload so the response can be sent
+    return { status: 401, body: { ok: false, error: keyError } };
+  }
+  if (known.checksum) return ingestUnlessRepeated(source, file, opts, known.checksum);
+
+  // a repeated Idempotency-Key replays before reading the body
+  if (opts.idempotencyKey) {
+    const lookup = await findPriorIngest({ checksum: null, idempotencyKey: opts.idempotencyKey, userId: opts.userId });
+    if (lookup.status === "found" || lookup.status === "in_progress") {
+      source.resume();
+      return lookup.status === "found"
+        ? { status: 200, body: replayBody(lookup.prior) }
+        : { status: 409, body: { ok: false, error: "IDEMPOTENCY_KEY_IN_PROGRESS" } };
+    }
+  }
+  return withSpooledFile(source, (spooled, checksum) => ingestUnlessRepeated(spooled, file, opts, checksum));
+}
+
+/** Copies `source` to a spool file while hashing it, then runs `fn` on the spooled copy; the copy is removed afterwards. */
+async function withSpooledFile(
+  source: Readable,
+  fn: (spooled: Readable, checksum: string) => Promise<PipelineResult>
+): Promise<PipelineResult> {
+  await fs.promises.mkdir(CONFIG.PROCESSING.SPOOL_DIR, { recursive: true });
+  const spoolPath = path.join(CONFIG.PROCESSING.SPOOL_DIR, `${crypto.randomUUID()}.csv`);
+  try {
+    const hash = crypto.createHash("sha256");
+    const hasher = new Transform({
+      transform(chunk, _enc, cb) {
+        hash.update(chunk);
+        cb(null, chunk);
+      },
+    });
+    await pipeline(source, hasher, fs.createWriteStream(spoolPath));
+    return await fn(fs.createReadStream(spoolPath), hash.digest("hex"));
+  } finally {
+    await fs.promises.rm(spoolPath, { force: true });
+  }
+}
+
+/** Replays a repeated file or Idempotency-Key before reading a row; otherwise reserves the key and ingests. */
+async function ingestUnlessRepeated(
+  source: Readable,
+  file: { originalName: string; mime: string },
+  opts: PipelineOptions,
+  checksum: string
+): Promise<PipelineResult> {
+  const lookup = await findPriorIngest({ ...opts, checksum });
+  if (lookup.status !== "none") {
+    source.resume();
+    if (lookup.status === "key_reused") {
+      return { status: 422, body: { ok: false, error: "IDEMPOTENCY_KEY_REUSED_FOR_DIFFERENT_FILE" } };
+    }
+    if (lookup.status === "in_progress") return { status: 409, body: { ok: false, error: "IDEMPOTENCY_KEY_IN_PROGRESS" } };
+    return { status: 200, body: replayBody(lookup.prior) };
+  }
+  if (!(await reserveIdempotencyKey({ checksum, ...opts }))) {
+    source.resume();
+    return { status: 409, body: { ok: false, error: "IDEMPOTENCY_KEY_IN_PROGRESS" } };
+  }
+
+  let result: PipelineResult | null = null;
+  try {
+    result = await ingestHashedCsvStream(source, file, opts, checksum);
+    return result;
+  } finally {
+    if (!result?.body.ok) await releaseIdempotencyKey(opts);
+  }
+}
+
+// `source` is local (a spooled or assembled file), so the transaction below never waits on a client
+async function ingestHashedCsvStream(
+  source: Readable,
+  file: { originalName: string; mime: string },
+  opts: PipelineOptions,
+  checksum: string
+): Promise<PipelineResult> {
+  const batchSize = CONFIG.PROCESSING.STREAM_BATCH_SIZE;
+  let bytes = 0;
+  const tap = new Transform({
+    transform(chunk, _enc, cb) {
+      bytes += chunk.length;
+      cb(null, chunk);
+    },
+  });
+  const parser = parse({
+    columns: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    bom: true,
+    trim: true,
+    info: true,
+  });
+
+  // pipe() pauses the tap while either consumer is behind, which pauses the source
+  source.pipe(tap);
+  tap.pipe(parser);
+  const plannedPath = opts.dryRun ? null : `uploads/${Date.now()}_${file.originalName}`;
+  let storage: Promise<string | null> = Promise.resolve(null);
+  if (plannedPath) {
+    const toStorage = new PassThrough();
+    tap.pipe(toStorage);
+    // a failed storage upload must not stall parsing: detach it and let its side drain
+    storage = streamToStorage(toStorage, plannedPath, file.mime, () => {
+      tap.unpipe(toStorage);
+      toStorage.resume();
+    });
+  }
+  source.on("error", (err) => tap.destroy(err));
+  tap.on("error", (err) => parser.destroy(err));
+
+  const abandon = (result: PipelineResult) => {
+    source.unpipe(tap);
+    tap.unpipe(parser);
+    parser.destroy();
+    source.resume(); // drain the rest of the source
+    return result;
+  };
+
+  const rows = parser[Symbol.asyncIterator]() as AsyncIterator<CsvRow>;
+  const first = await readBatch(rows, batchSize);
+  if (!first.length) return abandon({ status: 400, body: { ok: false, error: "EMPTY_CSV" } });
+
+  const table = await detectTable(first, { filename: file.originalName }, opts.overrides);
+  if (!table.detected.ok) {
+    return abandon({ status: 400, body: { ok: false, error: table.detected.error, ...table.detected.detail } });
+  }
+  const { detection } = table.detected;
+  const { kind, entityCode, period } = detection;
+  const schema = getReportSchema(kind);
+  const headers = Object.keys(table.records[0].record);
+  const detectionSummary = {
+    confidence: detection.confidence,
+    sources: detection.sources,
+    mapping: detection.mapping,
+    mappingProfile: table.profile ? { id: table.profile.id, name: table.profile.name } : null,
+  };
+  const missing = missingRequiredHeaders(schema, headers);
+  if (missing.length && !opts.dryRun) {
+    return abandon({ status: 400, body: { ok: false, error: "MISSING_REQUIRED_HEADERS", kind, missing, detection: detectionSummary } });
+  }
+
+  const sourceFile = plannedPath || file.originalName;
+  const mapBatch = (batch: SourceRecord[]) => (table.profile ? applyMappingProfile(batch, table.profile) : batch);
+  const totals = { rows: 0, accepted: 0, rejected: 0, inserted: 0, updated: 0 };
+  const sample: Pick<RowRejection, "line" | "key" | "reasons">[] = [];
+  let unexpectedValues: UnexpectedValue[] = [];
+  const qualityTally = createQualityTally(schema, headers, { keysInMemory: false });
+  const scoreQuality = () =>
+    buildReportQuality(schema, qualityTally, table.records.slice(0, CONFIG.PROCESSING.MAX_ROWS_TO_ANALYZE), { period });
+  const tally = async (tx: DbExecutor, batch: SourceRecord[], { accepted, rejected, unexpected }: ValidationResult) => {
+    qualityTally.distinctKeys += await countNewQualityKeys(tx, tallyRecords(schema, qualityTally, batch));
+    const acceptedCount = accepted.length;
+    unexpectedValues = mergeUnexpectedValues(unexpectedValues, unexpected);
+    totals.rows += batch.length;
+    totals.accepted += acceptedCount;
+    totals.rejected += rejected.length;
+    for (const r of rejected) if (sample.length < 100) sample.push({ line: r.line, key: r.key, reasons: r.reasons });
+  };
+
+  if (opts.dryRun) {
+    let wouldUpdate = 0;
+    await withTransaction(async (tx) => {
+      await createSeenKeysTable(tx);
+      for (let batch = table.records; batch.length; batch = mapBatch(await readBatch(rows, batchSize))) {
+        const validated = await validateBatch(tx, schema, batch, sourceFile);
+        wouldUpdate += (await findExistingKeys(schema, validated.accepted.map((r) => String(r[schema.conflictKey])))).size;
+        await tally(tx, batch, validated);
+      }
+    });
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        dryRun: true,
+        kind,
+        entityCode,
+        period,
+        detection: detectionSummary,
+        table: schema.table,
+        rows: totals.rows,
+        bytes,
+        checksum,
+        wouldInsert: totals.accepted - wouldUpdate,
+        wouldUpdate,
+        rejected: totals.rejected,
+        rejections: sample,
+        unexpectedValues,
+        missingRequiredHeaders: missing,
+        unmappedColumns: unmappedHeaders(schema, headers),
+        quality: qualitySummary(scoreQuality()),
+      },
+    };
+  }
+
+  // The stored file is only known at the end; linkUploadFile fills it in.
+  const uploadId = crypto.randomUUID();
+  await startUploadLedger({
+    uploadId,
+    userId: opts.userId,
+    checksum,
+    kind,
+    entityCode,
+    period,
+    filename: file.originalName,
+    storagePath: null,
+    uploadedFileId: null,
+  });
+
+  try {
+    await withTransaction(async (tx) => {
+      await createSeenKeysTable(tx);
+      for (let batch = table.records; batch.length; batch = mapBatch(await readBatch(rows, batchSize))) {
+        const validated = await validateBatch(tx, schema, batch, sourceFile);
+        const { inserted, updated } = await ingestBatch(tx, { uploadId, userId: opts.userId, schema, ...validated });
+        totals.inserted += inserted;
+        totals.updated += updated;
+        await tally(tx, batch, validated);
+      }
+    });
+  } catch (error: any) {
+    source.unpipe(tap);
+    source.resume();
+    await finishUploadLedger(
+      uploadId,
+      "failed",
+      { rowsTotal: totals.rows, rowsAccepted: 0, rowsRejected: totals.rejected },
+      error?.message || String(error)
+    );
+    throw error;
+  }
+
+  const storedPath = await storage;
+  const fileId = await upsertUploadedFileRow({
+    checksum,
+    originalName: file.originalName,
+    mime: file.mime,
+    size: bytes,
+    storedPath,
+  });
+  await linkUploadFile(uploadId, { checksum, storagePath: storedPath, uploadedFileId: fileId });
+  await finishUploadLedger(uploadId, "succeeded", {
+    rowsTotal: totals.rows,
+    rowsAccepted: totals.accepted,
+    rowsRejected: totals.rejected,
+    rowsInserted: totals.inserted,
+    rowsUpdated: totals.updated,
+  });
+  const quality = scoreQuality();
+  await recordQualityScore(uploadId, { kind, entityCode, period }, quality);
+  const integrity = await runIntegrityChecksAfterUpload({ uploadId, kind, entityCode, period });
+  const policyChecks = await runPolicyConditionsAfterUpload({ uploadId, kind, entityCode, period });
+
+  logger?.info?.(
+    `Report streamed: ${totals.accepted}/${totals.rows} ${kind} rows (${bytes} bytes) for ${entityCode} ${period} (${totals.rejected} rejected)`
+  );
+  const body = {
+    ok: true,
+    uploadId,
+    uploaded_file_id: fileId,
+    kind,
+    entityCode,
+    period,
+    detection: detectionSummary,
+    bytes,
+    checksum,
+    rows: totals.rows,
+    accepted: totals.accepted,
+    rejected: totals.rejected,
+    inserted: totals.inserted,
+    updated: totals.updated,
+    rejectionsUrl: totals.rejected ? `/api/reports/uploads/${uploadId}/rejections.csv` : null,
+    unexpectedValues,
+    integrity,
+    policyChecks,
+    quality: qualitySummary(quality),
+    storedPath,
+  };
+  await recordIngestResult({ ...opts, checksum, result: body });
+  return { status: 200, body };
+}
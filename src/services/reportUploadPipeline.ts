@@ -0,0 +1,729 @@
+// src/services/reportUploadPipeline.ts
+// Turns one uploaded file (CSV, XLSX workbook, policy PDF or a ZIP of those) into report rows / policy rules.
+// Shared by every upload entry point so they ingest identically.
+import crypto from "crypto";
+import { parse, type Info } from "csv-parse/sync";
+import * as XLSX from "xlsx";
+import { supabase } from "../lib/supabase";
+import { withTransaction, type DbExecutor } from "../db";
+import { CONFIG, logger } from "../lib/config";
+import { getReportSchema, listReportSchemas, missingRequiredHeaders, unmappedHeaders } from "../lib/reportSchemas";
+import {
+  detectReport,
+  parseFilenameHint,
+  type DetectionOverrides,
+  type DetectionResult,
+  type ReportDetection,
+} from "../lib/reportDetection";
+import { applyMappingProfile, profileSourceHeaders, type MappingProfile } from "../lib/columnMapping";
+import { validateRows, type SourceRecord } from "../lib/reportValidation";
+import { createQualityTally, tallyRecords } from "../lib/dataQuality";
+import { unpackZip } from "../lib/zipArchive";
+import { anchorQuote, headingLevel, parsePdfStructure, type TextAnchor } from "../lib/pdfStructure";
+import { isPeriodEnd } from "../lib/submissionCalendar";
+import {
+  findExistingKeys,
+  finishUploadLedger,
+  ingestCsvReport,
+  linkArchiveMember,
+  startUploadLedger,
+  upsertUploadedFileRow,
+} from "./reportIngestion";
+import { findProfilesForEntity } from "./mappingProfiles";
+import { listSubmissionSchedules } from "./submissionSchedules";
+import { runIntegrityChecksAfterUpload } from "./integrityChecks";
+import { runPolicyConditionsAfterUpload } from "./policyConditions";
+import { buildReportQuality, qualitySummary, recordQualityScore } from "./dataQuality";
+import { createGlossaryExtractor, type ExtractedRule } from "./glossaryExtractor";
+import { linkPolicyRuleVersions, savePolicyDocument, type PolicyVersion, type RuleChangeSummary } from "./policyDocuments";
+import { reconcileReingestedRules } from "./policyRules";
+import {
+  anonymousKeyError,
+  findPriorIngest,
+  recordIngestResult,
+  releaseIdempotencyKey,
+  replayBody,
+  reserveIdempotencyKey,
+} from "./uploadIdempotency";
+
+export interface IncomingFile {
+  buffer: Buffer;
+  originalName: string;
+  mime: string;
+  size: number;
+}
+
+export interface PipelineOptions {
+  userId: string | null;
+  dryRun: boolean;
+  overrides?: DetectionOverrides;  // form fields kind/entity/period; kind applies to CSVs only
+  idempotencyKey?: string | null;  // Idempotency-Key header: a repeat replays the first result
+  force?: boolean;                 // re-ingest even when this exact file was ingested before
+}
+
+/** HTTP status + JSON body, so each route can return it as-is or nest it in a larger response. */
+export interface PipelineResult {
+  status: number;
+  body: Record<string, any>;
+}
+
+// Gemini rule extractor; created on the first PDF, null when it cannot be (no API key)
+let ruleExtractor: ReturnType<typeof createGlossaryExtractor> | null | undefined;
+
+function getRuleExtractor() {
+  if (ruleExtractor === undefined) {
+    try {
+      ruleExtractor = createGlossaryExtractor();
+    } catch (e: any) {
+      logger?.warn?.(`Gemini rule extractor unavailable, PDFs use the line splitter: ${e?.message || e}`);
+      ruleExtractor = null;
+    }
+  }
+  return ruleExtractor;
+}
+
+// ------------------ Types & helpers ------------------
+export type { ExtractedRule };
+
+function sha256(buf: Buffer) {
+  return crypto.createHash("sha256").update(buf).digest("hex");
+}
+
+function detectPdfMeta(filename: string) {
+  // Preferred: "<entity>__policies__YYYY-MM-DD.pdf", or "<entity>__policies__<title>__YYYY-MM-DD.pdf"
+  // to name the document series when one entity publishes several policies
+  const base = filename.trim();
+  const m = base.match(/^(.*?)__policies(?:__(.+?))?__(\d{4}-\d{2}-\d{2})\.pdf$/i);
+  if (m) {
+    return { entityCode: m[1], period: m[3], title: m[2] ?? null };
+  }
+  return { entityCode: null as string | null, period: null as string | null, title: base.replace(/\.pdf$/i, "") as string | null };
+}
+
+// Fallback when Gemini is unavailable or fails: splits by lines starting with a bullet/number
+// and keeps 1–5 sentence chunks.
+async function fallbackExtractPolicyRules(text: string): Promise<ExtractedRule[]> {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let curr = "";
+  for (const l of lines) {
+    // headings close the current chunk and are not rules themselves
+    if (headingLevel(l) !== null) {
+      if (curr) chunks.push(curr.trim());
+      curr = "";
+      continue;
+    }
+    if (/^(\*|-|•|\d+[.)])\s+/.test(l) && curr) {
+      chunks.push(curr.trim());
+      curr = l;
+    } else {
+      curr = curr ? `${curr} ${l}` : l;
+    }
+  }
+  if (curr) chunks.push(curr.trim());
+  const rules = chunks
+    .map((t, i) => t.replace(/\s+/g, " ").trim())
+    .filter((t) => t.length >= 20 && /[.]/.test(t))
+    .slice(0, 200) // safety cap
+    .map((t, i) => ({
+      rule_code: `R-${String(i + 1).padStart(3, "0")}`,
+      rule_text: t,
+      citations: [],
+      tags: [],
+      severity: null,
+      effective_date: null,
+      confidence: 0.6,
+      source_quote: t,
+    }));
+  return rules;
+}
+
+async function extractPolicyRules(text: string, title: string): Promise<{ rules: ExtractedRule[]; extractor: "gemini" | "fallback" }> {
+  const extractor = getRuleExtractor();
+  if (extractor) {
+    try {
+      return { rules: await extractor.extractPolicyRules(text, { title }), extractor: "gemini" };
+    } catch (e: any) {
+      logger?.warn?.(`Gemini rule extraction failed, using the line splitter: ${e?.message || e}`);
+    }
+  }
+  return { rules: await fallbackExtractPolicyRules(text), extractor: "fallback" };
+}
+
+// ------------------ raw file storage ------------------
+async function storeRawFile(buffer: Buffer, originalName: string, mime: string): Promise<string | null> {
+  let storedPath: string | null = null;
+  try {
+    const bucket = process.env.SUPABASE_BUCKET || "reports";
+    storedPath = `uploads/${Date.now()}_${originalName}`;
+    const { error } = await supabase.storage.from(bucket).upload(storedPath, buffer, {
+      upsert: true,
+      contentType: mime,
+    });
+    if (error) logger?.warn?.(`Supabase upload failed: ${error.message}`);
+  } catch (e: any) {
+    logger?.warn?.(`Supabase upload error: ${e?.message || e}`);
+  }
+  return storedPath;
+}
+
+// ------------------ policy_rules helpers ------------------
+type AnchoredRule = ExtractedRule & TextAnchor;
+
+const POLICY_RULE_COLUMNS = [
+  "source_file_id", "source_filename", "rule_code", "rule_text", "citations", "tags", "severity", "effective_date",
+  "confidence", "page_start", "page_end", "section_path", "char_start", "char_end",
+];
+
+async function insertPolicyRulesBulk(db: DbExecutor, sourceFileId: string, sourceFilename: string, rules: AnchoredRule[]) {
+  if (!rules.length) return;
+
+  // Build parameterized bulk insert
+  const cols = `(${POLICY_RULE_COLUMNS.join(", ")})`;
+  const batchSize = 500;
+  for (let i = 0; i < rules.length; i += batchSize) {
+    const chunk = rules.slice(i, i + batchSize);
+    const values: string[] = [];
+    const params: any[] = [];
+    chunk.forEach((r, idx) => {
+      const base = idx * POLICY_RULE_COLUMNS.length;
+      values.push(`(${POLICY_RULE_COLUMNS.map((_, j) => `$${base + j + 1}`).join(", ")})`);
+      params.push(
+        sourceFileId,
+        sourceFilename,
+        r.rule_code ?? null,
+        r.rule_text,
+        (r.citations ?? []) as any,
+        (r.tags ?? []) as any,
+        r.severity ?? null,
+        r.effective_date ?? null,
+        r.confidence ?? null,
+        r.page_start,
+        r.page_end,
+        r.section_path,
+        r.char_start,
+        r.char_end
+      );
+    });
+
+    const sql = `
+      INSERT INTO policy_rules ${cols}
+      VALUES ${values.join(",")};
+    `;
+    await db.query(sql, params);
+  }
+}
+
+// ------------------ CSV parsing ------------------
+function parseCsvRecords(buffer: Buffer): SourceRecord[] {
+  const parsed = parse<{ record: Record<string, unknown>; info: Info }>(buffer, {
+    columns: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    bom: true,
+    trim: true,
+    info: true,
+  });
+  return parsed.map(({ record, info }) => ({ line: info.lines, record }));
+}
+
+
+function isoDateCell(v: unknown) {
+  if (v instanceof Date && !Number.isNaN(v.getTime())) {
+    // cellDates gives local-midnight Dates; keep the calendar day the sheet shows
+    const local = new Date(v.getTime() - v.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 10);
+  }
+  return v;
+}
+
+function parseSheetRecords(ws: XLSX.WorkSheet): SourceRecord[] {
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { defval: "", raw: true });
+  return rows.map((row, i) => {
+    const record: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(row)) record[k.trim()] = typeof v === "string" ? v.trim() : isoDateCell(v);
+    // __rowNum__ is the 0-based sheet row; report it 1-based like spreadsheet apps do
+    const rowNum = (row as any).__rowNum__;
+    return { line: typeof rowNum === "number" ? rowNum + 1 : i + 2, record };
+  });
+}
+
+// ------------------ detection + mapping profiles ------------------
+export interface DetectedTable {
+  detected: DetectionResult;
+  records: SourceRecord[];
+  profile: MappingProfile | null;
+}
+
+function entityHint(records: SourceRecord[], filename: string, overrides?: DetectionOverrides) {
+  if (overrides?.entity) return overrides.entity;
+  const fromName = parseFilenameHint(filename).entityCode;
+  if (fromName) return fromName;
+  const v = records[0]?.record.Entity;
+  return v === undefined || v === null || !String(v).trim() ? null : String(v).trim();
+}
+
+/**
+ * Detects the table as sent and once per mapping profile of its entity, keeping the most
+ * confident reading. A profile bound to a kind only counts when detection agrees with that kind.
+ */
+export async function detectTable(
+  records: SourceRecord[],
+  hints: { filename: string; sheetName?: string },
+  overrides?: DetectionOverrides
+): Promise<DetectedTable> {
+  let best: DetectedTable = { detected: detectReport(records, hints, overrides), records, profile: null };
+
+  const entity = entityHint(records, hints.filename, overrides);
+  const profiles = entity ? await findProfilesForEntity(entity) : [];
+  for (const profile of profiles) {
+    const mapped = applyMappingProfile(records, profile);
+    const detected = detectReport(mapped, hints, overrides);
+    if (!detected.ok || (profile.kind && profile.kind !== detected.detection.kind)) continue;
+    // ties go to the profile: it was configured for this entity on purpose
+    if (!best.detected.ok || detected.detection.confidence >= best.detected.detection.confidence) {
+      const sources = profileSourceHeaders(profile);
+      detected.detection.mapping = detected.detection.mapping.map((m) => ({ ...m, header: sources.get(m.header) ?? m.header }));
+      best = { detected, records: mapped, profile };
+    }
+  }
+  return best;
+}
+
+// ------------------ pipeline ------------------
+interface FileContext {
+  file: IncomingFile;
+  checksum: string;
+  storedPath: string | null;
+  opts: PipelineOptions;
+  fileId: string | null;
+}
+
+async function ensureFileRow(ctx: FileContext, pageCount?: number | null) {
+  if (!ctx.fileId) {
+    ctx.fileId = await upsertUploadedFileRow({
+      checksum: ctx.checksum,
+      originalName: ctx.file.originalName,
+      mime: ctx.file.mime,
+      size: ctx.file.size,
+      storedPath: ctx.storedPath,
+      pageCount,
+    });
+  }
+  return ctx.fileId;
+}
+
+/**
+ * Ingests one file. Real uploads are idempotent: a file already ingested, or a repeated
+ * Idempotency-Key, returns the original result (flagged `replayed`) unless `force` is set.
+ */
+export async function processReportUpload(file: IncomingFile, opts: PipelineOptions): Promise<PipelineResult> {
+  const checksum = sha256(file.buffer);
+  if (opts.dryRun) return runPipeline(file, checksum, opts);
+
+  const keyError = anonymousKeyError(opts);
+  if (keyError) return { status: 401, body: { ok: false, error: keyError } };
+  const lookup = await findPriorIngest({ ...opts, checksum });
+  if (lookup.status === "key_reused") {
+    return { status: 422, body: { ok: false, error: "IDEMPOTENCY_KEY_REUSED_FOR_DIFFERENT_FILE" } };
+  }
+  if (lookup.status === "in_progress") return { status: 409, body: { ok: false, error: "IDEMPOTENCY_KEY_IN_PROGRESS" } };
+  if (lookup.status === "found") return { status: 200, body: replayBody(lookup.prior) };
+  if (!(await reserveIdempotencyKey({ checksum, ...opts }))) {
+    return { status: 409, body: { ok: false, error: "IDEMPOTENCY_KEY_IN_PROGRESS" } };
+  }
+
+  let result: PipelineResult | null = null;
+  try {
+    result = await runPipeline(file, checksum, opts);
+    if (result.body.ok) {
+      await recordIngestResult({ ...opts, checksum, result: result.body });
+    }
+    return result;
+  } finally {
+    if (!result?.body.ok) await releaseIdempotencyKey(opts);
+  }
+}
+
+async function runPipeline(file: IncomingFile, checksum: string, opts: PipelineOptions): Promise<PipelineResult> {
+  const ext = (file.originalName.split(".").pop() || "").toLowerCase();
+  const ctx: FileContext = {
+    file,
+    checksum,
+    // Optional: upload the raw file to Supabase Storage (skipped for dry runs)
+    storedPath: opts.dryRun ? null : await storeRawFile(file.buffer, file.originalName, file.mime),
+    opts,
+    fileId: null,
+  };
+
+  if (file.mime === "application/pdf" || ext === "pdf") return ingestPolicyPdf(ctx);
+  if (ext === "xlsx" || ext === "xls" || /spreadsheetml|ms-excel/.test(file.mime)) return ingestWorkbook(ctx);
+  if (ext === "zip" || /^application\/(x-)?zip/.test(file.mime)) return ingestArchive(ctx);
+
+  // Otherwise → CSV to tables
+  const records = parseCsvRecords(file.buffer);
+  if (!records.length) return { status: 400, body: { ok: false, error: "EMPTY_CSV" } };
+
+  const table = await detectTable(records, { filename: file.originalName }, opts.overrides);
+  if (!table.detected.ok) return { status: 400, body: { ok: false, error: table.detected.error, ...table.detected.detail } };
+  return ingestRecords(ctx, table.detected.detection, table.records, table.profile);
+}
+
+// PDF branch → extract rules → policy_rules, each anchored to its pages, section and text offsets
+async function ingestPolicyPdf(ctx: FileContext): Promise<PipelineResult> {
+  const { file, checksum, storedPath, opts } = ctx;
+  const parsed = await parsePdfStructure(file.buffer);
+  if (!parsed.text.trim()) throw new Error("PDF_HAS_NO_SELECTABLE_TEXT");
+
+  // extract rules (Gemini, or the line splitter as fallback)
+  const extraction = await extractPolicyRules(parsed.text, file.originalName.replace(/\.pdf$/i, ""));
+  const rules: AnchoredRule[] = extraction.rules
+    .map((r) => ({
+      ...r,
+      rule_text: (r.rule_text || "").trim(),
+      citations: r.citations ?? [],
+      tags: r.tags ?? [],
+      severity: r.severity ?? null,
+      effective_date: r.effective_date ?? null,
+      confidence: r.confidence ?? null,
+      ...anchorQuote(parsed, r.source_quote ?? r.rule_text),
+    }))
+    .filter((r) => r.rule_text.length > 0);
+  const anchored = rules.filter((r) => r.char_start !== null).length;
+
+  if (opts.dryRun) {
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        dryRun: true,
+        kind: "policies",
+        filename: file.originalName,
+        checksum,
+        pages: parsed.numpages ?? null,
+        rules_extracted: rules.length,
+        rules_anchored: anchored,
+        extractor: extraction.extractor,
+        sections: parsed.sections.map(({ label, level, page }) => ({ label, level, page })),
+        rules,
+      },
+    };
+  }
+
+  // upsert uploaded_files row (idempotent on checksum)
+  const fileId = await ensureFileRow(ctx, parsed.numpages ?? null);
+
+  const meta = detectPdfMeta(file.originalName);
+  const uploadId = crypto.randomUUID();
+  await startUploadLedger({
+    uploadId,
+    userId: opts.userId,
+    checksum,
+    kind: "policies",
+    entityCode: meta.entityCode,
+    period: meta.period,
+    filename: file.originalName,
+    storagePath: storedPath,
+    uploadedFileId: fileId,
+  });
+
+  // store into policy_rules as drafts; on a re-ingest of this file the stored rules are matched to
+  // the new extraction and kept (with their ids and review state), and the rest are inserted. Then
+  // link them to the rules of the previous version in the document's series
+  let reconciled = { kept: 0, removed: 0, retired: 0 };
+  let rulesInserted = 0;
+  let version: PolicyVersion | null = null;
+  let changes: RuleChangeSummary | null = null;
+  try {
+    await withTransaction(async (tx) => {
+      version = await savePolicyDocument(tx, fileId, file.originalName, parsed, {
+        entityCode: meta.entityCode ?? opts.overrides?.entity ?? null,
+        title: meta.title ?? parsed.title ?? "policies",
+        effectiveDate: meta.period,
+      });
+      const { unmatched, ...counts } = await reconcileReingestedRules(tx, fileId, file.originalName, rules, opts.userId);
+      await insertPolicyRulesBulk(tx, fileId, file.originalName, unmatched);
+      reconciled = counts;
+      rulesInserted = unmatched.length;
+      changes = await linkPolicyRuleVersions(tx, fileId, version);
+    });
+    await finishUploadLedger(uploadId, "succeeded", {
+      rowsTotal: rules.length,
+      rowsAccepted: rules.length,
+      rowsRejected: 0,
+      rowsInserted: rulesInserted,
+      rowsUpdated: reconciled.kept,
+    });
+  } catch (e: any) {
+    await finishUploadLedger(uploadId, "failed", { rowsTotal: rules.length }, e?.message || String(e));
+    throw e;
+  }
+
+  logger?.info?.(`PDF ingested: ${file.originalName} → ${rules.length} rules (${extraction.extractor})`);
+  return {
+    status: 200,
+    body: {
+      ok: true,
+      uploadId,
+      kind: "policies",
+      filename: file.originalName,
+      uploaded_file_id: fileId,
+      pages: parsed.numpages ?? null,
+      rules_inserted: rulesInserted,
+      rules_kept: reconciled.kept,
+      rules_removed: reconciled.removed,
+      rules_retired: reconciled.retired,
+      rules_anchored: anchored,
+      extractor: extraction.extractor,
+      version,
+      changes,
+      storedPath,
+    },
+  };
+}
+
+// Workbook branch → one report kind per sheet, matched by sheet name or header signature
+async function ingestWorkbook(ctx: FileContext): Promise<PipelineResult> {
+  const workbook = XLSX.read(ctx.file.buffer, { type: "buffer", cellDates: true });
+  // a kind override cannot apply to every sheet of a mixed workbook
+  const overrides = { ...ctx.opts.overrides, kind: null };
+  const sheets: Record<string, any>[] = [];
+
+  for (const sheetName of workbook.SheetNames) {
+    const records = parseSheetRecords(workbook.Sheets[sheetName]);
+    if (!records.length) {
+      sheets.push({ sheet: sheetName, ok: false, skipped: true, error: "EMPTY_SHEET" });
+      continue;
+    }
+
+    const { detected, records: mapped, profile } = await detectTable(
+      records,
+      { filename: ctx.file.originalName, sheetName },
+      overrides
+    );
+    if (!detected.ok) {
+      sheets.push({ sheet: sheetName, ok: false, skipped: true, error: detected.error, ...detected.detail });
+      continue;
+    }
+
+    try {
+      const result = await ingestRecords(ctx, detected.detection, mapped, profile, `${ctx.file.originalName}#${sheetName}`);
+      sheets.push({ sheet: sheetName, ...result.body });
+    } catch (err: any) {
+      logger?.error?.(err);
+      sheets.push({ sheet: sheetName, ok: false, kind: detected.detection.kind, error: err?.message || "SHEET_INGEST_ERROR" });
+    }
+  }
+
+  const ingested = sheets.filter((s) => s.ok).length;
+  return {
+    status: ingested ? 200 : 400,
+    body: {
+      ok: ingested > 0,
+      ...(ctx.opts.dryRun ? { dryRun: true } : {}),
+      kind: "workbook",
+      filename: ctx.file.originalName,
+      uploaded_file_id: ctx.fileId,
+      sheets,
+      storedPath: ctx.storedPath,
+    },
+  };
+}
+
+// Archive branch → every report file inside goes through processReportUpload on its own
+async function ingestArchive(ctx: FileContext): Promise<PipelineResult> {
+  const { file, opts } = ctx;
+  const unpacked = await unpackZip(file.buffer, {
+    maxEntries: CONFIG.PROCESSING.MAX_ZIP_ENTRIES,
+    maxEntrySize: CONFIG.PROCESSING.MAX_FILE_SIZE,
+    maxTotalSize: CONFIG.PROCESSING.MAX_ZIP_UNCOMPRESSED_SIZE,
+  });
+  if (!unpacked.ok) {
+    const status = /TOO_LARGE/.test(unpacked.error) ? 413 : 400;
+    return { status, body: { ok: false, error: unpacked.error, ...unpacked.detail } };
+  }
+  if (!unpacked.entries.length) {
+    return { status: 400, body: { ok: false, error: "ZIP_HAS_NO_REPORT_FILES", skipped: unpacked.skipped } };
+  }
+
+  const archiveFileId = opts.dryRun ? null : await ensureFileRow(ctx);
+  // the package's Idempotency-Key covers the whole archive; a kind override cannot fit every entry
+  const entryOpts: PipelineOptions = { ...opts, idempotencyKey: null, overrides: { ...opts.overrides, kind: null } };
+  const entries: Record<string, any>[] = [];
+  for (const entry of unpacked.entries) {
+    try {
+      const result = await processReportUpload(
+        { buffer: entry.buffer, originalName: entry.name, mime: entry.mime, size: entry.buffer.length },
+        entryOpts
+      );
+      entries.push({ path: entry.path, status: result.status, ...result.body });
+      if (archiveFileId && result.body.uploaded_file_id) {
+        await linkArchiveMember(archiveFileId, result.body.uploaded_file_id, entry.path);
+      }
+    } catch (err: any) {
+      logger?.error?.(err);
+      entries.push({ path: entry.path, status: 500, ok: false, error: err?.message || "ENTRY_INGEST_ERROR" });
+    }
+  }
+
+  const ingested = entries.filter((e) => e.ok).length;
+  logger?.info?.(`Archive ${file.originalName}: ${ingested}/${entries.length} entries ingested`);
+  return {
+    status: ingested ? 200 : 400,
+    body: {
+      ok: ingested > 0,
+      ...(opts.dryRun ? { dryRun: true } : {}),
+      kind: "archive",
+      filename: file.originalName,
+      uploaded_file_id: archiveFileId,
+      entries,
+      skipped: unpacked.skipped,
+      coverage: await packageCoverage(entries),
+      storedPath: ctx.storedPath,
+    },
+  };
+}
+
+/**
+ * Report kinds received per entity/period in an archive, and the expected kinds that were not:
+ * the entity's submission schedule for that period, or every entity-submitted report kind if it has none.
+ */
+async function packageCoverage(entries: Record<string, any>[]) {
+  const received = new Map<string, { entityCode: string | null; period: string | null; kinds: Set<string> }>();
+  const note = (r: Record<string, any>) => {
+    if (!r.ok || !r.kind || r.kind === "policies") return;
+    const key = `${r.entityCode ?? ""}|${r.period ?? ""}`;
+    if (!received.has(key)) received.set(key, { entityCode: r.entityCode ?? null, period: r.period ?? null, kinds: new Set() });
+    received.get(key)!.kinds.add(r.kind);
+  };
+  for (const entry of entries) {
+    if (Array.isArray(entry.sheets)) entry.sheets.forEach(note);
+    else note(entry);
+  }
+
+  const allKinds = listReportSchemas().filter((s) => !s.reference).map((s) => s.kind);
+  const coverage = [];
+  for (const { entityCode, period, kinds } of received.values()) {
+    const scheduled = entityCode && period
+      ? (await listSubmissionSchedules({ entity: entityCode, activeOnly: true }))
+          .filter((s) => isPeriodEnd(period, s.frequency))
+          .map((s) => s.kind)
+      : [];
+    const expected = scheduled.length ? scheduled : allKinds;
+    coverage.push({
+      entityCode,
+      period,
+      expectedFrom: scheduled.length ? "schedule" : "all_report_kinds",
+      received: [...kinds],
+      missing: expected.filter((k) => !kinds.has(k)),
+    });
+  }
+  return coverage;
+}
+
+// Tabular rows (CSV file or workbook sheet) → validated upsert into the kind's table
+async function ingestRecords(
+  ctx: FileContext,
+  detection: ReportDetection,
+  records: SourceRecord[],
+  profile: MappingProfile | null,
+  sourceLabel = ctx.file.originalName
+): Promise<PipelineResult> {
+  const { kind, entityCode, period } = detection;
+  const detectionSummary = {
+    confidence: detection.confidence,
+    sources: detection.sources,
+    mapping: detection.mapping,
+    mappingProfile: profile ? { id: profile.id, name: profile.name } : null,
+  };
+  const { checksum, storedPath, opts } = ctx;
+
+  const schema = getReportSchema(kind);
+  const headers = Object.keys(records[0].record);
+  const missing = missingRequiredHeaders(schema, headers);
+  if (missing.length && !opts.dryRun) {
+    return {
+      status: 400,
+      body: { ok: false, error: "MISSING_REQUIRED_HEADERS", kind, missing, detection: detectionSummary },
+    };
+  }
+
+  const sourceFile = storedPath || sourceLabel;
+  const { accepted, rejected, unexpected } = validateRows(schema, records, sourceFile);
+  const tally = createQualityTally(schema, headers);
+  tallyRecords(schema, tally, records);
+  const quality = buildReportQuality(schema, tally, records.slice(0, CONFIG.PROCESSING.MAX_ROWS_TO_ANALYZE), { period });
+
+  if (opts.dryRun) {
+    const existing = await findExistingKeys(schema, accepted.map((r) => String(r[schema.conflictKey])));
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        dryRun: true,
+        kind,
+        entityCode,
+        period,
+        detection: detectionSummary,
+        table: schema.table,
+        rows: records.length,
+        wouldInsert: accepted.length - existing.size,
+        wouldUpdate: existing.size,
+        rejected: rejected.length,
+        rejections: rejected.slice(0, 100).map(({ line, key, reasons }) => ({ line, key, reasons })),
+        unexpectedValues: unexpected,
+        missingRequiredHeaders: missing,
+        unmappedColumns: unmappedHeaders(schema, headers),
+        quality: qualitySummary(quality),
+      },
+    };
+  }
+
+  // link the file to uploaded_files the same way PDFs are
+  const fileId = await ensureFileRow(ctx);
+
+  const uploadId = crypto.randomUUID();
+  await startUploadLedger({
+    uploadId,
+    userId: opts.userId,
+    checksum,
+    kind,
+    entityCode,
+    period,
+    filename: sourceLabel,
+    storagePath: storedPath,
+    uploadedFileId: fileId,
+  });
+
+  const counts = await ingestCsvReport({ uploadId, userId: opts.userId, schema, accepted, rejected });
+  await recordQualityScore(uploadId, { kind, entityCode, period }, quality);
+  const integrity = await runIntegrityChecksAfterUpload({ uploadId, kind, entityCode, period });
+  const policyChecks = await runPolicyConditionsAfterUpload({ uploadId, kind, entityCode, period });
+
+  logger?.info?.(
+    `Report ingested: ${accepted.length}/${records.length} ${kind} rows for ${entityCode} ${period} (${rejected.length} rejected)`
+  );
+  return {
+    status: 200,
+    body: {
+      ok: true,
+      uploadId,
+      uploaded_file_id: fileId,
+      kind,
+      entityCode,
+      period,
+      detection: detectionSummary,
+      rows: records.length,
+      accepted: accepted.length,
+      rejected: rejected.length,
+      inserted: counts.rowsInserted,
+      updated: counts.rowsUpdated,
+      rejectionsUrl: rejected.length ? `/api/reports/uploads/${uploadId}/rejections.csv` : null,
+      unexpectedValues: unexpected,
+      integrity,
+      policyChecks,
+      quality: qualitySummary(quality),
+      storedPath: sourceFile,
+    },
+  };
+}
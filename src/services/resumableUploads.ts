@@ -0,0 +1,342 @@
+// src/services/resumableUploads.ts
+// Resumable report uploads: the client declares the file (size + SHA-256), PUTs numbered chunks in
+// any order and as often as needed, then completes. Chunks are kept on local disk under
+// CONFIG.PROCESSING.CHUNK_DIR/<session id>/<index>.part until the session completes or expires.
+import crypto from "crypto";
+import fs from "fs";
+import fsp from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { query, withTransaction } from "../db";
+import { CONFIG, logger } from "../lib/config";
+import type { DetectionOverrides } from "../lib/reportDetection";
+import { missingChunkRanges, planChunks } from "../lib/uploadChunks";
+import { processReportUpload, type PipelineResult } from "./reportUploadPipeline";
+import { ingestCsvStream } from "./reportStreamIngestion";
+
+export type UploadSessionStatus = "open" | "completing" | "completed" | "failed" | "expired" | "aborted";
+
+export interface UploadSession {
+  id: string;
+  user_id: string | null;
+  filename: string;
+  mime_type: string | null;
+  total_size: string;        // BIGINT comes back as a string
+  chunk_size: number;
+  total_chunks: number;
+  sha256: string;
+  overrides: DetectionOverrides;
+  status: UploadSessionStatus;
+  result: Record<string, any> | null;
+  created_at: string;
+  expires_at: string;
+  completed_at: string | null;
+}
+
+function fail(status: number, error: string, detail: Record<string, any> = {}): PipelineResult {
+  return { status, body: { ok: false, error, ...detail } };
+}
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+function sessionDir(id: string) {
+  return path.join(CONFIG.PROCESSING.CHUNK_DIR, id);
+}
+
+function chunkPath(id: string, index: number) {
+  return path.join(sessionDir(id), `${index}.part`);
+}
+
+function expiresAt() {
+  return new Date(Date.now() + CONFIG.PROCESSING.UPLOAD_SESSION_TTL_MS);
+}
+
+function expectedChunkSize(session: UploadSession, index: number) {
+  const total = Number(session.total_size);
+  return index === session.total_chunks - 1 ? total - index * session.chunk_size : session.chunk_size;
+}
+
+async function removeChunks(id: string) {
+  await fsp.rm(sessionDir(id), { recursive: true, force: true }).catch((e) => {
+    logger.warn("Failed to remove upload chunks", { id, error: e?.message || e });
+  });
+}
+
+// ------------------ sessions ------------------
+export async function createUploadSession(args: {
+  userId: string;
+  filename: string;
+  mime: string | null;
+  size: number;
+  sha256: string;
+  chunkSize?: number | null;
+  overrides: DetectionOverrides;
+}): Promise<PipelineResult> {
+  const chunkSize = args.chunkSize || CONFIG.PROCESSING.DEFAULT_CHUNK_SIZE;
+  if (!args.filename.trim()) return fail(400, "FILENAME_REQUIRED");
+  if (!Number.isSafeInteger(args.size) || args.size <= 0) return fail(400, "INVALID_SIZE");
+  if (!SHA256_PATTERN.test(args.sha256)) return fail(400, "INVALID_SHA256");
+  if (args.size > CONFIG.PROCESSING.STREAM_MAX_FILE_SIZE) {
+    return fail(413, "FILE_TOO_LARGE", { max: CONFIG.PROCESSING.STREAM_MAX_FILE_SIZE });
+  }
+  const plan = planChunks(args.size, chunkSize);
+  if (!plan.ok) return fail(400, plan.error, plan.detail);
+
+  // unfinished sessions reserve their full size on local disk: cap them per user
+  const quota = CONFIG.PROCESSING.UPLOAD_SESSION_QUOTA_BYTES;
+  const created = await withTransaction(async (tx) => {
+    await tx.query(`SELECT pg_advisory_xact_lock(hashtext('report_upload_sessions:' || $1))`, [args.userId]);
+    const used = await tx.query(
+      `SELECT COALESCE(SUM(total_size), 0)::bigint AS bytes FROM report_upload_sessions
+        WHERE user_id = $1 AND status IN ('open', 'completing')`,
+      [args.userId]
+    );
+    const inUse = Number(used.rows[0].bytes);
+    if (inUse + args.size > quota) return { rejected: fail(429, "UPLOAD_QUOTA_EXCEEDED", { quota, inUse }) };
+
+    const { rows } = await tx.query(
+      `INSERT INTO report_upload_sessions
+         (user_id, filename, mime_type, total_size, chunk_size, total_chunks, sha256, overrides, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        args.userId,
+        args.filename.trim(),
+        args.mime,
+        args.size,
+        chunkSize,
+        plan.totalChunks,
+        args.sha256,
+        JSON.stringify(args.overrides),
+        expiresAt(),
+      ]
+    );
+    return { session: rows[0] as UploadSession };
+  });
+  if (!created.session) return created.rejected;
+  await fsp.mkdir(sessionDir(created.session.id), { recursive: true });
+  return { status: 201, body: { ok: true, session: await describeSession(created.session) } };
+}
+
+/** Loads a session for `userId`; a session is invisible to anyone but the user who opened it. */
+async function loadSession(id: string, userId: string): Promise<UploadSession | null> {
+  const { rows } = await query(`SELECT * FROM report_upload_sessions WHERE id = $1`, [id]);
+  const session: UploadSession | undefined = rows[0];
+  if (!session || session.user_id !== userId) return null;
+  if (session.status === "open" && new Date(session.expires_at).getTime() < Date.now()) {
+    await expireSession(session.id);
+    return { ...session, status: "expired" };
+  }
+  return session;
+}
+
+async function listReceivedChunks(session: UploadSession): Promise<number[]> {
+  const files = await fsp.readdir(sessionDir(session.id)).catch(() => [] as string[]);
+  return files
+    .map((f) => f.match(/^(\d+)\.part$/)?.[1])
+    .filter((n): n is string => n !== undefined)
+    .map(Number)
+    .filter((n) => n < session.total_chunks)
+    .sort((a, b) => a - b);
+}
+
+async function describeSession(session: UploadSession) {
+  const received = session.status === "open" ? await listReceivedChunks(session) : [];
+  return {
+    id: session.id,
+    filename: session.filename,
+    status: session.status,
+    size: Number(session.total_size),
+    chunkSize: session.chunk_size,
+    totalChunks: session.total_chunks,
+    received,
+    missing: session.status === "open" ? missingChunkRanges(session.total_chunks, received) : [],
+    expiresAt: session.expires_at,
+    result: session.result,
+  };
+}
+
+export async function getUploadSessionStatus(id: string, userId: string): Promise<PipelineResult> {
+  const session = await loadSession(id, userId);
+  if (!session) return fail(404, "UPLOAD_SESSION_NOT_FOUND");
+  return { status: 200, body: { ok: true, session: await describeSession(session) } };
+}
+
+// ------------------ chunks ------------------
+/**
+ * Stores chunk `index` from `body`. The chunk is written to a temp file and renamed into place
+ * only when its length is right, so a dropped connection never leaves a half chunk behind.
+ * Re-sending a chunk replaces it.
+ */
+export async function storeChunk(id: string, userId: string, index: number, body: Readable): Promise<PipelineResult> {
+  const session = await loadSession(id, userId);
+  if (!session) return fail(404, "UPLOAD_SESSION_NOT_FOUND");
+  if (session.status !== "open") return fail(409, "UPLOAD_SESSION_NOT_OPEN", { status: session.status });
+  if (!Number.isInteger(index) || index < 0 || index >= session.total_chunks) {
+    return fail(400, "INVALID_CHUNK_INDEX", { totalChunks: session.total_chunks });
+  }
+
+  const expected = expectedChunkSize(session, index);
+  const tmp = `${chunkPath(session.id, index)}.${crypto.randomUUID()}.tmp`;
+  let written = 0;
+  await fsp.mkdir(sessionDir(session.id), { recursive: true });
+  try {
+    await pipeline(
+      body,
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          written += chunk.length;
+          if (written > expected) throw new Error("CHUNK_TOO_LARGE");
+          yield chunk;
+        }
+      },
+      fs.createWriteStream(tmp)
+    );
+  } catch (err: any) {
+    await fsp.rm(tmp, { force: true });
+    if (err?.message === "CHUNK_TOO_LARGE") return fail(400, "CHUNK_TOO_LARGE", { expected });
+    throw err;
+  }
+  if (written !== expected) {
+    await fsp.rm(tmp, { force: true });
+    return fail(400, "CHUNK_SIZE_MISMATCH", { expected, received: written });
+  }
+  await fsp.rename(tmp, chunkPath(session.id, index));
+
+  await query(`UPDATE report_upload_sessions SET expires_at = $2 WHERE id = $1 AND status = 'open'`, [
+    session.id,
+    expiresAt(),
+  ]);
+  return { status: 200, body: { ok: true, index, bytes: written } };
+}
+
+function assembledStream(session: UploadSession) {
+  const { id, total_chunks } = session;
+  return Readable.from(
+    (async function* () {
+      for (let i = 0; i < total_chunks; i++) yield* fs.createReadStream(chunkPath(id, i));
+    })()
+  );
+}
+
+// ------------------ completion ------------------
+/**
+ * Verifies the assembled file against the declared SHA-256 and runs it through the normal
+ * ingestion: in memory for files within the upload cap, streamed (CSV only) beyond it.
+ */
+export async function completeUploadSession(
+  id: string,
+  userId: string,
+  opts: { dryRun: boolean; idempotencyKey?: string | null; force?: boolean }
+): Promise<PipelineResult> {
+  const { dryRun } = opts;
+  const session = await loadSession(id, userId);
+  if (!session) return fail(404, "UPLOAD_SESSION_NOT_FOUND");
+  if (session.status !== "open") return fail(409, "UPLOAD_SESSION_NOT_OPEN", { status: session.status });
+
+  const missing = missingChunkRanges(session.total_chunks, await listReceivedChunks(session));
+  if (missing.length) return fail(409, "CHUNKS_MISSING", { missing });
+
+  // claim the session so a double "complete" cannot ingest twice; a claim older than the TTL is
+  // taken for a crashed completion and swept
+  const claimed = await query(
+    `UPDATE report_upload_sessions SET status = 'completing', expires_at = $2 WHERE id = $1 AND status = 'open' RETURNING id`,
+    [session.id, expiresAt()]
+  );
+  if (!claimed.rows.length) return fail(409, "UPLOAD_SESSION_NOT_OPEN");
+
+  try {
+    const hash = crypto.createHash("sha256");
+    for await (const chunk of assembledStream(session)) hash.update(chunk);
+    const actual = hash.digest("hex");
+    if (actual !== session.sha256) {
+      const mismatch = fail(422, "CHECKSUM_MISMATCH", { expected: session.sha256, actual });
+      await finishSession(session.id, "failed", mismatch.body);
+      return mismatch;
+    }
+
+    const size = Number(session.total_size);
+    const mime = session.mime_type || "application/octet-stream";
+    const pipelineOpts = { ...opts, userId: session.user_id, overrides: session.overrides };
+    let result: PipelineResult;
+    if (size <= CONFIG.PROCESSING.MAX_FILE_SIZE) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of assembledStream(session)) chunks.push(chunk);
+      result = await processReportUpload({ buffer: Buffer.concat(chunks), originalName: session.filename, mime, size }, pipelineOpts);
+    } else if (/\.csv$/i.test(session.filename)) {
+      result = await ingestCsvStream(assembledStream(session), { originalName: session.filename, mime }, pipelineOpts, {
+        checksum: actual,
+      });
+    } else {
+      result = fail(413, "ONLY_CSV_SUPPORTED_ABOVE_SIZE_CAP", { max: CONFIG.PROCESSING.MAX_FILE_SIZE });
+    }
+
+    if (dryRun) {
+      // a preview leaves the session open so the real completion can follow
+      await reopenSession(session.id);
+      return result;
+    }
+    await finishSession(session.id, result.body.ok ? "completed" : "failed", result.body);
+    return result;
+  } catch (err: any) {
+    // a database or storage error says nothing about the file: keep the chunks so it can be retried
+    await reopenSession(session.id);
+    throw err;
+  }
+}
+
+async function reopenSession(id: string) {
+  await query(`UPDATE report_upload_sessions SET status = 'open', expires_at = $2 WHERE id = $1 AND status = 'completing'`, [
+    id,
+    expiresAt(),
+  ]);
+}
+
+async function finishSession(id: string, status: UploadSessionStatus, result: Record<string, any>) {
+  await query(
+    `UPDATE report_upload_sessions SET status = $2, result = $3, completed_at = NOW() WHERE id = $1`,
+    [id, status, JSON.stringify(result)]
+  );
+  await removeChunks(id);
+}
+
+export async function abortUploadSession(id: string, userId: string): Promise<PipelineResult> {
+  const session = await loadSession(id, userId);
+  if (!session) return fail(404, "UPLOAD_SESSION_NOT_FOUND");
+  if (session.status !== "open") return fail(409, "UPLOAD_SESSION_NOT_OPEN", { status: session.status });
+  await query(`UPDATE report_upload_sessions SET status = 'aborted' WHERE id = $1`, [session.id]);
+  await removeChunks(session.id);
+  return { status: 200, body: { ok: true, id: session.id, status: "aborted" } };
+}
+
+// ------------------ expiry ------------------
+async function expireSession(id: string) {
+  await query(`UPDATE report_upload_sessions SET status = 'expired' WHERE id = $1 AND status = 'open'`, [id]);
+  await removeChunks(id);
+}
+
+/**
+ * Expires sessions past their TTL and deletes their chunks: open sessions, and sessions left
+ * "completing" by a process that died mid-completion.
+ */
+export async function sweepExpiredUploadSessions() {
+  const { rows } = await query(
+    `UPDATE report_upload_sessions SET status = 'expired'
+      WHERE status IN ('open', 'completing') AND expires_at < NOW()
+      RETURNING id`
+  );
+  for (const r of rows) await removeChunks(r.id);
+  if (rows.length) logger.info("Expired resumable uploads", { count: rows.length });
+  return rows.length;
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+export function startUploadSessionSweeper(intervalMs = 15 * 60 * 1000) {
+  if (sweeper) return;
+  sweeper = setInterval(() => {
+    sweepExpiredUploadSessions().catch((e) => logger.error("Upload session sweep failed", { error: e?.message || e }));
+  }, intervalMs);
+  sweeper.unref();
+}
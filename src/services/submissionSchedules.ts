@@ -0,0 +1,196 @@
+// src/services/submissionSchedules.ts
+// The submission calendar: which reports each entity owes (report_submission_schedules), which of
+// them have arrived (succeeded report_uploads for the entity/kind/period), and the overdue check
+// that turns missed deadlines into compliance issues.
+import { query } from "../db";
+import { logger } from "../lib/config";
+import {
+  dueDate,
+  isPeriodEnd,
+  periodEndsBetween,
+  type SubmissionSchedule,
+  type SubmissionScheduleInput,
+} from "../lib/submissionCalendar";
+import { findOpenIssues, raiseComplianceIssue, resolveComplianceIssue } from "./complianceIssues";
+
+const SCHEDULE_COLUMNS = `id, entity_code, kind, frequency, due_day_offset, active, created_by, created_at, updated_at`;
+const OVERDUE_LOOKBACK_PERIODS = 12; // per schedule, so a new deployment does not flag years of history
+const ISSUE_SOURCE = "submission_schedule";
+
+export type SubmissionStatus = "received" | "received_late" | "pending" | "overdue";
+
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+const overdueKey = (entityCode: string, kind: string, period: string) =>
+  `submission_overdue:${entityCode.toLowerCase()}:${kind}:${period}`;
+
+export async function listSubmissionSchedules(
+  filters: { entity?: string | null; kind?: string | null; activeOnly?: boolean } = {}
+) {
+  const where: string[] = [];
+  const params: any[] = [];
+  if (filters.entity) {
+    params.push(filters.entity);
+    where.push(`lower(entity_code) = lower($${params.length})`);
+  }
+  if (filters.kind) {
+    params.push(filters.kind);
+    where.push(`kind = $${params.length}`);
+  }
+  if (filters.activeOnly) where.push(`active`);
+  const { rows } = await query(
+    `SELECT ${SCHEDULE_COLUMNS} FROM report_submission_schedules
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY entity_code, kind`,
+    params
+  );
+  return rows as (SubmissionSchedule & { created_at: string })[];
+}
+
+export async function createSubmissionSchedule(input: SubmissionScheduleInput, userId: string | null) {
+  const { rows } = await query(
+    `INSERT INTO report_submission_schedules (entity_code, kind, frequency, due_day_offset, active, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${SCHEDULE_COLUMNS}`,
+    [input.entity_code.trim(), input.kind, input.frequency, input.due_day_offset, input.active ?? true, userId]
+  );
+  return rows[0] as SubmissionSchedule;
+}
+
+export async function updateSubmissionSchedule(id: string, input: SubmissionScheduleInput) {
+  const { rows } = await query(
+    `UPDATE report_submission_schedules
+        SET entity_code = $2, kind = $3, frequency = $4, due_day_offset = $5, active = $6, updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${SCHEDULE_COLUMNS}`,
+    [id, input.entity_code.trim(), input.kind, input.frequency, input.due_day_offset, input.active ?? true]
+  );
+  return (rows[0] as SubmissionSchedule) ?? null;
+}
+
+export async function deleteSubmissionSchedule(id: string): Promise<boolean> {
+  const { rowCount } = await query(`DELETE FROM report_submission_schedules WHERE id = $1`, [id]);
+  return (rowCount ?? 0) > 0;
+}
+
+/** First successful upload per entity/kind/period, keyed "entity|kind|period" (entity lower-cased). */
+async function receivedSubmissions(periods: string[]) {
+  const received = new Map<string, { uploadId: string; receivedAt: Date }>();
+  if (!periods.length) return received;
+  const { rows } = await query(
+    `SELECT lower(entity_code) AS entity, kind, period,
+            MIN(finished_at) AS received_at,
+            (array_agg(id ORDER BY finished_at))[1] AS upload_id
+       FROM report_uploads
+      WHERE status = 'succeeded' AND entity_code IS NOT NULL AND period = ANY($1)
+      GROUP BY 1, 2, 3`,
+    [periods]
+  );
+  for (const r of rows) {
+    received.set(`${r.entity}|${r.kind}|${r.period}`, { uploadId: r.upload_id, receivedAt: new Date(r.received_at) });
+  }
+  return received;
+}
+
+/** Expected vs received submissions for one period end, across every active schedule. */
+export async function getSubmissionStatus(args: { period: string; entity?: string | null; now?: Date }) {
+  const today = isoDate(args.now ?? new Date());
+  const schedules = (await listSubmissionSchedules({ entity: args.entity, activeOnly: true })).filter((s) =>
+    isPeriodEnd(args.period, s.frequency)
+  );
+  const received = await receivedSubmissions([args.period]);
+  const openIssues = await findOpenIssues(schedules.map((s) => overdueKey(s.entity_code, s.kind, args.period)));
+
+  const submissions = schedules.map((s) => {
+    const due = dueDate(args.period, s.due_day_offset);
+    const got = received.get(`${s.entity_code.toLowerCase()}|${s.kind}|${args.period}`);
+    let status: SubmissionStatus;
+    if (got) status = isoDate(got.receivedAt) <= due ? "received" : "received_late";
+    else status = today > due ? "overdue" : "pending";
+    return {
+      scheduleId: s.id,
+      entityCode: s.entity_code,
+      kind: s.kind,
+      frequency: s.frequency,
+      period: args.period,
+      dueDate: due,
+      status,
+      receivedAt: got?.receivedAt ?? null,
+      uploadId: got?.uploadId ?? null,
+      issueId: openIssues.get(overdueKey(s.entity_code, s.kind, args.period)) ?? null,
+    };
+  });
+
+  const summary: Record<SubmissionStatus | "expected", number> = {
+    expected: submissions.length,
+    received: 0,
+    received_late: 0,
+    pending: 0,
+    overdue: 0,
+  };
+  for (const s of submissions) summary[s.status]++;
+  return { period: args.period, summary, submissions };
+}
+
+/**
+ * Raises a compliance issue for every scheduled report past its due date and still missing, and
+ * resolves earlier ones whose report has since arrived. Only deadlines falling after the schedule
+ * was created count.
+ */
+export async function flagOverdueSubmissions(now = new Date()) {
+  const today = isoDate(now);
+  const schedules = await listSubmissionSchedules({ activeOnly: true });
+
+  const candidates: { schedule: SubmissionSchedule; period: string; due: string }[] = [];
+  for (const s of schedules) {
+    const created = isoDate(new Date(s.created_at));
+    const shift = (d: Date | string) => new Date(new Date(d).getTime() - s.due_day_offset * 86_400_000);
+    const periods = periodEndsBetween(s.frequency, shift(`${created}T00:00:00Z`), shift(now))
+      .map((period) => ({ schedule: s, period, due: dueDate(period, s.due_day_offset) }))
+      .filter((c) => c.due < today && c.due >= created);
+    candidates.push(...periods.slice(-OVERDUE_LOOKBACK_PERIODS));
+  }
+
+  const received = await receivedSubmissions([...new Set(candidates.map((c) => c.period))]);
+  let raised = 0;
+  for (const { schedule, period, due } of candidates) {
+    if (received.has(`${schedule.entity_code.toLowerCase()}|${schedule.kind}|${period}`)) continue;
+    const { created } = await raiseComplianceIssue({
+      dedupeKey: overdueKey(schedule.entity_code, schedule.kind, period),
+      issueType: "Missing Report Submission",
+      entity: schedule.entity_code,
+      severity: "High",
+      description: `${schedule.entity_code} has not submitted its ${schedule.frequency} ${schedule.kind} report for the period ending ${period} (due ${due}).`,
+      source: ISSUE_SOURCE,
+      details: { scheduleId: schedule.id, entityCode: schedule.entity_code, kind: schedule.kind, period, dueDate: due },
+    });
+    if (created) raised++;
+  }
+
+  // a late report closes the issue its absence opened
+  const { rows: open } = await query(
+    `SELECT dedupe_key, details FROM compliance_issues WHERE source = $1 AND status <> 'Resolved'`,
+    [ISSUE_SOURCE]
+  );
+  const lateArrivals = await receivedSubmissions([...new Set(open.map((r: any) => String(r.details?.period)))]);
+  let resolved = 0;
+  for (const issue of open) {
+    const { entityCode, kind, period } = issue.details ?? {};
+    const got = lateArrivals.get(`${String(entityCode).toLowerCase()}|${kind}|${period}`);
+    if (!got) continue;
+    const note = `Report received ${got.receivedAt.toISOString()} (upload ${got.uploadId})`;
+    if (await resolveComplianceIssue(issue.dedupe_key, note)) resolved++;
+  }
+
+  if (raised || resolved) logger.info(`Submission check: ${raised} overdue report(s) flagged, ${resolved} resolved`);
+  return { checked: candidates.length, raised, resolved };
+}
+
+let overdueCheck: NodeJS.Timeout | null = null;
+
+export function startOverdueSubmissionCheck(intervalMs = 60 * 60 * 1000) {
+  if (overdueCheck) return;
+  overdueCheck = setInterval(() => {
+    flagOverdueSubmissions().catch((e) => logger.error("Overdue submission check failed", { error: e?.message || e }));
+  }, intervalMs);
+  overdueCheck.unref();
+}
@@ -0,0 +1,153 @@
+// src/services/uploadIdempotency.ts
+// Makes report uploads idempotent: a file already ingested (same SHA-256) or a request repeated
+// with the same Idempotency-Key gets the original result back instead of being processed again.
+// A key belongs to the signed-in user who sent it, and is reserved (a row with no result yet)
+// before the ingest starts, so a concurrent repeat waits for the first instead of ingesting twice.
+// A file sent with different kind/entity/period overrides is a different ingest, never a replay.
+import { query } from "../db";
+import type { DetectionOverrides } from "../lib/reportDetection";
+
+// A reservation this old belongs to an ingest that died; the key can be taken over
+const STALE_RESERVATION_MINUTES = 60;
+
+export interface PriorIngest {
+  reason: "idempotency_key" | "checksum";
+  result: Record<string, any>;
+  ingestedAt: string;
+}
+
+export type PriorIngestLookup =
+  | { status: "none" }
+  | { status: "found"; prior: PriorIngest }
+  | { status: "key_reused"; checksum: string }
+  | { status: "in_progress" };
+
+/** Upload ids inside a pipeline result: one for CSV/PDF, one per ingested sheet or archive entry. */
+export function uploadIdsOf(result: Record<string, any>): string[] {
+  const nested = [...(result.sheets ?? []), ...(result.entries ?? [])].flatMap((r: any) => (r ? uploadIdsOf(r) : []));
+  return [result.uploadId, ...nested].filter((id): id is string => typeof id === "string");
+}
+
+// Overrides as stored with a result: "" when none, else "kind|entity|period" (trimmed, lower case)
+function overridesKey(overrides?: DetectionOverrides | null) {
+  const values = [overrides?.kind, overrides?.entity, overrides?.period].map((v) => (v ?? "").trim().toLowerCase());
+  return values.some(Boolean) ? values.join("|") : "";
+}
+
+/** The error for an Idempotency-Key sent without a session, or null when the key can be used. */
+export function anonymousKeyError(opts: { idempotencyKey?: string | null; userId: string | null }) {
+  return opts.idempotencyKey && !opts.userId ? "IDEMPOTENCY_KEY_REQUIRES_SIGN_IN" : null;
+}
+
+/**
+ * Looks for an earlier ingest to replay. A key always replays its own request (and is refused
+ * for a different file, or reported in progress while reserved); a checksum replays only while
+ * every upload it produced still stands, so a reverted file can be sent again, and only to a
+ * request with the same overrides. `force` skips the checksum match.
+ */
+export async function findPriorIngest(args: {
+  checksum: string | null;           // null while a streamed file is still arriving: key match only
+  idempotencyKey?: string | null;
+  userId: string | null;
+  overrides?: DetectionOverrides | null;
+  force?: boolean;
+}): Promise<PriorIngestLookup> {
+  if (args.idempotencyKey && args.userId) {
+    const { rows } = await query(
+      `SELECT checksum, result, created_at FROM report_ingest_results
+        WHERE idempotency_key = $1 AND user_id = $2`,
+      [args.idempotencyKey, args.userId]
+    );
+    if (rows[0]) {
+      if (args.checksum && rows[0].checksum !== args.checksum) return { status: "key_reused", checksum: rows[0].checksum };
+      if (!rows[0].result) return { status: "in_progress" };
+      return { status: "found", prior: { reason: "idempotency_key", result: rows[0].result, ingestedAt: rows[0].created_at } };
+    }
+  }
+  if (args.force || !args.checksum) return { status: "none" };
+
+  const { rows } = await query(
+    `SELECT r.result, r.created_at FROM report_ingest_results r
+      WHERE r.checksum = $1 AND r.overrides = $2 AND r.superseded_at IS NULL AND r.result IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM report_uploads u WHERE u.id = ANY(r.upload_ids) AND u.status <> 'succeeded'
+        )
+      ORDER BY r.created_at DESC
+      LIMIT 1`,
+    [args.checksum, overridesKey(args.overrides)]
+  );
+  if (!rows[0]) return { status: "none" };
+  return { status: "found", prior: { reason: "checksum", result: rows[0].result, ingestedAt: rows[0].created_at } };
+}
+
+/**
+ * Claims `idempotencyKey` for an ingest about to start; true when there is no key or the claim
+ * succeeded, false when another request holds it. Call after findPriorIngest found nothing.
+ */
+export async function reserveIdempotencyKey(args: {
+  checksum: string;
+  idempotencyKey?: string | null;
+  userId: string | null;
+  overrides?: DetectionOverrides | null;
+}) {
+  if (!args.idempotencyKey || !args.userId) return true;
+  const { rows } = await query(
+    `INSERT INTO report_ingest_results (checksum, idempotency_key, user_id, overrides, result)
+     VALUES ($1, $2, $3, $5, NULL)
+     ON CONFLICT ((COALESCE(user_id, '')), idempotency_key) WHERE idempotency_key IS NOT NULL
+     DO UPDATE SET checksum = EXCLUDED.checksum, overrides = EXCLUDED.overrides, created_at = NOW()
+       WHERE report_ingest_results.result IS NULL
+         AND report_ingest_results.created_at < NOW() - make_interval(mins => $4)
+     RETURNING id`,
+    [args.checksum, args.idempotencyKey, args.userId, STALE_RESERVATION_MINUTES, overridesKey(args.overrides)]
+  );
+  return rows.length > 0;
+}
+
+/** Drops the reservation of an ingest that failed, so the same key can be retried. */
+export async function releaseIdempotencyKey(args: { idempotencyKey?: string | null; userId: string | null }) {
+  if (!args.idempotencyKey || !args.userId) return;
+  await query(
+    `DELETE FROM report_ingest_results WHERE idempotency_key = $1 AND user_id = $2 AND result IS NULL`,
+    [args.idempotencyKey, args.userId]
+  );
+}
+
+/**
+ * Records a successful ingest, filling its key's reservation; earlier results for the same file
+ * and overrides stop being replayed.
+ */
+export async function recordIngestResult(args: {
+  checksum: string;
+  idempotencyKey?: string | null;
+  userId: string | null;
+  overrides?: DetectionOverrides | null;
+  result: Record<string, any>;
+}) {
+  const overrides = overridesKey(args.overrides);
+  await query(
+    `UPDATE report_ingest_results SET superseded_at = NOW()
+      WHERE checksum = $1 AND overrides = $2 AND superseded_at IS NULL AND result IS NOT NULL`,
+    [args.checksum, overrides]
+  );
+  const values = [args.checksum, uploadIdsOf(args.result), JSON.stringify(args.result), overrides];
+  if (args.idempotencyKey && args.userId) {
+    const filled = await query(
+      `UPDATE report_ingest_results SET checksum = $1, upload_ids = $2, result = $3, overrides = $4, created_at = NOW()
+        WHERE idempotency_key = $5 AND user_id = $6 AND result IS NULL`,
+      [...values, args.idempotencyKey, args.userId]
+    );
+    if (filled.rowCount) return;
+  }
+  await query(
+    `INSERT INTO report_ingest_results (checksum, idempotency_key, user_id, upload_ids, result, overrides)
+     VALUES ($1, $5, $6, $2, $3, $4)
+     ON CONFLICT DO NOTHING`,
+    [...values, args.userId ? args.idempotencyKey ?? null : null, args.userId]
+  );
+}
+
+/** Body returned for a replayed upload: the original result, flagged as a replay. */
+export function replayBody(prior: PriorIngest) {
+  return { ...prior.result, replayed: true, replayedBecause: prior.reason, originalIngestedAt: prior.ingestedAt };
+}
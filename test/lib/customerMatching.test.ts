@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  findDuplicateClusters,
+  jaroWinkler,
+  normalizeDob,
+  normalizeEmail,
+  normalizeName,
+  normalizePhone,
+  type CustomerRecord,
+  type MatchThresholds,
+} from "../../src/lib/customerMatching";
+
+const thresholds: MatchThresholds = { nameSimilarity: 0.9, minScore: 0.85 };
+
+function customer(id: string, fields: Partial<CustomerRecord>): CustomerRecord {
+  return { customer_id: id, name: null, email: null, phone: null, dob: null, entity: "BPI", ...fields };
+}
+
+describe("normalizers", () => {
+  it("normalizes names regardless of order, accents, punctuation and titles", () => {
+    assert.equal(normalizeName("Dr. José  Dela Cruz"), "cruz dela jose");
+    assert.equal(normalizeName("DELA CRUZ, Jose"), normalizeName("Mr. Jose Dela Cruz"));
+    assert.equal(normalizeName(null), "");
+  });
+
+  it("lower-cases emails and drops +tags", () => {
+    assert.equal(normalizeEmail(" Juan.Cruz+bank@Example.com "), "juan.cruz@example.com");
+    assert.equal(normalizeEmail("not-an-email"), "");
+    assert.equal(normalizeEmail("@example.com"), "");
+  });
+
+  it("compares phones on their last 10 digits", () => {
+    assert.equal(normalizePhone("+63 917 123 4567"), normalizePhone("0917-123-4567"));
+    assert.equal(normalizePhone("123-45"), "");
+  });
+
+  it("keeps only an ISO date of birth", () => {
+    assert.equal(normalizeDob("1990-04-01T00:00:00Z"), "1990-04-01");
+    assert.equal(normalizeDob("04/01/1990"), "");
+  });
+});
+
+describe("jaroWinkler", () => {
+  it("matches the textbook values", () => {
+    assert.equal(Math.round(jaroWinkler("martha", "marhta") * 1000) / 1000, 0.961);
+    assert.equal(Math.round(jaroWinkler("dwayne", "duane") * 1000) / 1000, 0.84);
+  });
+
+  it("is 1 for equal strings and 0 when either is empty or nothing matches", () => {
+    assert.equal(jaroWinkler("abc", "abc"), 1);
+    assert.equal(jaroWinkler("", ""), 0);
+    assert.equal(jaroWinkler("abc", ""), 0);
+    assert.equal(jaroWinkler("abc", "xyz"), 0);
+  });
+});
+
+describe("findDuplicateClusters", () => {
+  it("matches the same email across entities", () => {
+    const clusters = findDuplicateClusters(
+      [
+        customer("C1", { name: "Juan Cruz", email: "juan@example.com", entity: "BPI" }),
+        customer("C2", { name: "J. Cruz", email: "JUAN+promo@example.com", entity: "BDO" }),
+      ],
+      thresholds
+    );
+    assert.equal(clusters.length, 1);
+    assert.deepEqual(clusters[0].members, ["C1", "C2"]);
+    assert.deepEqual(clusters[0].entities.sort(), ["BDO", "BPI"]);
+    assert.equal(clusters[0].score, 0.95);
+    assert.deepEqual(clusters[0].pairs[0].reasons, ["email", "name≈0.93"]);
+  });
+
+  it("scores a full match (name, contact and birthday) as 1", () => {
+    const [cluster] = findDuplicateClusters(
+      [
+        customer("C1", { name: "Maria Santos", phone: "+63 917 555 0101", dob: "1985-02-03" }),
+        customer("C2", { name: "Santos, Maria", phone: "09175550101", dob: "1985-02-03" }),
+      ],
+      thresholds
+    );
+    assert.equal(cluster.score, 1);
+    assert.deepEqual(cluster.pairs[0].reasons, ["phone", "dob", "name≈1.00"]);
+  });
+
+  it("does not match on a similar name alone", () => {
+    const clusters = findDuplicateClusters(
+      [customer("C1", { name: "Maria Santos" }), customer("C2", { name: "Maria Santos" })],
+      thresholds
+    );
+    assert.deepEqual(clusters, []);
+  });
+
+  it("treats a shared phone with different birthdays as a household", () => {
+    const clusters = findDuplicateClusters(
+      [
+        customer("C1", { name: "Maria Santos", phone: "09175550101", dob: "1985-02-03" }),
+        customer("C2", { name: "Mario Santos", phone: "09175550101", dob: "2010-07-08" }),
+      ],
+      thresholds
+    );
+    assert.deepEqual(clusters, []);
+  });
+
+  it("matches a similar name with the same birthday", () => {
+    const [cluster] = findDuplicateClusters(
+      [
+        customer("C1", { name: "Jonathan Reyes", dob: "1979-12-24" }),
+        customer("C2", { name: "Jonathon Reyes", dob: "1979-12-24" }),
+      ],
+      thresholds
+    );
+    assert.equal(cluster.score, 0.9);
+    assert.ok(cluster.pairs[0].reasons.includes("dob"));
+  });
+
+  it("joins chained pairs into one cluster held by its weakest link", () => {
+    const clusters = findDuplicateClusters(
+      [
+        customer("C3", { name: "Ana Lim", phone: "09181112222", entity: "BDO" }),
+        customer("C1", { name: "Ana Lim", email: "ana@example.com", entity: "BPI" }),
+        customer("C2", { name: "Anna Lim", email: "ana@example.com", phone: "09181112222", entity: "MBT" }),
+        customer("C9", { name: "Someone Else", email: "else@example.com" }),
+      ],
+      { nameSimilarity: 0.99, minScore: 0.8 }
+    );
+    assert.equal(clusters.length, 1);
+    assert.deepEqual(clusters[0].members, ["C1", "C2", "C3"]);
+    assert.equal(clusters[0].fingerprint, "C1|C2|C3");
+    assert.equal(clusters[0].score, 0.8);
+    assert.equal(clusters[0].pairs.length, 2);
+  });
+
+  it("gives the same fingerprint whatever the input order", () => {
+    const records = [
+      customer("B", { email: "x@example.com" }),
+      customer("A", { email: "x@example.com" }),
+    ];
+    const forward = findDuplicateClusters(records, thresholds);
+    const backward = findDuplicateClusters([...records].reverse(), thresholds);
+    assert.equal(forward[0].fingerprint, "A|B");
+    assert.equal(backward[0].fingerprint, "A|B");
+  });
+
+  it("skips blocking keys shared by too many records", () => {
+    const records = Array.from({ length: 201 }, (_, i) => customer(`C${i}`, { email: "shared@example.com" }));
+    assert.deepEqual(findDuplicateClusters(records, thresholds), []);
+  });
+
+  it("lists larger clusters first", () => {
+    const clusters = findDuplicateClusters(
+      [
+        customer("A1", { email: "a@example.com" }),
+        customer("A2", { email: "a@example.com" }),
+        customer("B1", { email: "b@example.com" }),
+        customer("B2", { email: "b@example.com" }),
+        customer("B3", { email: "b@example.com" }),
+      ],
+      thresholds
+    );
+    assert.deepEqual(
+      clusters.map((c) => c.members.length),
+      [3, 2]
+    );
+  });
+});
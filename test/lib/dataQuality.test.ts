@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CONFIG } from "../../src/lib/config";
+import { createQualityTally, freshness, overallScore, scoreTally, tallyRecords } from "../../src/lib/dataQuality";
+import { getReportSchema } from "../../src/lib/reportSchemas";
+import type { SourceRecord } from "../../src/lib/reportValidation";
+
+const risk = getReportSchema("risk");
+const headers = ["Risk_ID", "Likelihood", "Review_Date", "Owner"];
+const records: SourceRecord[] = [
+  { line: 2, record: { Risk_ID: "R1", Likelihood: "3", Review_Date: "2025-06-01", Owner: "Ana" } },
+  { line: 3, record: { Risk_ID: "R2", Likelihood: "high", Review_Date: "2025-06-31", Owner: "" } },
+  { line: 4, record: { Risk_ID: "R1", Likelihood: "", Review_Date: "", Owner: "Ben" } },
+  { line: 5, record: { Risk_ID: "", Likelihood: "1", Review_Date: "2025-06-02", Owner: "Cy" } },
+];
+const uploadedAt = new Date("2025-07-10T00:00:00Z");
+
+describe("freshness", () => {
+  const { FRESHNESS_GRACE_DAYS: grace, FRESHNESS_ZERO_DAYS: zero } = CONFIG.QUALITY;
+  const after = (days: number) => new Date(Date.UTC(2025, 5, 30) + days * 86_400_000);
+
+  it("is 1 within the grace period and 0 from the zero day", () => {
+    assert.deepEqual(freshness("2025-06-30", after(grace)), { lagDays: grace, score: 1 });
+    assert.deepEqual(freshness("2025-06-30", after(-5)), { lagDays: -5, score: 1 });
+    assert.deepEqual(freshness("2025-06-30", after(zero)), { lagDays: zero, score: 0 });
+  });
+
+  it("falls linearly in between", () => {
+    const mid = Math.round((grace + zero) / 2);
+    assert.equal(freshness("2025-06-30", after(mid)).score, 1 - (mid - grace) / (zero - grace));
+  });
+
+  it("cannot be scored without a valid period end", () => {
+    assert.deepEqual(freshness(null, uploadedAt), { lagDays: null, score: null });
+    assert.deepEqual(freshness("2025-Q2", uploadedAt), { lagDays: null, score: null });
+    assert.deepEqual(freshness("2025-06-31", uploadedAt), { lagDays: null, score: null });
+  });
+});
+
+describe("overallScore", () => {
+  it("weights the dimensions and re-normalizes over those that were scored", () => {
+    const w = CONFIG.QUALITY.WEIGHTS;
+    const all = overallScore({ completeness: 1, validity: 0.5, uniqueness: 1, freshness: 0 })!;
+    assert.ok(Math.abs(all - (w.completeness + 0.5 * w.validity + w.uniqueness)) < 1e-9);
+    const some = overallScore({ completeness: 1, validity: 0, uniqueness: null, freshness: null })!;
+    assert.ok(Math.abs(some - w.completeness / (w.completeness + w.validity)) < 1e-9);
+    assert.equal(overallScore({ completeness: null }), null);
+  });
+});
+
+describe("scoreTally", () => {
+  it("scores completeness, validity and uniqueness per column and overall", () => {
+    const tally = createQualityTally(risk, headers);
+    tallyRecords(risk, tally, records.slice(0, 2));
+    tallyRecords(risk, tally, records.slice(2));
+    const card = scoreTally(tally, { period: "2025-06-30", uploadedAt });
+
+    assert.equal(card.rows, 4);
+    const likelihood = card.columns.find((c) => c.column === "likelihood")!;
+    assert.deepEqual(
+      { filled: likelihood.filled, invalid: likelihood.invalid, completeness: likelihood.completeness, validity: likelihood.validity },
+      { filled: 3, invalid: 1, completeness: 0.75, validity: 0.6667 }
+    );
+    assert.equal(card.columns.find((c) => c.column === "review_date")!.invalid, 1);
+    // 12 of 16 cells filled, 10 of those valid; keys R1, R2, R1 on 3 keyed rows
+    assert.equal(card.completeness, 0.75);
+    assert.equal(card.validity, 0.8333);
+    assert.equal(card.uniqueness, 0.6667);
+    assert.equal(card.duplicateKeys, 1);
+    assert.equal(card.freshness, 1);
+    assert.equal(card.lagDays, 10);
+  });
+
+  it("only scores the columns the file sent plus the required ones", () => {
+    const tally = createQualityTally(risk, ["Risk_ID", "Owner"]);
+    assert.deepEqual(
+      tally.columns.map((c) => [c.column.column, c.present]),
+      [
+        ["risk_id", true],
+        ["owner", true],
+      ]
+    );
+  });
+
+  it("returns each batch's keys and gives the same scores when the caller counts distinct keys", () => {
+    const inMemory = createQualityTally(risk, headers);
+    const external = createQualityTally(risk, headers, { keysInMemory: false });
+    const seen = new Set<string>();
+    for (const batch of [records.slice(0, 2), records.slice(2)]) {
+      tallyRecords(risk, inMemory, batch);
+      const keys = tallyRecords(risk, external, batch);
+      const before = seen.size;
+      for (const key of keys) seen.add(key);
+      external.distinctKeys += seen.size - before;
+    }
+    assert.equal(external.keys, null);
+    assert.deepEqual(
+      scoreTally(external, { period: "2025-06-30", uploadedAt }),
+      scoreTally(inMemory, { period: "2025-06-30", uploadedAt })
+    );
+  });
+
+  it("keys composite-key reports on all their key columns", () => {
+    const fx = getReportSchema("fx_rates");
+    const tally = createQualityTally(fx, ["Date", "Currency", "Rate"]);
+    const keys = tallyRecords(fx, tally, [
+      { line: 2, record: { Date: "2025-06-30", Currency: "USD", Rate: "56" } },
+      { line: 3, record: { Date: "2025-06-30", Currency: "EUR", Rate: "61" } },
+      { line: 4, record: { Date: "2025-06-30", Currency: "USD", Rate: "57" } },
+      { line: 5, record: { Date: "", Currency: "JPY", Rate: "0.4" } },
+    ]);
+    assert.deepEqual(keys, ["2025-06-30:USD", "2025-06-30:EUR", "2025-06-30:USD"]);
+    assert.equal(scoreTally(tally, { period: null, uploadedAt }).duplicateKeys, 1);
+  });
+
+  it("leaves ratios unscored for an empty file", () => {
+    const card = scoreTally(createQualityTally(risk, headers), { period: null, uploadedAt });
+    assert.equal(card.completeness, null);
+    assert.equal(card.uniqueness, null);
+    assert.equal(card.overall, null);
+  });
+});
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getReportSchema } from "../../src/lib/reportSchemas";
+import {
+  buildRejectionCsv,
+  isIsoCurrencyCode,
+  isValidDate,
+  mergeUnexpectedValues,
+  validateRows,
+  type SourceRecord,
+} from "../../src/lib/reportValidation";
+
+const transactions = getReportSchema("transactions");
+const fxRates = getReportSchema("fx_rates");
+
+const txn = (line: number, fields: Record<string, string>): SourceRecord => ({
+  line,
+  record: { Txn_ID: `T${line}`, Date: "2025-06-01", Account_ID: "A1", Amount: "100", ...fields },
+});
+
+describe("isValidDate", () => {
+  it("accepts ISO dates with an optional time and zone", () => {
+    for (const value of ["2025-06-30", "2024-02-29", "2025-06-30T10:15", "2025-06-30 10:15:30.5+08:00", "2025-06-30T00:00:00Z"]) {
+      assert.ok(isValidDate(value), value);
+    }
+  });
+
+  it("rejects other formats and impossible dates", () => {
+    for (const value of ["2025-02-29", "2025-13-01", "2025-06-31", "06/30/2025", "2025-6-30", "20250630", ""]) {
+      assert.ok(!isValidDate(value), value);
+    }
+  });
+});
+
+describe("isIsoCurrencyCode", () => {
+  it("knows ISO 4217 codes in any case", () => {
+    assert.ok(isIsoCurrencyCode("PHP"));
+    assert.ok(isIsoCurrencyCode(" usd "));
+    assert.ok(!isIsoCurrencyCode("XYZ1"));
+    assert.ok(!isIsoCurrencyCode("PESO"));
+  });
+});
+
+describe("validateRows", () => {
+  it("accepts valid rows and normalizes them", () => {
+    const { accepted, rejected } = validateRows(transactions, [txn(2, { Currency: "usd", Status: "completed" })], "f.csv");
+    assert.deepEqual(rejected, []);
+    assert.equal(accepted.length, 1);
+    assert.equal(accepted[0].amount, 100);
+    assert.equal(accepted[0].currency, "USD");
+    assert.equal(accepted[0].status, "Completed");
+    assert.equal(accepted[0].source_file, "f.csv");
+  });
+
+  it("lists every failing column of a rejected row", () => {
+    const { accepted, rejected } = validateRows(
+      transactions,
+      [txn(2, { Account_ID: "", Amount: "12abc", Date: "2025-02-30", Currency: "PESO" })],
+      "f.csv"
+    );
+    assert.equal(accepted.length, 0);
+    assert.deepEqual(rejected[0].reasons, [
+      `Date must be a date in YYYY-MM-DD format (got "2025-02-30")`,
+      "Account_ID is required",
+      `Amount must be a number (got "12abc")`,
+      `Currency must be an ISO 4217 currency code (got "PESO")`,
+    ]);
+    assert.equal(rejected[0].line, 2);
+    assert.equal(rejected[0].key, "T2");
+  });
+
+  it("rejects a key repeated later in the file, naming the first line", () => {
+    const { accepted, rejected } = validateRows(
+      transactions,
+      [txn(2, { Txn_ID: "T1" }), txn(3, { Txn_ID: "T1" }), txn(4, {})],
+      "f.csv"
+    );
+    assert.deepEqual(accepted.map((r) => r.txn_id), ["T1", "T4"]);
+    assert.deepEqual(rejected[0].reasons, [`duplicate txn_id "T1" (first seen on line 2)`]);
+  });
+
+  it("does not let a rejected row claim its key", () => {
+    const { accepted } = validateRows(transactions, [txn(2, { Txn_ID: "T1", Amount: "x" }), txn(3, { Txn_ID: "T1" })], "f.csv");
+    assert.deepEqual(accepted.map((r) => r.txn_id), ["T1"]);
+  });
+
+  it("keeps rows with values outside an expected list and reports them", () => {
+    const { accepted, rejected, unexpected } = validateRows(
+      transactions,
+      [txn(2, { Status: "Settled" }), txn(3, { Status: "settled" }), txn(4, { Status: "Settled" }), txn(5, { Status: "Held" })],
+      "f.csv"
+    );
+    assert.equal(rejected.length, 0);
+    assert.equal(accepted.length, 4);
+    assert.equal(accepted[0].status, "Settled");
+    assert.deepEqual(unexpected, [
+      { column: "Status", value: "Settled", rows: 2, firstLine: 2 },
+      { column: "Status", value: "settled", rows: 1, firstLine: 3 },
+      { column: "Status", value: "Held", rows: 1, firstLine: 5 },
+    ]);
+  });
+
+  it("builds composite keys and requires positive values where declared", () => {
+    const { accepted, rejected } = validateRows(
+      fxRates,
+      [
+        { line: 2, record: { Date: "2025-06-30", Currency: "usd", Rate: "56.1" } },
+        { line: 3, record: { Date: "2025-06-30", Currency: "EUR", Rate: "0" } },
+        { line: 4, record: { Date: "", Currency: "JPY", Rate: "0.39" } },
+      ],
+      "fx.csv"
+    );
+    assert.equal(accepted[0][fxRates.conflictKey], "2025-06-30:USD");
+    assert.deepEqual(rejected.map((r) => r.line), [3, 4]);
+    assert.deepEqual(rejected[0].reasons, [`Rate must be greater than 0 (got "0")`]);
+  });
+
+  it("never echoes PII values in reasons", () => {
+    const customers = getReportSchema("customers");
+    const { rejected } = validateRows(customers, [{ line: 2, record: { Customer_ID: "C1", DOB: "31/12/1990" } }], "c.csv");
+    assert.deepEqual(rejected[0].reasons, ["DOB must be a date in YYYY-MM-DD format"]);
+  });
+});
+
+describe("mergeUnexpectedValues", () => {
+  it("sums counts, keeps the earliest line and orders by frequency", () => {
+    const merged = mergeUnexpectedValues(
+      [{ column: "Status", value: "Held", rows: 1, firstLine: 9 }],
+      [
+        { column: "Status", value: "Held", rows: 3, firstLine: 4 },
+        { column: "Severity", value: "Urgent", rows: 2, firstLine: 2 },
+      ]
+    );
+    assert.deepEqual(merged, [
+      { column: "Status", value: "Held", rows: 4, firstLine: 4 },
+      { column: "Severity", value: "Urgent", rows: 2, firstLine: 2 },
+    ]);
+  });
+
+  it("keeps the 50 most frequent values", () => {
+    const many = Array.from({ length: 60 }, (_, i) => ({ column: "Status", value: `v${i}`, rows: i + 1, firstLine: 2 }));
+    const merged = mergeUnexpectedValues([], many);
+    assert.equal(merged.length, 50);
+    assert.equal(merged[0].value, "v59");
+    assert.equal(merged[49].value, "v10");
+  });
+
+  it("leaves its inputs untouched", () => {
+    const into = [{ column: "Status", value: "Held", rows: 1, firstLine: 9 }];
+    mergeUnexpectedValues(into, [{ column: "Status", value: "Held", rows: 3, firstLine: 4 }]);
+    assert.deepEqual(into, [{ column: "Status", value: "Held", rows: 1, firstLine: 9 }]);
+  });
+});
+
+describe("buildRejectionCsv", () => {
+  it("writes the line, the reasons and every original column, quoting where needed", () => {
+    const csv = buildRejectionCsv([
+      { line: 2, reasons: ["Amount must be a number", "Account_ID is required"], raw: { Txn_ID: "T1", Amount: "1,000" } },
+      { line: 5, reasons: ['Note has "quotes"'], raw: { Txn_ID: "T2", Note: "a\nb" } },
+    ]);
+    assert.equal(
+      csv,
+      "Line,Rejection_Reason,Txn_ID,Amount,Note\r\n" +
+        '2,Amount must be a number; Account_ID is required,T1,"1,000",\r\n' +
+        '5,"Note has ""quotes""",T2,,"a\nb"\r\n'
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildViolationQuery, compileCondition, conditionKinds, listConditionColumns } from "../../src/lib/ruleConditions";
+
+function compiled(kind: string, expression: string, paramOffset = 0) {
+  const result = compileCondition(kind, expression, paramOffset);
+  assert.deepEqual(result.problems, [], expression);
+  return result.compiled!;
+}
+
+function problem(kind: string, expression: string) {
+  const result = compileCondition(kind, expression);
+  assert.equal(result.compiled, null, expression);
+  assert.equal(result.problems.length, 1, expression);
+  return result.problems[0];
+}
+
+describe("compileCondition", () => {
+  it("splits a scoped condition into scope and requirement", () => {
+    const c = compiled("transactions", "amount > 500000 and txn_type = 'cash' requires counterparty");
+    assert.equal(
+      c.scope,
+      "((NULLIF(trim(s.amount::text), '')::numeric > $1::numeric) AND " +
+        "(lower(NULLIF(trim(s.txn_type::text), '')) = lower($2::text)))"
+    );
+    assert.equal(c.requirement, "(NULLIF(trim(s.counterparty::text), '') IS NOT NULL)");
+    assert.deepEqual(c.params, [500000, "cash"]);
+    assert.deepEqual(c.columns.sort(), ["amount", "counterparty", "txn_type"]);
+  });
+
+  it("leaves the scope empty for an unconditional requirement", () => {
+    const c = compiled("risk", "likelihood * impact < 25");
+    assert.equal(c.scope, null);
+    assert.equal(
+      c.requirement,
+      "((NULLIF(trim(s.likelihood::text), '')::numeric * NULLIF(trim(s.impact::text), '')::numeric) < $1::numeric)"
+    );
+  });
+
+  it("compiles in-lists, blanks, negation and functions", () => {
+    const c = compiled(
+      "risk",
+      "risk_category not in ('Fraud', 'AML') and not owner is blank or days_since(review_date) <= 90 requires length(mitigation) > 10"
+    );
+    assert.match(c.scope!, /lower\(NULLIF\(trim\(s\.risk_category::text\), ''\)\) NOT IN \(lower\(\$1::text\), lower\(\$2::text\)\)/);
+    assert.match(c.scope!, /\(NOT \(NULLIF\(trim\(s\.owner::text\), ''\) IS NULL\)\)/);
+    assert.match(c.scope!, /CURRENT_DATE - \(left\(NULLIF\(trim\(s\.review_date::text\), ''\), 10\)\)::date/);
+    assert.match(c.requirement, /^\(length\(NULLIF\(trim\(s\.mitigation::text\), ''\)\) > \$4::numeric\)$/);
+    assert.deepEqual(c.params, ["Fraud", "AML", 90, 10]);
+  });
+
+  it("guards division by zero", () => {
+    const c = compiled("risk", "score / impact >= 1");
+    assert.match(c.requirement, /\/ NULLIF\(NULLIF\(trim\(s\.impact::text\), ''\)::numeric, 0\)/);
+  });
+
+  it("numbers placeholders after the offset", () => {
+    const c = compiled("transactions", "amount > 1 requires status in ('Posted', 'Pending')", 3);
+    assert.match(c.scope!, /\$4::numeric/);
+    assert.match(c.requirement, /\$5::text.*\$6::text/);
+    assert.doesNotMatch(`${c.scope} ${c.requirement}`, /\$[1-3]\b/);
+  });
+
+  it("accepts the derived base-currency amount on transactions", () => {
+    assert.deepEqual(compiled("transactions", "amount_base < 1000000").columns, ["amount_base"]);
+  });
+
+  it("rejects unknown kinds and kinds without entity and period", () => {
+    assert.match(problem("nope", "amount > 1"), /^kind must be one of /);
+    assert.ok(!conditionKinds().includes("fx_rates"));
+    assert.match(problem("fx_rates", "rate > 0"), /^kind must be one of /);
+  });
+
+  it("rejects empty and over-long expressions", () => {
+    assert.equal(problem("transactions", "   "), "expression is required");
+    assert.match(problem("transactions", `amount > ${"1".repeat(2001)}`), /longer than 2000 characters/);
+  });
+
+  it("reports syntax errors with their position", () => {
+    assert.equal(problem("transactions", "amount >"), "condition ends unexpectedly (at character 9)");
+    assert.equal(problem("transactions", "txn_type = 'cash"), "unterminated string (at character 12)");
+    assert.equal(problem("transactions", "amount > 1 amount"), `unexpected "amount" (at character 12)`);
+    assert.equal(problem("transactions", "status is filled"), `expected "blank" (at character 11)`);
+  });
+
+  it("type-checks comparisons and function arguments", () => {
+    assert.equal(problem("transactions", "amount = 'big'"), "cannot compare number with text");
+    assert.equal(problem("transactions", "txn_type > 'a'"), `">" compares numbers or dates, not text`);
+    assert.equal(problem("transactions", "date = 'yesterday'"), "dates are written 'YYYY-MM-DD'");
+    assert.equal(problem("transactions", "lower(amount) = 'x'"), "lower() needs a text value, got number");
+    assert.equal(problem("transactions", "txn_type + 1 > 2"), `"+" needs a number value, got text`);
+    assert.equal(problem("transactions", "amount + 1"), "expected a condition, got a value (compare it with something)");
+  });
+
+  it("compares an ISO date literal with a date column", () => {
+    const c = compiled("transactions", "date >= '2025-01-01'");
+    assert.equal(c.requirement, "(left(NULLIF(trim(s.date::text), ''), 10) >= $1::text)");
+  });
+
+  it("caps nesting depth and in-list length", () => {
+    assert.match(problem("transactions", `${"(".repeat(40)}amount > 1${")".repeat(40)}`), /^condition is nested too deeply/);
+    assert.match(problem("transactions", `${"not ".repeat(40)}counterparty`), /^condition is nested too deeply/);
+    const values = Array.from({ length: 201 }, (_, i) => `'v${i}'`).join(", ");
+    assert.match(problem("transactions", `txn_type in (${values})`), /^an in-list can have at most 200 values/);
+  });
+});
+
+describe("compileCondition SQL safety", () => {
+  const sqlOf = (kind: string, expression: string) => {
+    const c = compiled(kind, expression);
+    return `${c.scope ?? ""} ${c.requirement}`;
+  };
+
+  it("binds string literals instead of splicing them into the SQL", () => {
+    const hostile = `x'); DROP TABLE transaction_reports; --`;
+    const c = compiled("transactions", `counterparty = '${hostile.replace(/'/g, "''")}'`);
+    assert.deepEqual(c.params, [hostile]);
+    assert.ok(!c.requirement.includes("DROP"));
+    assert.ok(!c.requirement.includes(";"));
+  });
+
+  it("binds numbers too", () => {
+    const c = compiled("transactions", "amount > 1000 or amount > 12_000.5");
+    assert.deepEqual(c.params, [1000, 12000.5]);
+    assert.doesNotMatch(c.requirement, /1000|12000/);
+  });
+
+  it("only reads the kind's own columns", () => {
+    assert.equal(problem("transactions", "password = 'x'"), `unknown column "password"`);
+    assert.equal(problem("transactions", "risk_id is blank"), `unknown column "risk_id"`);
+    assert.equal(problem("risk", "amount > 1"), `unknown column "amount"`);
+  });
+
+  it("refuses encrypted PII columns", () => {
+    assert.equal(problem("customers", "name is not blank"), `unknown column "name"`);
+    assert.equal(problem("customers", "dob < '2000-01-01'"), `unknown column "dob"`);
+    assert.ok(!listConditionColumns("customers").some((c) => ["name", "email", "phone", "dob"].includes(c.column)));
+  });
+
+  it("refuses functions outside the allowlist", () => {
+    assert.equal(problem("transactions", "pg_sleep(10) > 0"), `unknown function "pg_sleep" (at character 1)`);
+    assert.equal(problem("transactions", "current_setting('role') = 'x'"), `unknown function "current_setting" (at character 1)`);
+  });
+
+  it("refuses statement separators, comments, casts and qualified names", () => {
+    for (const expression of [
+      "amount > 1; DELETE FROM users",
+      "amount > 1 -- comment",
+      "amount > 1 /* comment */",
+      "amount::text = '1'",
+      "s.amount > 1",
+      "amount > \"1\"",
+      "amount > 1 requires counterparty requires status",
+    ]) {
+      assert.equal(compileCondition("transactions", expression).compiled, null, expression);
+    }
+  });
+
+  it("never emits a statement break or comment marker, whatever literals it is given", () => {
+    const hostile = ["--", "/*", "*/", ";", "'); DROP TABLE users; --", "$1", "\\", "' OR '1'='1"];
+    let seed = 42;
+    const pick = <T>(items: T[]) => items[Math.floor((seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31 * items.length)];
+    const text = () => `'${pick(hostile).replace(/'/g, "''")}'`;
+    const number = (depth: number): string =>
+      depth > 2 ? pick(["amount", "1", "0.5"]) : pick([`${number(depth + 1)} ${pick(["+", "-", "*", "/"])} ${number(depth + 1)}`, `-${number(depth + 1)}`, "abs(amount)"]);
+    const predicate = (depth: number): string =>
+      depth > 2
+        ? pick([`txn_type = ${text()}`, `lower(counterparty) != ${text()}`, `status in (${text()}, ${text()})`, `${number(depth)} > ${number(depth)}`, "counterparty is blank"])
+        : pick([`${predicate(depth + 1)} and ${predicate(depth + 1)}`, `(${predicate(depth + 1)} or ${predicate(depth + 1)})`, `not ${predicate(depth + 1)}`, predicate(3)]);
+
+    for (let n = 0; n < 500; n++) {
+      const expression = `${predicate(0)} requires ${predicate(1)}`;
+      const c = compiled("transactions", expression);
+      const sql = `${c.scope} ${c.requirement}`;
+      assert.doesNotMatch(sql, /;|--|\/\*|DROP|'1'/, expression);
+      assert.equal(sql.match(/\$\d+/g)?.length ?? 0, c.params.length, expression);
+    }
+  });
+
+  it("keeps literal text out of the SQL it emits", () => {
+    const sql = sqlOf("risk", "owner in ('Robert''); DROP TABLE risk_reports; --') requires mitigation");
+    assert.doesNotMatch(sql, /Robert|DROP/);
+  });
+});
+
+describe("buildViolationQuery", () => {
+  it("filters one entity/period and leaves $1-$3 for them", () => {
+    const { sql, params } = buildViolationQuery("transactions", "amount > 500000 requires counterparty");
+    assert.match(sql, /FROM transaction_reports s/);
+    assert.match(sql, /WHERE lower\(s\.entity\) = lower\(\$1\) AND s\.period = \$2/);
+    assert.match(sql, /AND COALESCE\(\(NULLIF\(trim\(s\.amount::text\), ''\)::numeric > \$4::numeric\), false\)/);
+    assert.match(sql, /AND NOT COALESCE\(\(NULLIF\(trim\(s\.counterparty::text\), ''\) IS NOT NULL\), false\)/);
+    assert.match(sql, /LIMIT \$3/);
+    assert.match(sql, /jsonb_build_object\('amount', s\.amount, 'counterparty', s\.counterparty\)/);
+    assert.deepEqual(params, [500000]);
+  });
+
+  it("throws for a condition that does not compile", () => {
+    assert.throws(() => buildViolationQuery("transactions", "amount >"), /^Error: INVALID_POLICY_CONDITION /);
+  });
+});
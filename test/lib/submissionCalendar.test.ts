@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { dueDate, isPeriodEnd, lastMonthEnd, periodEndsBetween, validateScheduleInput } from "../../src/lib/submissionCalendar";
+
+const utc = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("isPeriodEnd", () => {
+  it("accepts month ends that close a period of the frequency", () => {
+    assert.ok(isPeriodEnd("2025-01-31", "monthly"));
+    assert.ok(isPeriodEnd("2024-02-29", "monthly"));
+    assert.ok(isPeriodEnd("2025-06-30", "quarterly"));
+    assert.ok(isPeriodEnd("2025-06-30", "semiannual"));
+    assert.ok(isPeriodEnd("2025-12-31", "annual"));
+  });
+
+  it("rejects other days, months and malformed dates", () => {
+    assert.ok(!isPeriodEnd("2025-06-29", "monthly"));
+    assert.ok(!isPeriodEnd("2025-02-29", "monthly"));
+    assert.ok(!isPeriodEnd("2025-05-31", "quarterly"));
+    assert.ok(!isPeriodEnd("2025-09-30", "semiannual"));
+    assert.ok(!isPeriodEnd("2025-06-30", "annual"));
+    assert.ok(!isPeriodEnd("2025-6-30", "monthly"));
+    assert.ok(!isPeriodEnd("June 2025", "monthly"));
+  });
+});
+
+describe("periodEndsBetween", () => {
+  it("lists the period ends inside the range, oldest first", () => {
+    assert.deepEqual(periodEndsBetween("monthly", utc("2025-01-15"), utc("2025-04-30")), [
+      "2025-01-31",
+      "2025-02-28",
+      "2025-03-31",
+      "2025-04-30",
+    ]);
+    assert.deepEqual(periodEndsBetween("quarterly", utc("2024-11-01"), utc("2025-09-29")), ["2024-12-31", "2025-03-31", "2025-06-30"]);
+    assert.deepEqual(periodEndsBetween("semiannual", utc("2024-01-01"), utc("2025-12-31")), [
+      "2024-06-30",
+      "2024-12-31",
+      "2025-06-30",
+      "2025-12-31",
+    ]);
+    assert.deepEqual(periodEndsBetween("annual", utc("2023-06-01"), utc("2025-06-30")), ["2023-12-31", "2024-12-31"]);
+  });
+
+  it("includes period ends on either bound and is empty for an empty range", () => {
+    assert.deepEqual(periodEndsBetween("quarterly", utc("2025-03-31"), utc("2025-06-30")), ["2025-03-31", "2025-06-30"]);
+    assert.deepEqual(periodEndsBetween("monthly", utc("2025-06-01"), utc("2025-06-29")), []);
+    assert.deepEqual(periodEndsBetween("monthly", utc("2025-07-01"), utc("2025-06-01")), []);
+  });
+
+  it("only returns dates isPeriodEnd accepts", () => {
+    for (const frequency of ["monthly", "quarterly", "semiannual", "annual"] as const) {
+      for (const period of periodEndsBetween(frequency, utc("2020-01-01"), utc("2026-12-31"))) {
+        assert.ok(isPeriodEnd(period, frequency), `${frequency} ${period}`);
+      }
+    }
+  });
+});
+
+describe("dueDate", () => {
+  it("adds the offset in days across month and year ends", () => {
+    assert.equal(dueDate("2025-06-30", 15), "2025-07-15");
+    assert.equal(dueDate("2024-12-31", 45), "2025-02-14");
+    assert.equal(dueDate("2024-01-31", 29), "2024-02-29");
+    assert.equal(dueDate("2025-06-30", 0), "2025-06-30");
+  });
+});
+
+describe("lastMonthEnd", () => {
+  it("is the end of the previous month, even on a month end", () => {
+    assert.equal(lastMonthEnd(new Date("2025-07-10T12:00:00Z")), "2025-06-30");
+    assert.equal(lastMonthEnd(new Date("2025-07-31T23:59:59Z")), "2025-06-30");
+    assert.equal(lastMonthEnd(new Date("2025-01-01T00:00:00Z")), "2024-12-31");
+    assert.equal(lastMonthEnd(new Date("2024-03-15T00:00:00Z")), "2024-02-29");
+  });
+});
+
+describe("validateScheduleInput", () => {
+  it("accepts a complete schedule", () => {
+    assert.deepEqual(validateScheduleInput({ entity_code: "BPI", kind: "transactions", frequency: "monthly", due_day_offset: 15 }), []);
+  });
+
+  it("lists every problem", () => {
+    assert.deepEqual(validateScheduleInput({ entity_code: " ", kind: "loans", frequency: "weekly" as any, due_day_offset: 1.5 }), [
+      "entity_code is required",
+      `kind must be a report kind, got "loans"`,
+      "frequency must be one of monthly, quarterly, semiannual, annual",
+      "due_day_offset must be a whole number of days between 0 and 366",
+    ]);
+    assert.deepEqual(validateScheduleInput({ entity_code: "BPI", kind: "risk", frequency: "annual", due_day_offset: 367 }), [
+      "due_day_offset must be a whole number of days between 0 and 366",
+    ]);
+  });
+});
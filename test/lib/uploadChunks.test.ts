@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CONFIG } from "../../src/lib/config";
+import { missingChunkRanges, planChunks } from "../../src/lib/uploadChunks";
+
+const { MIN_CHUNK_SIZE, MAX_CHUNK_SIZE, MAX_UPLOAD_CHUNKS } = CONFIG.PROCESSING;
+
+describe("planChunks", () => {
+  it("rounds the last partial chunk up", () => {
+    assert.deepEqual(planChunks(MIN_CHUNK_SIZE * 3 + 1, MIN_CHUNK_SIZE), { ok: true, totalChunks: 4 });
+    assert.deepEqual(planChunks(MIN_CHUNK_SIZE * 3, MIN_CHUNK_SIZE), { ok: true, totalChunks: 3 });
+    assert.deepEqual(planChunks(10, MIN_CHUNK_SIZE), { ok: true, totalChunks: 1 });
+  });
+
+  it("refuses chunk sizes outside the configured bounds", () => {
+    for (const chunkSize of [1, MIN_CHUNK_SIZE - 1, MAX_CHUNK_SIZE + 1, MIN_CHUNK_SIZE + 0.5, NaN]) {
+      const plan = planChunks(MIN_CHUNK_SIZE, chunkSize);
+      assert.equal(plan.ok, false, `chunk size ${chunkSize}`);
+      if (!plan.ok) {
+        assert.equal(plan.error, "INVALID_CHUNK_SIZE");
+        assert.deepEqual(plan.detail, { min: MIN_CHUNK_SIZE, max: MAX_CHUNK_SIZE });
+      }
+    }
+    assert.equal(planChunks(MIN_CHUNK_SIZE, MIN_CHUNK_SIZE).ok, true);
+    assert.equal(planChunks(MAX_CHUNK_SIZE, MAX_CHUNK_SIZE).ok, true);
+  });
+
+  it("caps the chunk count and names the chunk size that would fit", () => {
+    const size = MIN_CHUNK_SIZE * MAX_UPLOAD_CHUNKS;
+    assert.deepEqual(planChunks(size, MIN_CHUNK_SIZE), { ok: true, totalChunks: MAX_UPLOAD_CHUNKS });
+
+    const plan = planChunks(size + 1, MIN_CHUNK_SIZE);
+    assert.equal(plan.ok, false);
+    if (plan.ok) return;
+    assert.equal(plan.error, "TOO_MANY_CHUNKS");
+    assert.equal(plan.detail.max, MAX_UPLOAD_CHUNKS);
+    const suggested = planChunks(size + 1, plan.detail.minChunkSize);
+    assert.deepEqual(suggested, { ok: true, totalChunks: MAX_UPLOAD_CHUNKS });
+  });
+});
+
+describe("missingChunkRanges", () => {
+  it("reports the whole file when nothing arrived", () => {
+    assert.deepEqual(missingChunkRanges(5, []), [[0, 4]]);
+  });
+
+  it("reports nothing once every chunk arrived", () => {
+    assert.deepEqual(missingChunkRanges(3, [0, 1, 2]), []);
+  });
+
+  it("reports gaps at the start, middle and end as inclusive ranges", () => {
+    assert.deepEqual(missingChunkRanges(10, [2, 3, 6]), [
+      [0, 1],
+      [4, 5],
+      [7, 9],
+    ]);
+    assert.deepEqual(missingChunkRanges(4, [0, 3]), [[1, 2]]);
+  });
+
+  it("handles single missing chunks", () => {
+    assert.deepEqual(missingChunkRanges(5, [0, 2, 4]), [
+      [1, 1],
+      [3, 3],
+    ]);
+  });
+
+  it("stays proportional to the received list for very large sessions", () => {
+    assert.deepEqual(missingChunkRanges(Number.MAX_SAFE_INTEGER, [0]), [[1, Number.MAX_SAFE_INTEGER - 1]]);
+  });
+});
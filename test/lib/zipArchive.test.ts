@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import JSZip from "jszip";
+import { isUnsafeEntryPath, unpackZip, type ZipLimits } from "../../src/lib/zipArchive";
+
+const limits: ZipLimits = { maxEntries: 10, maxEntrySize: 1024 * 1024, maxTotalSize: 2 * 1024 * 1024 };
+
+async function archive(files: Record<string, string | Buffer>) {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+describe("isUnsafeEntryPath", () => {
+  it("flags traversal, absolute paths, drive letters and NUL bytes", () => {
+    for (const name of ["../x.csv", "a/../../x.csv", "a\\..\\x.csv", "/etc/passwd", "C:/x.csv", "c:x.csv", "x\0.csv", ""]) {
+      assert.ok(isUnsafeEntryPath(name), JSON.stringify(name));
+    }
+  });
+
+  it("allows ordinary nested names", () => {
+    for (const name of ["x.csv", "BPI/2025-06/transactions.csv", "a..b.csv", "dir../x.csv"]) {
+      assert.ok(!isUnsafeEntryPath(name), name);
+    }
+  });
+});
+
+describe("unpackZip", () => {
+  it("returns report files and skips everything else with a reason", async () => {
+    const result = await unpackZip(
+      await archive({
+        "BPI/transactions.csv": "Txn_ID\nT1\n",
+        "BPI/policy.pdf": "%PDF-1.4",
+        "notes.txt": "hello",
+        ".DS_Store": "x",
+        "__MACOSX/BPI/._transactions.csv": "x",
+        "inner.zip": "PK",
+      }),
+      limits
+    );
+    assert.ok(result.ok);
+    assert.deepEqual(
+      result.entries.map((e) => [e.path, e.name, e.mime, e.buffer.toString()]),
+      [
+        ["BPI/transactions.csv", "transactions.csv", "text/csv", "Txn_ID\nT1\n"],
+        ["BPI/policy.pdf", "policy.pdf", "application/pdf", "%PDF-1.4"],
+      ]
+    );
+    assert.deepEqual(
+      result.skipped.map((s) => [s.path, s.reason]).sort(),
+      [
+        [".DS_Store", "HIDDEN_OR_SYSTEM_FILE"],
+        ["__MACOSX/BPI/._transactions.csv", "HIDDEN_OR_SYSTEM_FILE"],
+        ["inner.zip", "NESTED_ARCHIVE"],
+        ["notes.txt", "UNSUPPORTED_TYPE"],
+      ]
+    );
+  });
+
+  it("rejects bytes that are not a zip", async () => {
+    const result = await unpackZip(Buffer.from("not a zip"), limits);
+    assert.equal(result.ok, false);
+    if (!result.ok) assert.equal(result.error, "INVALID_ZIP");
+  });
+
+  it("rejects an archive with too many entries before reading any", async () => {
+    const files = Object.fromEntries(Array.from({ length: 11 }, (_, i) => [`f${i}.csv`, "a\n"]));
+    const result = await unpackZip(await archive(files), limits);
+    assert.deepEqual(result, { ok: false, error: "ZIP_TOO_MANY_ENTRIES", detail: { entries: 11, limit: 10 } });
+  });
+
+  it("rejects the whole archive when any entry path is unsafe", async () => {
+    const result = await unpackZip(await archive({ "ok.csv": "a\n", "../../evil.csv": "b\n" }), limits);
+    assert.equal(result.ok, false);
+    if (!result.ok) {
+      assert.equal(result.error, "ZIP_UNSAFE_PATH");
+      assert.deepEqual(result.detail, { paths: ["../../evil.csv"] });
+    }
+  });
+
+  it("stops inflating an entry past the per-entry limit", async () => {
+    const bomb = Buffer.alloc(limits.maxEntrySize + 1, 0);
+    const result = await unpackZip(await archive({ "bomb.csv": bomb }), limits);
+    assert.deepEqual(result, { ok: false, error: "ZIP_ENTRY_TOO_LARGE", detail: { path: "bomb.csv", limit: limits.maxEntrySize } });
+  });
+
+  it("stops once the entries together pass the total limit", async () => {
+    const part = Buffer.alloc(limits.maxEntrySize - 10, 0x61);
+    const result = await unpackZip(await archive({ "a.csv": part, "b.csv": part, "c.csv": part }), limits);
+    assert.deepEqual(result, { ok: false, error: "ZIP_TOO_LARGE_UNCOMPRESSED", detail: { limit: limits.maxTotalSize } });
+  });
+
+  it("accepts entries exactly at the limits", async () => {
+    const exact = Buffer.alloc(limits.maxEntrySize, 0x61);
+    const result = await unpackZip(await archive({ "a.csv": exact, "b.csv": exact }), limits);
+    assert.ok(result.ok);
+    assert.deepEqual(result.entries.map((e) => e.buffer.length), [limits.maxEntrySize, limits.maxEntrySize]);
+  });
+});
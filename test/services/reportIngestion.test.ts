@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import * as db from "../../src/db";
+import { logger } from "../../src/lib/config";
+import * as integrityChecks from "../../src/services/integrityChecks";
+import * as policyConditions from "../../src/services/policyConditions";
+import { revertUpload } from "../../src/services/reportIngestion";
+
+const UPLOAD = "11111111-1111-1111-1111-111111111111";
+const LATER = "22222222-2222-2222-2222-222222222222";
+
+interface Reply {
+  rows?: any[];
+  rowCount?: number;
+}
+
+// Answers each statement with the first reply whose pattern matches it; the log keeps every statement run
+function fakeDatabase(replies: [RegExp, Reply][]) {
+  const log: { sql: string; params: unknown[] }[] = [];
+  const executor = {
+    query: async (sql: string, params: unknown[] = []) => {
+      log.push({ sql, params });
+      const reply = replies.find(([pattern]) => pattern.test(sql))?.[1] ?? {};
+      return { rows: reply.rows ?? [], rowCount: reply.rowCount ?? reply.rows?.length ?? 0 } as any;
+    },
+  };
+  mock.method(db, "query", executor.query);
+  mock.method(db, "withTransaction", (fn: (tx: any) => Promise<unknown>) => fn(executor));
+  return { ran: (pattern: RegExp) => log.filter((q) => pattern.test(q.sql)) };
+}
+
+const upload = (fields: Record<string, unknown> = {}): [RegExp, Reply] => [
+  /SELECT id, kind, status, entity_code, period FROM report_uploads/,
+  { rows: [{ id: UPLOAD, kind: "transactions", status: "succeeded", entity_code: "BPI", period: "2025-06-30", ...fields }] },
+];
+const locked = (status: string): [RegExp, Reply] => [/SELECT status FROM report_uploads WHERE id = \$1 FOR UPDATE/, { rows: [{ status }] }];
+const blocking = (...ids: string[]): [RegExp, Reply] => [/SELECT DISTINCT later\.upload_id/, { rows: ids.map((upload_id) => ({ upload_id })) }];
+const marked = (rowCount: number): [RegExp, Reply] => [/UPDATE report_uploads SET status = 'reverted'/, { rowCount }];
+
+const MARK = /UPDATE report_uploads SET status = 'reverted'/;
+const RESTORE = /DELETE FROM \w+ t\s+USING report_row_versions|INSERT INTO \w+\s+SELECT \(jsonb_populate_record/;
+
+describe("revertUpload", () => {
+  let integrityRuns: ReturnType<typeof mock.method>;
+  let policyRuns: ReturnType<typeof mock.method>;
+
+  beforeEach(() => {
+    logger.silent = true;
+    integrityRuns = mock.method(integrityChecks, "runIntegrityChecks", async () => ({}));
+    policyRuns = mock.method(policyConditions, "runPolicyConditions", async () => ({}));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    logger.silent = false;
+  });
+
+  it("reports an unknown upload", async () => {
+    fakeDatabase([]);
+    assert.deepEqual(await revertUpload(UPLOAD, "lead"), { status: "not_found" });
+  });
+
+  it("refuses uploads that did not succeed and kinds without a schema", async () => {
+    fakeDatabase([upload({ status: "failed" })]);
+    assert.deepEqual(await revertUpload(UPLOAD, "lead"), { status: "not_revertible", reason: "upload is failed" });
+
+    mock.restoreAll();
+    fakeDatabase([upload({ kind: "policies" })]);
+    assert.deepEqual(await revertUpload(UPLOAD, "lead"), {
+      status: "not_revertible",
+      reason: "policies uploads cannot be reverted",
+    });
+  });
+
+  it("stops when the upload changed status before the lock was taken", async () => {
+    const database = fakeDatabase([upload(), locked("reverted")]);
+    assert.deepEqual(await revertUpload(UPLOAD, "lead"), { status: "already_changed", current: "reverted" });
+    assert.equal(database.ran(/SELECT DISTINCT later\.upload_id/).length, 0);
+    assert.equal(database.ran(MARK).length, 0);
+  });
+
+  it("refuses while a later succeeded upload touched the same keys", async () => {
+    const database = fakeDatabase([upload(), locked("succeeded"), blocking(LATER)]);
+    assert.deepEqual(await revertUpload(UPLOAD, "lead"), { status: "conflict", blockingUploads: [LATER] });
+    assert.equal(database.ran(MARK).length, 0);
+    assert.equal(database.ran(RESTORE).length, 0);
+    assert.equal(integrityRuns.mock.callCount(), 0);
+  });
+
+  it("only counts other, succeeded uploads that snapshotted the same keys later", async () => {
+    const database = fakeDatabase([upload(), locked("succeeded"), blocking()]);
+    await revertUpload(UPLOAD, "lead");
+    const [check] = database.ran(/SELECT DISTINCT later\.upload_id/);
+    assert.deepEqual(check.params, [UPLOAD]);
+    const sql = check.sql.replace(/\s+/g, " ");
+    assert.match(sql, /later\.table_name = v\.table_name AND later\.key_value = v\.key_value AND later\.id > v\.id/);
+    assert.match(sql, /AND later\.upload_id <> v\.upload_id/);
+    assert.match(sql, /u\.id = later\.upload_id AND u\.status = 'succeeded'/);
+    assert.match(sql, /WHERE v\.upload_id = \$1/);
+  });
+
+  it("stops when a concurrent revert marked the upload first", async () => {
+    const database = fakeDatabase([upload(), locked("succeeded"), blocking(), marked(0)]);
+    assert.deepEqual(await revertUpload(UPLOAD, "lead"), { status: "already_changed", current: "reverted" });
+    assert.equal(database.ran(RESTORE).length, 0);
+  });
+
+  it("restores the rows, drops the quality score and re-runs checks for the scope", async () => {
+    const database = fakeDatabase([
+      upload(),
+      locked("succeeded"),
+      blocking(),
+      marked(1),
+      [/DELETE FROM transaction_reports t/, { rowCount: 5 }],
+      [/INSERT INTO transaction_reports/, { rowCount: 2 }],
+    ]);
+    assert.deepEqual(await revertUpload(UPLOAD, "lead"), { status: "reverted", rowsDeleted: 3, rowsRestored: 2 });
+    assert.deepEqual(database.ran(MARK)[0].params, [UPLOAD, "lead"]);
+    assert.equal(database.ran(/DELETE FROM report_quality_scores WHERE upload_id = \$1/).length, 1);
+    assert.equal(database.ran(/DELETE FROM report_row_history WHERE upload_id = \$1/).length, 1);
+    const scope = { uploadId: null, kind: "transactions", entityCode: "BPI", period: "2025-06-30" };
+    assert.deepEqual(integrityRuns.mock.calls[0].arguments, [scope]);
+    assert.deepEqual(policyRuns.mock.calls[0].arguments, [scope]);
+  });
+
+  it("also restores the transactions an FX upload re-converted", async () => {
+    const database = fakeDatabase([
+      upload({ kind: "fx_rates", entity_code: "GROUP" }),
+      locked("succeeded"),
+      blocking(),
+      marked(1),
+      [/DELETE FROM fx_rates t/, { rowCount: 3 }],
+      [/INSERT INTO fx_rates/, { rowCount: 0 }],
+      [/DELETE FROM transaction_reports t/, { rowCount: 2 }],
+      [/INSERT INTO transaction_reports/, { rowCount: 2 }],
+    ]);
+    assert.deepEqual(await revertUpload(UPLOAD, "lead"), {
+      status: "reverted",
+      rowsDeleted: 3,
+      rowsRestored: 0,
+      transactionsRestored: 2,
+    });
+    const restores = database.ran(RESTORE);
+    assert.equal(restores.length, 4);
+    for (const { params } of restores) assert.equal(params[0], UPLOAD);
+  });
+
+  it("keeps the revert when the checks cannot re-run", async () => {
+    fakeDatabase([upload(), locked("succeeded"), blocking(), marked(1)]);
+    integrityRuns.mock.mockImplementation(async () => {
+      throw new Error("checks down");
+    });
+    assert.equal((await revertUpload(UPLOAD, "lead")).status, "reverted");
+  });
+});